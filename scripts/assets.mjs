@@ -0,0 +1,301 @@
+#!/usr/bin/env node
+// Asset pipeline: turns the original downloads (see README) into what the app loads from
+// public/ — skybox cube faces, Earth/Moon/Sun textures at several sizes and XYZ tile
+// pyramids for the tiled globe — and writes public/assets-manifest.json describing them.
+//
+// Runs offline. Each output is fingerprinted by its source file and settings; a re-run
+// skips anything whose fingerprint is unchanged and whose files are still there, so
+// running it twice leaves public/ byte-for-byte the same.
+//
+//   pnpm assets [--source assets] [--out public] [--force] ...   (--help for all options)
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import sharp from 'sharp';
+import equirectToCubemapFaces from 'equirect-to-cubemap/equirect-to-cube.js';
+
+// Bump to invalidate every fingerprint when the outputs change shape
+const PIPELINE_VERSION = 1;
+const MANIFEST_FILE = 'assets-manifest.json';
+const CUBE_FACES = ['px', 'nx', 'py', 'ny', 'pz', 'nz']; // The order CubeTextureLoader expects
+const TILE_SIZE = 256;
+const MAX_TEXTURE_WIDTH = 16384;
+const MIN_TEXTURE_WIDTH = 1024;
+const MIN_FACE_SIZE = 256;
+const ELEVATION_RANGE = [0, 8848]; // meters spanned by the bump map's black to white
+
+// Texture name (as used by Scene3D) -> source file in the source directory
+const TEXTURES = {
+  'earth-day': '8081_earthmap10k.jpg',
+  'earth-night': '8081_earthlights10k.jpg',
+  'earth-specular': '8081_earthspec10k.jpg',
+  'earth-bump': '8081_earthbump10k.jpg',
+  'earth-clouds': '8081_earthclouds10k.jpg',
+  moon: '8k_moon.jpg',
+  sun: '8k_sun.jpg',
+};
+
+const USAGE = `Usage: pnpm assets [options]
+
+  --source <dir>          Original downloads (default: assets)
+  --out <dir>             Where the app's static files live (default: public)
+  --sky <file>            Equirectangular sky panorama in the source dir (default: milky-way.png)
+  --face-size <px>        Largest cube face edge (default: 2048)
+  --imagery-level <z>     Deepest imagery tile level (default: as deep as the day map allows)
+  --elevation-level <z>   Deepest elevation tile level (default: 4, at most the imagery level)
+  --force                 Rebuild everything, ignoring fingerprints
+  --help                  Show this message`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      source: { type: 'string', default: 'assets' },
+      out: { type: 'string', default: 'public' },
+      sky: { type: 'string', default: 'milky-way.png' },
+      'face-size': { type: 'string', default: '2048' },
+      'imagery-level': { type: 'string' },
+      'elevation-level': { type: 'string', default: '4' },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const sourceDir = path.resolve(values.source);
+  const outDir = path.resolve(values.out);
+  const faceSize = parseInteger('--face-size', values['face-size'], MIN_FACE_SIZE);
+  if (!Number.isInteger(Math.log2(faceSize))) {
+    throw new Error(`--face-size must be a power of two, got ${faceSize}`);
+  }
+  const imageryLevel = values['imagery-level'] === undefined ? null : parseInteger('--imagery-level', values['imagery-level'], 0);
+  const elevationLevel = parseInteger('--elevation-level', values['elevation-level'], 0);
+
+  const manifestPath = path.join(outDir, MANIFEST_FILE);
+  const previous = await readManifest(manifestPath);
+  const manifest = { version: 1, skybox: null, textures: {}, tiles: {} };
+  const context = { sourceDir, outDir, force: values.force };
+
+  manifest.skybox = await step(context, 'skybox', values.sky, { faceSize }, previous.skybox, (source, settings) =>
+    buildSkybox(context, source, settings)
+  );
+
+  for (const [name, file] of Object.entries(TEXTURES)) {
+    const entry = await step(context, `texture ${name}`, file, {}, previous.textures?.[name], (source, settings) =>
+      buildTexture(context, name, source, settings)
+    );
+    if (entry) manifest.textures[name] = entry;
+  }
+
+  const dayMap = path.join(sourceDir, TEXTURES['earth-day']);
+  const maxImageryLevel = existsSync(dayMap) ? await deepestLevel(dayMap) : 0;
+  const imagery = await step(
+    context,
+    'imagery tiles',
+    TEXTURES['earth-day'],
+    { maxLevel: Math.min(imageryLevel ?? maxImageryLevel, maxImageryLevel) },
+    previous.tiles?.imagery,
+    (source, settings) => buildTilePyramid(context, 'imagery', source, settings)
+  );
+  if (imagery) manifest.tiles.imagery = imagery;
+
+  const elevation = await step(
+    context,
+    'elevation tiles',
+    TEXTURES['earth-bump'],
+    { maxLevel: Math.min(elevationLevel, imagery?.maxLevel ?? elevationLevel) },
+    previous.tiles?.elevation,
+    (source, settings) => buildTilePyramid(context, 'elevation', source, settings)
+  );
+  if (elevation) manifest.tiles.elevation = elevation;
+
+  // Written last and swapped in whole, so an interrupted run never leaves a half manifest
+  await writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2) + '\n');
+  await rename(`${manifestPath}.tmp`, manifestPath);
+  console.log(`Wrote ${path.relative(process.cwd(), manifestPath)}`);
+}
+
+// Run one output step unless its previous result is still valid. A missing source keeps
+// whatever was generated from it before, so the originals needn't stay around.
+async function step(context, label, file, settings, previous, build) {
+  const source = path.join(context.sourceDir, file);
+  if (!existsSync(source)) {
+    if (previous && outputsExist(context, previous)) {
+      console.log(`${label}: ${file} not found, keeping the existing output`);
+      return previous;
+    }
+    console.warn(`${label}: ${file} not found in ${context.sourceDir}, skipped`);
+    return null;
+  }
+
+  const fingerprint = await fingerprintOf(source, settings);
+  if (!context.force && previous?.fingerprint === fingerprint && outputsExist(context, previous)) {
+    console.log(`${label}: up to date`);
+    return previous;
+  }
+
+  console.log(`${label}: building from ${file}`);
+  return { fingerprint, ...(await build(source, settings)) };
+}
+
+// Cube faces at faceSize and each halving down to MIN_FACE_SIZE
+async function buildSkybox(context, source, { faceSize }) {
+  const root = path.join(context.outDir, 'cube-faces');
+
+  // The converter samples a 2:1 panorama; four texels across per face texel is plenty
+  const { data, info } = await sharp(source)
+    .resize(faceSize * 4, faceSize * 2, { fit: 'fill' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const pixels = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
+  pixels.width = info.width;
+  pixels.height = info.height;
+
+  // Same orientation and face names as the faces made with the online converter
+  const faces = equirectToCubemapFaces(pixels, faceSize, {
+    alpha: true,
+    pixelType: Uint8ClampedArray,
+    interpolation: 'bilinear',
+  });
+
+  const levels = [];
+  for (let size = faceSize; size >= MIN_FACE_SIZE; size /= 2) {
+    const dir = path.join(root, String(size));
+    await rm(dir, { recursive: true, force: true });
+    await mkdir(dir, { recursive: true });
+    for (const face of faces) {
+      const image = sharp(Buffer.from(face.buffer), { raw: { width: faceSize, height: faceSize, channels: 4 } })
+        .removeAlpha()
+        .resize(size, size, { kernel: 'lanczos3' });
+      await image.png({ compressionLevel: 9 }).toFile(path.join(dir, `${face.name}.png`));
+    }
+    levels.push({ size, faces: CUBE_FACES.map((name) => publicUrl(context, path.join(dir, `${name}.png`))) });
+  }
+  return { levels };
+}
+
+// Power-of-two widths from the source size (at most MAX_TEXTURE_WIDTH) down to MIN_TEXTURE_WIDTH
+async function buildTexture(context, name, source) {
+  const { width, height } = await sharp(source).metadata();
+  const extension = path.extname(source).toLowerCase() === '.png' ? 'png' : 'jpg';
+  const dir = path.join(context.outDir, 'textures', name);
+  await rm(dir, { recursive: true, force: true });
+  await mkdir(dir, { recursive: true });
+
+  const levels = [];
+  let levelWidth = 2 ** Math.floor(Math.log2(Math.min(width, MAX_TEXTURE_WIDTH)));
+  do {
+    const levelHeight = Math.max(1, Math.round((levelWidth * height) / width));
+    const file = path.join(dir, `${levelWidth}.${extension}`);
+    const image = sharp(source).resize(levelWidth, levelHeight, { fit: 'fill', kernel: 'lanczos3' });
+    await (extension === 'png' ? image.png({ compressionLevel: 9 }) : image.jpeg({ quality: 90 })).toFile(file);
+    levels.push({ width: levelWidth, height: levelHeight, url: publicUrl(context, file) });
+    levelWidth /= 2;
+  } while (levelWidth >= MIN_TEXTURE_WIDTH);
+  return { levels };
+}
+
+// Geographic (plate carrée) XYZ pyramid, as TiledGlobe expects by default: level z is
+// 2^(z+1) × 2^z tiles, row 0 at the north. Elevation tiles are greyscale PNGs.
+async function buildTilePyramid(context, kind, source, { maxLevel }) {
+  const elevation = kind === 'elevation';
+  const extension = elevation ? 'png' : 'jpg';
+  const channels = elevation ? 1 : 3;
+  const root = path.join(context.outDir, 'tiles', kind);
+  await rm(root, { recursive: true, force: true });
+
+  for (let z = 0; z <= maxLevel; z++) {
+    const columns = 2 ** (z + 1);
+    const rows = 2 ** z;
+    let image = sharp(source).resize(columns * TILE_SIZE, rows * TILE_SIZE, { fit: 'fill', kernel: 'lanczos3' });
+    image = elevation ? image.toColourspace('b-w') : image.removeAlpha();
+    const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+
+    const rowBytes = info.width * channels;
+    const tileRowBytes = TILE_SIZE * channels;
+    for (let x = 0; x < columns; x++) {
+      const dir = path.join(root, String(z), String(x));
+      await mkdir(dir, { recursive: true });
+      for (let y = 0; y < rows; y++) {
+        const tile = Buffer.alloc(TILE_SIZE * tileRowBytes);
+        for (let row = 0; row < TILE_SIZE; row++) {
+          const start = (y * TILE_SIZE + row) * rowBytes + x * tileRowBytes;
+          data.copy(tile, row * tileRowBytes, start, start + tileRowBytes);
+        }
+        const encoder = sharp(tile, { raw: { width: TILE_SIZE, height: TILE_SIZE, channels } });
+        await (elevation ? encoder.toColourspace('b-w').png({ compressionLevel: 9 }) : encoder.jpeg({ quality: 85 })).toFile(
+          path.join(dir, `${y}.${extension}`)
+        );
+      }
+    }
+    console.log(`  level ${z}: ${columns * rows} tiles`);
+  }
+
+  const entry = {
+    url: `${publicUrl(context, root)}/{z}/{x}/{y}.${extension}`,
+    projection: 'geographic',
+    scheme: 'xyz',
+    tileSize: TILE_SIZE,
+    maxLevel,
+  };
+  return elevation ? { ...entry, encoding: 'grayscale', range: ELEVATION_RANGE } : entry;
+}
+
+// Deepest level whose full width doesn't upsample the source
+async function deepestLevel(source) {
+  const { width } = await sharp(source).metadata();
+  return Math.max(0, Math.floor(Math.log2(width / TILE_SIZE)) - 1);
+}
+
+async function fingerprintOf(source, settings) {
+  const hash = createHash('sha1');
+  hash.update(JSON.stringify({ version: PIPELINE_VERSION, settings }));
+  hash.update(await readFile(source));
+  return hash.digest('hex');
+}
+
+// Spot-check an entry's files: every listed texture and cube face, and a root tile
+function outputsExist(context, entry) {
+  const urls = [];
+  for (const level of entry.levels ?? []) {
+    urls.push(...(level.faces ?? [level.url]));
+  }
+  if (entry.url) {
+    urls.push(entry.url.replace('{z}', '0').replace('{x}', '0').replace('{y}', '0'));
+  }
+  return urls.length > 0 && urls.every((url) => existsSync(path.join(context.outDir, url)));
+}
+
+async function readManifest(file) {
+  if (!existsSync(file)) return {};
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    console.warn(`${file} is not valid JSON, rebuilding everything`);
+    return {};
+  }
+}
+
+// URL the dev server / build serves a file under the output directory at
+function publicUrl(context, file) {
+  return '/' + path.relative(context.outDir, file).split(path.sep).join('/');
+}
+
+function parseInteger(flag, value, min) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(`${flag} must be a whole number of at least ${min}, got "${value}"`);
+  }
+  return number;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,83 @@
+// Rendering quality steps, lowest first. Scene3D applies a level to the renderer and the
+// globe; AdaptiveQuality picks one from measured frame times.
+export interface QualityLevel {
+  name: string;
+  maxPixelRatio: number; // Cap on window.devicePixelRatio
+  globeSegments: number; // Width and height segments of the base globe sphere
+  surfaceDetail: boolean; // Relief and ocean glints in the day/night shader
+}
+
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  { name: 'Low', maxPixelRatio: 0.75, globeSegments: 64, surfaceDetail: false },
+  { name: 'Medium', maxPixelRatio: 1, globeSegments: 96, surfaceDetail: false },
+  { name: 'High', maxPixelRatio: 1.5, globeSegments: 128, surfaceDetail: true },
+  { name: 'Full', maxPixelRatio: Infinity, globeSegments: 200, surfaceDetail: true },
+];
+
+const WINDOW_SIZE = 60; // Frames per decision, about a second while animating
+const SLOW_FACTOR = 1.2; // A window this far over budget steps down
+const RAISE_AFTER = 5; // Windows within budget in a row before stepping up
+
+// Steps quality down when frames miss their budget and back up after a run of frames
+// with headroom. Frame times are intervals between consecutive rendered frames, as the
+// Stats.js FPS panel counts them, so they include GPU work the CPU never waits on. A
+// step up that misses straight away caps the level there, so it doesn't flip-flop.
+export class AdaptiveQuality {
+  private level: number;
+  private ceiling: number;
+  private samples: number[] = [];
+  private goodWindows: number = 0;
+  private justRaised: boolean = false;
+
+  constructor(
+    private budget: number = 1000 / 45, // Target frame time, ms
+    private maxLevel: number = QUALITY_LEVELS.length - 1
+  ) {
+    this.level = maxLevel;
+    this.ceiling = maxLevel;
+  }
+
+  // Record one frame time (ms); returns the new level index when it changes
+  sample(frameTime: number): number | null {
+    this.samples.push(frameTime);
+    if (this.samples.length < WINDOW_SIZE) return null;
+
+    // The median shrugs off the odd garbage-collection or texture-upload spike
+    const sorted = this.samples.sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    this.samples = [];
+
+    if (median > this.budget * SLOW_FACTOR) {
+      this.goodWindows = 0;
+      if (this.justRaised) {
+        this.ceiling = this.level - 1;
+      }
+      this.justRaised = false;
+      return this.setLevel(this.level - 1);
+    }
+
+    this.justRaised = false;
+    if (median <= this.budget && ++this.goodWindows >= RAISE_AFTER && this.level < this.ceiling) {
+      this.goodWindows = 0;
+      this.justRaised = true;
+      return this.setLevel(this.level + 1);
+    }
+    return null;
+  }
+
+  // Forget the current window, e.g. after a pause in rendering
+  discardSamples(): void {
+    this.samples = [];
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  private setLevel(level: number): number | null {
+    const clamped = Math.max(0, Math.min(level, this.maxLevel));
+    if (clamped === this.level) return null;
+    this.level = clamped;
+    return clamped;
+  }
+}
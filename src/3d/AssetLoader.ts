@@ -0,0 +1,180 @@
+import * as THREE from 'three';
+
+export type AssetState = 'loading' | 'loaded' | 'failed';
+
+export interface AssetStatus {
+  label: string; // Human-readable name for the progress list, unique per asset
+  url: string; // Empty until known
+  loaded: number; // bytes received
+  total: number; // bytes expected, 0 while unknown
+  state: AssetState;
+}
+
+export interface AssetProgress {
+  assets: AssetStatus[];
+  settled: number; // Assets loaded or failed
+  fraction: number; // Overall progress 0..1, each asset weighted equally
+}
+
+export interface AssetLoaderEventMap {
+  progress: { progress: AssetProgress };
+  ready: { failed: AssetStatus[] }; // Every requested asset has loaded or failed
+}
+
+interface AssetEntry {
+  status: AssetStatus;
+  start: () => void; // (Re)runs the load
+}
+
+// Shared loading service: images are fetched through a single THREE.LoadingManager so one
+// place knows what is outstanding, with byte progress per asset. Failures are reported to
+// the caller (which puts a placeholder in) and can be retried as a batch.
+export class AssetLoader extends THREE.EventDispatcher<AssetLoaderEventMap> {
+  readonly manager: THREE.LoadingManager = new THREE.LoadingManager();
+  readonly ready: Promise<AssetStatus[]>; // Failed assets once the first round has settled
+  private assets: Map<string, AssetEntry> = new Map(); // Keyed by label
+  private fileLoader: THREE.FileLoader;
+  private disposed: boolean = false;
+
+  constructor() {
+    super();
+    // Bytes come in through a loader of its own: the shared manager counts an image as
+    // done only once it has decoded, not when the download ends
+    this.fileLoader = new THREE.FileLoader(new THREE.LoadingManager());
+    this.fileLoader.setResponseType('arraybuffer');
+
+    let resolveReady: (failed: AssetStatus[]) => void;
+    this.ready = new Promise(resolve => {
+      resolveReady = resolve;
+    });
+    this.manager.onLoad = () => {
+      if (this.disposed) return;
+      const failed = this.getFailed();
+      resolveReady(failed);
+      this.dispatchEvent({ type: 'ready', failed });
+    };
+  }
+
+  // Load an image; exactly one of the callbacks runs per attempt. The URL may still be
+  // being worked out (from the asset manifest), but the asset counts as pending from now
+  // so 'ready' can't fire before it has even started.
+  loadImage(label: string, url: string | Promise<string>, onLoad: (image: HTMLImageElement) => void, onError: () => void): void {
+    const status: AssetStatus = { label, url: '', loaded: 0, total: 0, state: 'loading' };
+    const start = () => {
+      this.begin(status);
+      Promise.resolve(url).then(resolved => {
+        status.url = resolved;
+        this.fileLoader.load(
+          resolved,
+          data => {
+            decodeImage(new Blob([data as ArrayBuffer])).then(
+              image => {
+                if (this.disposed) return;
+                onLoad(image);
+                this.end(status, 'loaded');
+              },
+              () => this.fail(status, onError)
+            );
+          },
+          event => {
+            status.loaded = event.loaded;
+            status.total = event.lengthComputable ? event.total : 0;
+            this.emitProgress();
+          },
+          () => this.fail(status, onError)
+        );
+      }, () => this.fail(status, onError)); // No URL to load from
+    };
+    this.assets.set(label, { status, start });
+    start();
+  }
+
+  // Load everything that failed again; 'ready' fires once more when they settle
+  retry(): void {
+    this.assets.forEach(entry => {
+      if (entry.status.state === 'failed') {
+        entry.start();
+      }
+    });
+  }
+
+  getProgress(): AssetProgress {
+    const assets = Array.from(this.assets.values(), entry => ({ ...entry.status }));
+    const settled = assets.filter(asset => asset.state !== 'loading').length;
+    const fractions = assets.map(asset =>
+      asset.state !== 'loading' ? 1 : asset.total > 0 ? Math.min(asset.loaded / asset.total, 1) : 0
+    );
+    const fraction = assets.length > 0 ? fractions.reduce((sum, value) => sum + value, 0) / assets.length : 1;
+    return { assets, settled, fraction };
+  }
+
+  getFailed(): AssetStatus[] {
+    return Array.from(this.assets.values(), entry => entry.status)
+      .filter(status => status.state === 'failed')
+      .map(status => ({ ...status }));
+  }
+
+  // Late callbacks from loads still in flight are ignored from here on
+  dispose(): void {
+    this.disposed = true;
+    this.manager.onLoad = () => {};
+  }
+
+  private begin(status: AssetStatus): void {
+    status.state = 'loading';
+    status.loaded = 0;
+    status.total = 0;
+    this.manager.itemStart(status.label);
+    this.emitProgress();
+  }
+
+  private end(status: AssetStatus, state: AssetState): void {
+    if (this.disposed) return;
+    status.state = state;
+    if (state === 'failed') {
+      this.manager.itemError(status.label);
+    }
+    this.emitProgress();
+    this.manager.itemEnd(status.label);
+  }
+
+  private fail(status: AssetStatus, onError: () => void): void {
+    if (this.disposed) return;
+    onError();
+    this.end(status, 'failed');
+  }
+
+  private emitProgress(): void {
+    if (this.disposed) return;
+    this.dispatchEvent({ type: 'progress', progress: this.getProgress() });
+  }
+}
+
+function decodeImage(blob: Blob): Promise<HTMLImageElement> {
+  const objectUrl = URL.createObjectURL(blob);
+  const image = new Image();
+  image.src = objectUrl;
+  return image.decode().then(
+    () => {
+      URL.revokeObjectURL(objectUrl);
+      return image;
+    },
+    error => {
+      URL.revokeObjectURL(objectUrl);
+      throw error;
+    }
+  );
+}
+
+// 1×1 image of a single colour, standing in for a texture that failed to load
+export function solidColorImage(color: THREE.ColorRepresentation): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = `#${new THREE.Color(color).getHexString()}`;
+    context.fillRect(0, 0, 1, 1);
+  }
+  return canvas;
+}
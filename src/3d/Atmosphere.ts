@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import { AtmosphereMaterial } from './materials/AtmosphereMaterial';
+import { ObjectLayer } from './layers/ObjectLayer';
+
+// Atmosphere shell around the Earth, following the WGS84 proportions.
+// Lives in the tilted earthSystem group; being rotationally symmetric it needn't spin.
+export class Atmosphere extends ObjectLayer {
+  private material: AtmosphereMaterial;
+  private baseIntensity: number;
+
+  constructor(
+    equatorialRadius: number, // scene units
+    polarRadius: number, // scene units
+    thickness: number // scene units above the surface
+  ) {
+    super('atmosphere', 'Atmosphere', 'Earth', 'system');
+    this.material = new AtmosphereMaterial();
+    this.baseIntensity = this.material.uniforms.intensity.value;
+    const mesh = new THREE.Mesh(new THREE.SphereGeometry(1, 96, 96), this.material);
+    mesh.name = 'atmosphere';
+    mesh.scale.set(equatorialRadius + thickness, polarRadius + thickness, equatorialRadius + thickness);
+    this.root.add(mesh); // Transparent, so drawn after the opaque globe whatever its order
+  }
+
+  setSunDirection(direction: THREE.Vector3): void {
+    this.material.setSunDirection(direction);
+  }
+
+  // The glow is additive: fade it by dimming rather than through the alpha channel
+  protected applyOpacity(opacity: number): void {
+    this.material.uniforms.intensity.value = this.baseIntensity * opacity;
+  }
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+// Interpolate a point around `center`: direction by slerp, distance linearly.
+// Falls back to a straight lerp when either end sits on the centre itself.
+function arcInterpolate(
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  center: THREE.Vector3,
+  t: number,
+  lift: number,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  const a = from.clone().sub(center);
+  const b = to.clone().sub(center);
+  const lengthA = a.length();
+  const lengthB = b.length();
+  if (lengthA < 1e-6 || lengthB < 1e-6) {
+    return target.lerpVectors(from, to, t);
+  }
+
+  const rotation = new THREE.Quaternion().setFromUnitVectors(a.clone().divideScalar(lengthA), b.clone().divideScalar(lengthB));
+  const partial = new THREE.Quaternion().slerp(rotation, t);
+  const direction = a.divideScalar(lengthA).applyQuaternion(partial);
+  const distance = THREE.MathUtils.lerp(lengthA, lengthB, t) + lift;
+  return target.copy(center).addScaledVector(direction, distance);
+}
+
+// A timed camera move that swings around the globe along great circles rather than
+// cutting through it, rising mid-flight in proportion to the distance covered.
+export class CameraFlight {
+  private elapsed: number = 0;
+  private readonly arcLift: number;
+
+  constructor(
+    private from: CameraPose,
+    private to: CameraPose,
+    private center: THREE.Vector3,
+    private duration: number, // seconds
+    globeRadius: number, // scene units, scales the mid-flight lift
+    private ease: (t: number) => number = easeInOutCubic
+  ) {
+    const angle = from.position.clone().sub(center).angleTo(to.position.clone().sub(center));
+    this.arcLift = (angle / Math.PI) * globeRadius * 1.5;
+  }
+
+  // Advance by `delta` seconds and return the pose for that moment
+  step(delta: number): CameraPose {
+    this.elapsed = Math.min(this.elapsed + delta, this.duration);
+    const t = this.progress();
+    const lift = Math.sin(Math.PI * t) * this.arcLift;
+
+    return {
+      position: arcInterpolate(this.from.position, this.to.position, this.center, t, lift, new THREE.Vector3()),
+      target: arcInterpolate(this.from.target, this.to.target, this.center, t, 0, new THREE.Vector3()),
+    };
+  }
+
+  // Eased fraction of the way covered, 0..1
+  progress(): number {
+    return this.duration > 0 ? this.ease(this.elapsed / this.duration) : 1;
+  }
+
+  isFinished(): boolean {
+    return this.elapsed >= this.duration;
+  }
+}
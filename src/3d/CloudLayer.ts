@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+import { ObjectLayer } from './layers/ObjectLayer';
+
+// Semi-transparent cloud sphere just above the surface. It is a child of earthMesh so
+// it turns with the Earth, and drifts slowly eastwards relative to it in simulated time.
+export class CloudLayer extends ObjectLayer {
+  private mesh: THREE.Mesh;
+
+  constructor(
+    cloudMap: THREE.Texture, // Greyscale cloud cover, used as the alpha channel
+    altitudeFactor: number = 1.0015, // Radius relative to the ellipsoid (~10 km up)
+    private driftRate: number = 3e-6 // radians per simulated second (~20 m/s at the equator)
+  ) {
+    super('clouds', 'Clouds', 'Earth', 'body');
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      alphaMap: cloudMap,
+      transparent: true,
+      depthWrite: false,
+      roughness: 1,
+      metalness: 0,
+    });
+    this.mesh = new THREE.Mesh(new THREE.SphereGeometry(1, 128, 128), material);
+    this.mesh.name = 'clouds';
+    // earthMesh already carries the ellipsoid scale, so a uniform factor keeps the proportions
+    this.mesh.scale.setScalar(altitudeFactor);
+    this.root.add(this.mesh);
+  }
+
+  // The drift angle follows from the simulation time, so a given moment always looks the same
+  update(time: Date): void {
+    this.mesh.rotation.y = ((time.getTime() / 1000) * this.driftRate) % (Math.PI * 2);
+  }
+
+  dispose(): void {
+    (this.mesh.material as THREE.MeshStandardMaterial).alphaMap?.dispose();
+    super.dispose();
+  }
+}
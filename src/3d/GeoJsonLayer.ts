@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { geodeticToEcef } from './geo/geodetic';
+import {
+  densifyLine,
+  flattenGeometry,
+  GeoJsonProperties,
+  Position,
+  toFeatures,
+  triangulatePolygon,
+} from './geo/geojson';
+import { ObjectLayer } from './layers/ObjectLayer';
+
+export interface GeoJsonStyle {
+  stroke?: THREE.ColorRepresentation;
+  strokeOpacity?: number;
+  fill?: THREE.ColorRepresentation | null; // null disables polygon fill
+  fillOpacity?: number;
+  pointColor?: THREE.ColorRepresentation;
+}
+
+export type GeoJsonStyleFunction = (properties: GeoJsonProperties) => GeoJsonStyle;
+
+export interface GeoJsonLayerOptions {
+  style?: GeoJsonStyleFunction;
+  maxSegmentDegrees?: number; // Densification step along the surface
+}
+
+// Default style reads the simplestyle-spec properties used by most GeoJSON tools
+export const simpleStyle: GeoJsonStyleFunction = (properties) => {
+  const read = <T>(key: string, fallback: T): T => (properties?.[key] as T | undefined) ?? fallback;
+  return {
+    stroke: read<string>('stroke', '#ffffff'),
+    strokeOpacity: read<number>('stroke-opacity', 0.9),
+    fill: read<string | null>('fill', '#FF9500'),
+    fillOpacity: read<number>('fill-opacity', 0.25),
+    pointColor: read<string>('marker-color', '#ffffff'),
+  };
+};
+
+// Lines and fills are lifted slightly off the surface to stay above the Earth mesh
+const STROKE_ALTITUDE = 5000; // meters
+const FILL_ALTITUDE = 2000; // meters
+
+// Vertex buffers batched per opacity, since opacity lives on the material
+interface Batch {
+  positions: number[];
+  colors: number[];
+}
+
+// A GeoJSON dataset draped on the ellipsoid: strokes, polygon fills and points,
+// merged into a few draw calls with per-vertex colours from the style function.
+// Registered as layer `geojson:<source id>` under the GeoJSON heading.
+export class GeoJsonLayer extends ObjectLayer {
+  readonly removable = true;
+  private featureCount: number = 0;
+  private scratch: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(
+    readonly sourceId: string, // Caller-chosen id, e.g. the file name
+    private scaleFactor: number, // Meters per scene unit
+    readonly data: unknown, // As given, so a project can save it
+    options: GeoJsonLayerOptions = {}
+  ) {
+    super(geoJsonLayerId(sourceId), sourceId, 'GeoJSON', 'earthFixed');
+    const style = options.style ?? simpleStyle;
+    const maxStep = options.maxSegmentDegrees ?? 1;
+
+    const strokes = new Map<number, Batch>();
+    const fills = new Map<number, Batch>();
+    const points: Batch = { positions: [], colors: [] };
+    const batchFor = (batches: Map<number, Batch>, opacity: number) => {
+      const key = Math.round(THREE.MathUtils.clamp(opacity, 0, 1) * 100) / 100;
+      if (!batches.has(key)) batches.set(key, { positions: [], colors: [] });
+      return batches.get(key)!;
+    };
+
+    const features = toFeatures(data);
+    features.forEach(feature => {
+      const geometry = flattenGeometry(feature.geometry);
+      const featureStyle = { ...simpleStyle(null), ...style(feature.properties) };
+      const strokeColor = new THREE.Color(featureStyle.stroke);
+      const strokeBatch = batchFor(strokes, featureStyle.strokeOpacity ?? 1);
+
+      // Polygon outlines are drawn as lines too
+      const lines = geometry.lines.concat(...geometry.polygons);
+      lines.forEach(line => {
+        const dense = densifyLine(line, maxStep);
+        for (let i = 1; i < dense.length; i++) {
+          this.pushVertex(strokeBatch, dense[i - 1], STROKE_ALTITUDE, strokeColor);
+          this.pushVertex(strokeBatch, dense[i], STROKE_ALTITUDE, strokeColor);
+        }
+      });
+
+      if (featureStyle.fill !== null && featureStyle.fill !== undefined) {
+        const fillColor = new THREE.Color(featureStyle.fill);
+        const fillBatch = batchFor(fills, featureStyle.fillOpacity ?? 1);
+        geometry.polygons.forEach(rings => {
+          triangulatePolygon(rings, maxStep).forEach(position => {
+            this.pushVertex(fillBatch, position, FILL_ALTITUDE, fillColor);
+          });
+        });
+      }
+
+      const pointColor = new THREE.Color(featureStyle.pointColor);
+      geometry.points.forEach(position => this.pushVertex(points, position, STROKE_ALTITUDE, pointColor));
+    });
+    this.featureCount = features.length;
+
+    fills.forEach((batch, opacity) => {
+      const material = new THREE.MeshBasicMaterial({
+        vertexColors: true,
+        transparent: opacity < 1,
+        opacity,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+        polygonOffset: true, // Keep the fill from z-fighting with the Earth
+        polygonOffsetFactor: -1,
+        polygonOffsetUnits: -1,
+      });
+      this.root.add(new THREE.Mesh(this.createGeometry(batch), material));
+    });
+
+    strokes.forEach((batch, opacity) => {
+      const material = new THREE.LineBasicMaterial({ vertexColors: true, transparent: opacity < 1, opacity });
+      this.root.add(new THREE.LineSegments(this.createGeometry(batch), material));
+    });
+
+    if (points.positions.length > 0) {
+      const material = new THREE.PointsMaterial({ vertexColors: true, size: 4, sizeAttenuation: false });
+      this.root.add(new THREE.Points(this.createGeometry(points), material));
+    }
+  }
+
+  getFeatureCount(): number {
+    return this.featureCount;
+  }
+
+  private pushVertex(batch: Batch, position: Position, altitude: number, color: THREE.Color): void {
+    const vertex = geodeticToEcef(position[1], position[0], altitude, this.scratch).divideScalar(this.scaleFactor);
+    batch.positions.push(vertex.x, vertex.y, vertex.z);
+    batch.colors.push(color.r, color.g, color.b);
+  }
+
+  private createGeometry(batch: Batch): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(batch.positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(batch.colors, 3));
+    return geometry;
+  }
+}
+
+export function geoJsonLayerId(sourceId: string): string {
+  return `geojson:${sourceId}`;
+}
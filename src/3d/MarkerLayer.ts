@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+import { CSS2DObject } from 'three/addons/renderers/CSS2DRenderer.js';
+import { geodeticToEcef } from './geo/geodetic';
+
+export interface MarkerOptions {
+  id: string;
+  lat: number; // degrees
+  lon: number; // degrees
+  label?: string;
+  color?: string | number; // Any THREE.ColorRepresentation, defaults to orange
+  icon?: string; // Image URL, or a short text/emoji glyph
+  altitude?: number; // meters above the ellipsoid
+}
+
+interface Marker {
+  options: MarkerOptions;
+  mesh: THREE.Mesh;
+  label: CSS2DObject;
+}
+
+const DEFAULT_MARKER_COLOR = 0xff9500;
+
+// Named placemarks pinned to the Earth surface with HTML labels.
+// Markers live in the Earth-fixed frame so they rotate with the globe; labels are
+// hidden once their point goes over the horizon as seen from the camera.
+export class MarkerLayer {
+  private group: THREE.Group = new THREE.Group();
+  private markers: Map<string, Marker> = new Map();
+  private geometry: THREE.SphereGeometry;
+
+  constructor(
+    earthFixedFrame: THREE.Object3D,
+    private scaleFactor: number, // Meters per scene unit
+    private onSelect: (marker: MarkerOptions) => void,
+    markerRadius: number = 0.4 // Scene units
+  ) {
+    this.geometry = new THREE.SphereGeometry(markerRadius, 16, 16);
+    this.group.name = 'markers';
+    earthFixedFrame.add(this.group);
+  }
+
+  add(options: MarkerOptions): void {
+    if (this.markers.has(options.id)) {
+      this.remove(options.id); // Re-adding an id replaces the marker
+    }
+
+    const color = new THREE.Color(options.color ?? DEFAULT_MARKER_COLOR);
+    const position = geodeticToEcef(options.lat, options.lon, options.altitude ?? 0).divideScalar(this.scaleFactor);
+
+    const mesh = new THREE.Mesh(this.geometry, new THREE.MeshBasicMaterial({ color }));
+    mesh.position.copy(position);
+    mesh.userData.markerId = options.id;
+    this.group.add(mesh);
+
+    const label = new CSS2DObject(this.createLabelElement(options, color));
+    label.center.set(0, 1); // Anchor the label's bottom-left corner on the point
+    mesh.add(label);
+
+    this.markers.set(options.id, { options, mesh, label });
+  }
+
+  addAll(markers: MarkerOptions[]): void {
+    markers.forEach(marker => this.add(marker));
+  }
+
+  // Bulk load a JSON array of MarkerOptions
+  async load(url: string): Promise<MarkerOptions[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load markers from ${url}: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error(`Markers file ${url} must contain a JSON array`);
+    }
+    const markers = data.filter((item): item is MarkerOptions =>
+      typeof item?.id === 'string' && typeof item?.lat === 'number' && typeof item?.lon === 'number'
+    );
+    this.addAll(markers);
+    return markers;
+  }
+
+  remove(id: string): boolean {
+    const marker = this.markers.get(id);
+    if (!marker) return false;
+
+    marker.mesh.remove(marker.label); // CSS2DObject detaches its element on removal
+    this.group.remove(marker.mesh);
+    (marker.mesh.material as THREE.Material).dispose();
+    this.markers.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    Array.from(this.markers.keys()).forEach(id => this.remove(id));
+  }
+
+  get(id: string): MarkerOptions | undefined {
+    return this.markers.get(id)?.options;
+  }
+
+  list(): MarkerOptions[] {
+    return Array.from(this.markers.values()).map(marker => marker.options);
+  }
+
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  // Hide labels whose point is on the far side of the globe
+  update(camera: THREE.Camera): void {
+    const center = new THREE.Vector3();
+    const point = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const toCamera = new THREE.Vector3();
+
+    this.group.getWorldPosition(center);
+    this.markers.forEach(marker => {
+      marker.mesh.getWorldPosition(point);
+      normal.subVectors(point, center).normalize();
+      toCamera.subVectors(camera.position, point);
+      marker.label.visible = toCamera.dot(normal) > 0;
+    });
+  }
+
+  // Id of the closest marker hit by the raycaster, if any. Markers further along the ray
+  // than where it meets `globe` are behind the Earth and can't be picked.
+  pick(raycaster: THREE.Raycaster, globe?: THREE.Object3D): string | null {
+    if (!this.group.visible) return null;
+    const hits = raycaster.intersectObjects(this.group.children, false);
+    const surface = globe ? raycaster.intersectObject(globe, false)[0]?.distance ?? Infinity : Infinity;
+    const hit = hits.find(candidate => candidate.distance <= surface);
+    return hit ? (hit.object.userData.markerId as string) : null;
+  }
+
+  dispose(): void {
+    this.clear();
+    this.geometry.dispose();
+    this.group.removeFromParent();
+  }
+
+  private createLabelElement(options: MarkerOptions, color: THREE.Color): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'marker-label';
+    element.style.borderColor = `#${color.getHexString()}`;
+
+    if (options.icon) {
+      // Anything that looks like a path or URL is an image, otherwise a glyph
+      if (/[./]/.test(options.icon)) {
+        const img = document.createElement('img');
+        img.src = options.icon;
+        img.alt = '';
+        img.className = 'marker-icon';
+        element.appendChild(img);
+      } else {
+        const glyph = document.createElement('span');
+        glyph.className = 'marker-icon';
+        glyph.textContent = options.icon;
+        element.appendChild(glyph);
+      }
+    }
+
+    const text = document.createElement('span');
+    text.textContent = options.label ?? options.id;
+    element.appendChild(text);
+
+    element.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.onSelect(options);
+    });
+
+    return element;
+  }
+}
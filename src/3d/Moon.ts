@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import { eclipseShadowChunk } from './materials/eclipseShadow';
+
+// Colour of sunlight refracted into the umbra by the Earth's atmosphere, as a share of
+// full sunlight: what turns a totally eclipsed Moon copper red instead of black
+const UMBRA_TINT = new THREE.Color(0.12, 0.035, 0.012);
+
+// The Moon at its real size and distance. It is lit by the scene's Sun light, so its
+// phases come for free; the Earth's shadow during a lunar eclipse is added to the
+// standard material in the shader since shadow maps can't span the Earth–Moon distance.
+export class Moon {
+  private mesh: THREE.Mesh;
+  private material: THREE.MeshStandardMaterial;
+  private uniforms = {
+    sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+    occluderPosition: { value: new THREE.Vector3() },
+    occluderRadius: { value: 0 },
+    umbraTint: { value: UMBRA_TINT },
+  };
+
+  constructor(
+    parent: THREE.Object3D,
+    radius: number, // Scene units
+    map: THREE.Texture
+  ) {
+    this.material = new THREE.MeshStandardMaterial({ map, roughness: 1, metalness: 0 });
+    this.material.onBeforeCompile = (shader) => {
+      Object.assign(shader.uniforms, this.uniforms);
+
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', '#include <common>\nvarying vec3 vMoonWorldPosition;')
+        .replace(
+          '#include <project_vertex>',
+          '#include <project_vertex>\nvMoonWorldPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;'
+        );
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          uniform vec3 sunDirection;
+          uniform vec3 occluderPosition;
+          uniform float occluderRadius;
+          uniform vec3 umbraTint;
+          varying vec3 vMoonWorldPosition;
+          ${eclipseShadowChunk}`
+        )
+        .replace(
+          '#include <lights_fragment_end>',
+          `#include <lights_fragment_end>
+          float sunlight = eclipseLight(vMoonWorldPosition, sunDirection, occluderPosition, occluderRadius);
+          reflectedLight.indirectDiffuse += reflectedLight.directDiffuse * umbraTint * (1.0 - sunlight);
+          reflectedLight.directDiffuse *= sunlight;
+          reflectedLight.directSpecular *= sunlight;`
+        );
+    };
+
+    this.mesh = new THREE.Mesh(new THREE.SphereGeometry(radius, 64, 64), this.material);
+    this.mesh.name = 'moon';
+    parent.add(this.mesh);
+  }
+
+  // Place the Moon (world space) and turn its near side towards the Earth. Texture
+  // longitude 0 is the sphere's +X axis; lookAt() aims +Z, so a quarter turn follows.
+  setPosition(position: THREE.Vector3, earthCenter: THREE.Vector3): void {
+    this.mesh.position.copy(position);
+    this.mesh.lookAt(earthCenter);
+    this.mesh.rotateY(-Math.PI / 2);
+  }
+
+  getPosition(target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(this.mesh.position);
+  }
+
+  getRadius(): number {
+    return (this.mesh.geometry as THREE.SphereGeometry).parameters.radius;
+  }
+
+  // World-space direction towards the Sun, used for the eclipse test
+  setSunDirection(direction: THREE.Vector3): void {
+    this.uniforms.sunDirection.value.copy(direction).normalize();
+  }
+
+  // The Earth as the occluder for lunar eclipses (world space); radius 0 disables
+  setEarthShadow(earthCenter: THREE.Vector3, earthRadius: number): void {
+    this.uniforms.occluderPosition.value.copy(earthCenter);
+    this.uniforms.occluderRadius.value = earthRadius;
+  }
+
+  isVisible(): boolean {
+    return this.mesh.visible;
+  }
+
+  setVisible(visible: boolean): void {
+    this.mesh.visible = visible;
+  }
+
+  dispose(): void {
+    this.mesh.geometry.dispose();
+    this.material.map?.dispose();
+    this.material.dispose();
+    this.mesh.removeFromParent();
+  }
+}
@@ -0,0 +1,323 @@
+import * as THREE from 'three';
+import { parseTle, TleRecord } from './astro/tle';
+import { createSgp4Model, propagateSgp4, propagateSgp4Minutes, Sgp4Model, temeToEcef } from './astro/sgp4';
+import { ecefToGeodetic, geodeticToEcef } from './geo/geodetic';
+
+export interface SatelliteState {
+  id: string; // NORAD catalog number
+  name: string;
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // meters above the ellipsoid
+  speed: number; // km/s, inertial
+}
+
+export interface SatelliteLoadResult {
+  loaded: number;
+  skipped: string[]; // One message per element set the propagator can't handle
+}
+
+interface Satellite {
+  model: Sgp4Model;
+  index: number; // Instance index, also the slice of the path buffers
+  pathCenterMs: number | null; // Simulation time the drawn paths were computed around
+}
+
+const PATH_SAMPLES = 120; // Points per orbit path and per ground track
+const TRACK_ALTITUDE = 5000; // meters, keeps ground tracks above the Earth mesh
+const SATELLITE_COLOR = new THREE.Color(0x4cd6ff);
+const SELECTED_COLOR = new THREE.Color(0xffd60a);
+const ORBIT_COLOR = new THREE.Color(0x2c6e8a);
+const TRACK_COLOR = new THREE.Color(0x8a6a2c);
+
+// Satellites propagated with SGP4 from Two-Line Element sets.
+//
+// SGP4 works in the TEME frame: inertial, Z along the Earth's axis. Satellites and their
+// orbit paths are drawn in a group under the tilted (but not rotating) earthSystem, turned
+// so TEME lines up with the frame earthMesh spins in; ground tracks are Earth-fixed and
+// live in the ECEF frame. All satellites share one instanced mesh and two line buffers.
+export class SatelliteLayer {
+  private inertialFrame: THREE.Group = new THREE.Group();
+  private satellites: Map<string, Satellite> = new Map();
+  private points: THREE.InstancedMesh | null = null;
+  private orbits: THREE.LineSegments | null = null;
+  private tracks: THREE.LineSegments | null = null;
+  private pointGeometry: THREE.SphereGeometry;
+  private selectedId: string | null = null;
+  private orbitsVisible: boolean = true;
+  private tracksVisible: boolean = false;
+  private matrix: THREE.Matrix4 = new THREE.Matrix4();
+  private scratch: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(
+    earthSystem: THREE.Object3D, // Tilted equatorial frame, not rotating with the Earth
+    private earthFixedFrame: THREE.Object3D,
+    private scaleFactor: number, // Meters per scene unit
+    pointRadius: number = 0.6 // Scene units
+  ) {
+    // earthMesh turns by GMST + 90° within earthSystem while TEME is ECEF turned by GMST,
+    // so TEME sits a quarter turn behind earthSystem's axes
+    this.inertialFrame.rotation.y = Math.PI / 2;
+    this.inertialFrame.name = 'satellites';
+    earthSystem.add(this.inertialFrame);
+    this.pointGeometry = new THREE.SphereGeometry(pointRadius, 8, 8);
+  }
+
+  // Replace the current satellites with the element sets in a TLE file's text
+  setElements(records: TleRecord[]): SatelliteLoadResult {
+    this.clear();
+
+    const skipped: string[] = [];
+    records.forEach(record => {
+      try {
+        const model = createSgp4Model(record);
+        // Re-using a catalog number replaces the earlier element set
+        const existing = this.satellites.get(record.catalogNumber);
+        this.satellites.set(record.catalogNumber, { model, index: existing?.index ?? this.satellites.size, pathCenterMs: null });
+      } catch (error) {
+        skipped.push((error as Error).message);
+      }
+    });
+
+    this.createObjects();
+    return { loaded: this.satellites.size, skipped };
+  }
+
+  // Fetch and load a local TLE file (two- or three-line format)
+  async load(url: string): Promise<SatelliteLoadResult> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load satellites from ${url}: ${response.status} ${response.statusText}`);
+    }
+    return this.setElements(parseTle(await response.text()));
+  }
+
+  clear(): void {
+    [this.points, this.orbits, this.tracks].forEach(object => {
+      if (!object) return;
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+      object.removeFromParent();
+    });
+    this.points = null;
+    this.orbits = null;
+    this.tracks = null;
+    this.satellites.clear();
+    this.selectedId = null;
+  }
+
+  // Move the satellites to the given simulation time, refreshing paths that have fallen behind
+  update(date: Date): void {
+    if (!this.points) return;
+    const timeMs = date.getTime();
+
+    this.satellites.forEach(satellite => {
+      const state = propagateSgp4(satellite.model, date);
+      if (state) {
+        this.temeToScene(state.position, this.scratch);
+        this.matrix.makeTranslation(this.scratch.x, this.scratch.y, this.scratch.z);
+      } else {
+        this.matrix.makeScale(0, 0, 0); // Decayed: hide the instance
+      }
+      this.points!.setMatrixAt(satellite.index, this.matrix);
+
+      // Paths span a window around the current time; recompute once it has drifted an eighth of an orbit
+      const periodMs = satellite.model.period * 60000;
+      const needsPath = (this.orbitsVisible || this.tracksVisible)
+        && (satellite.pathCenterMs === null || Math.abs(timeMs - satellite.pathCenterMs) > periodMs / 8);
+      if (needsPath) {
+        this.updatePaths(satellite, timeMs);
+      }
+    });
+    this.points.instanceMatrix.needsUpdate = true;
+    this.points.computeBoundingSphere(); // Keeps raycasting and culling in step with the moving instances
+  }
+
+  // Geodetic position and speed of a satellite at the given time
+  getState(id: string, date: Date): SatelliteState | null {
+    const satellite = this.satellites.get(id);
+    const state = satellite ? propagateSgp4(satellite.model, date) : null;
+    if (!satellite || !state) return null;
+
+    const ecef = temeToEcef(state.position, date);
+    const geodetic = ecefToGeodetic(this.scratch.set(ecef.x, ecef.z, -ecef.y).multiplyScalar(1000));
+    const { x, y, z } = state.velocity;
+    return {
+      id,
+      name: satellite.model.record.name,
+      latitude: geodetic.latitude,
+      longitude: geodetic.longitude,
+      altitude: geodetic.altitude,
+      speed: Math.sqrt(x * x + y * y + z * z),
+    };
+  }
+
+  list(): TleRecord[] {
+    return Array.from(this.satellites.values()).map(satellite => satellite.model.record);
+  }
+
+  // Id of the satellite closest to the ray within `maxAngle` radians, with its distance
+  // along the ray. Satellites are a few pixels wide, so this is more forgiving than a mesh hit.
+  pick(raycaster: THREE.Raycaster, maxAngle: number = 0.01): { id: string; distance: number } | null {
+    if (!this.points || !this.inertialFrame.visible) return null;
+
+    let best: { id: string; distance: number } | null = null;
+    let bestAngle = maxAngle;
+    for (const [id, satellite] of this.satellites) {
+      this.points.getMatrixAt(satellite.index, this.matrix);
+      if (this.matrix.elements[0] === 0) continue; // Hidden (decayed)
+      const position = this.inertialFrame.localToWorld(this.scratch.setFromMatrixPosition(this.matrix));
+
+      const distance = position.clone().sub(raycaster.ray.origin).dot(raycaster.ray.direction);
+      if (distance <= 0) continue;
+      const angle = Math.atan2(raycaster.ray.distanceToPoint(position), distance);
+      if (angle < bestAngle) {
+        bestAngle = angle;
+        best = { id, distance };
+      }
+    }
+    return best;
+  }
+
+  // Highlight one satellite and its paths; null clears the selection
+  setSelected(id: string | null): void {
+    this.selectedId = id !== null && this.satellites.has(id) ? id : null;
+    this.satellites.forEach((satellite, satelliteId) => {
+      const selected = satelliteId === this.selectedId;
+      this.points?.setColorAt(satellite.index, selected ? SELECTED_COLOR : SATELLITE_COLOR);
+      this.fillPathColor(this.orbits, satellite.index, selected ? SELECTED_COLOR : ORBIT_COLOR);
+      this.fillPathColor(this.tracks, satellite.index, selected ? SELECTED_COLOR : TRACK_COLOR);
+    });
+    if (this.points?.instanceColor) {
+      this.points.instanceColor.needsUpdate = true;
+    }
+  }
+
+  getSelected(): string | null {
+    return this.selectedId;
+  }
+
+  setVisible(visible: boolean): void {
+    this.inertialFrame.visible = visible;
+    if (this.tracks) {
+      this.tracks.visible = visible && this.tracksVisible;
+    }
+  }
+
+  setOrbitsVisible(visible: boolean): void {
+    this.orbitsVisible = visible;
+    if (this.orbits) {
+      this.orbits.visible = visible;
+    }
+  }
+
+  setGroundTracksVisible(visible: boolean): void {
+    this.tracksVisible = visible;
+    if (this.tracks) {
+      this.tracks.visible = visible && this.inertialFrame.visible;
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    this.pointGeometry.dispose();
+    this.inertialFrame.removeFromParent();
+  }
+
+  private createObjects(): void {
+    const count = this.satellites.size;
+    if (count === 0) return;
+
+    this.points = new THREE.InstancedMesh(this.pointGeometry, new THREE.MeshBasicMaterial(), count);
+    this.points.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    for (let i = 0; i < count; i++) {
+      this.points.setColorAt(i, SATELLITE_COLOR);
+    }
+    this.inertialFrame.add(this.points);
+
+    this.orbits = this.createPathObject(count, ORBIT_COLOR);
+    this.orbits.visible = this.orbitsVisible;
+    this.inertialFrame.add(this.orbits);
+
+    this.tracks = this.createPathObject(count, TRACK_COLOR);
+    this.tracks.visible = this.tracksVisible && this.inertialFrame.visible;
+    this.earthFixedFrame.add(this.tracks);
+  }
+
+  // One buffer holding PATH_SAMPLES points per satellite, indexed into line segments
+  private createPathObject(count: number, color: THREE.Color): THREE.LineSegments {
+    const positions = new Float32Array(count * PATH_SAMPLES * 3);
+    const colors = new Float32Array(count * PATH_SAMPLES * 3);
+    const indices: number[] = [];
+    for (let satellite = 0; satellite < count; satellite++) {
+      const start = satellite * PATH_SAMPLES;
+      for (let i = 0; i < PATH_SAMPLES - 1; i++) {
+        indices.push(start + i, start + i + 1);
+      }
+      for (let i = 0; i < PATH_SAMPLES; i++) {
+        color.toArray(colors, (start + i) * 3);
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geometry.setIndex(indices);
+
+    const material = new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.7 });
+    const lines = new THREE.LineSegments(geometry, material);
+    lines.frustumCulled = false; // Bounds change as the paths are refreshed
+    return lines;
+  }
+
+  // Orbit path over one period centred on the current time, ground track from half an
+  // orbit back to one ahead
+  private updatePaths(satellite: Satellite, timeMs: number): void {
+    satellite.pathCenterMs = timeMs;
+    const period = satellite.model.period;
+    const minutesNow = (timeMs - satellite.model.epochMs) / 60000;
+
+    const orbitPositions = this.orbits!.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const trackPositions = this.tracks!.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const start = satellite.index * PATH_SAMPLES;
+    const point = new THREE.Vector3();
+
+    for (let i = 0; i < PATH_SAMPLES; i++) {
+      const fraction = i / (PATH_SAMPLES - 1);
+      const orbitState = propagateSgp4Minutes(satellite.model, minutesNow + (fraction - 0.5) * period);
+      if (orbitState) {
+        this.temeToScene(orbitState.position, point);
+      } else if (i > 0) {
+        point.fromBufferAttribute(orbitPositions, start + i - 1); // Collapse the rest of a decayed path
+      }
+      orbitPositions.setXYZ(start + i, point.x, point.y, point.z);
+
+      const trackMinutes = minutesNow + (fraction * 1.5 - 0.5) * period;
+      const trackState = propagateSgp4Minutes(satellite.model, trackMinutes);
+      if (trackState) {
+        const ecef = temeToEcef(trackState.position, new Date(satellite.model.epochMs + trackMinutes * 60000));
+        const { latitude, longitude } = ecefToGeodetic(point.set(ecef.x, ecef.z, -ecef.y).multiplyScalar(1000));
+        geodeticToEcef(latitude, longitude, TRACK_ALTITUDE, point).divideScalar(this.scaleFactor);
+      } else if (i > 0) {
+        point.fromBufferAttribute(trackPositions, start + i - 1);
+      }
+      trackPositions.setXYZ(start + i, point.x, point.y, point.z);
+    }
+    orbitPositions.needsUpdate = true;
+    trackPositions.needsUpdate = true;
+  }
+
+  private fillPathColor(lines: THREE.LineSegments | null, index: number, color: THREE.Color): void {
+    if (!lines) return;
+    const colors = lines.geometry.getAttribute('color') as THREE.BufferAttribute;
+    for (let i = index * PATH_SAMPLES; i < (index + 1) * PATH_SAMPLES; i++) {
+      colors.setXYZ(i, color.r, color.g, color.b);
+    }
+    colors.needsUpdate = true;
+  }
+
+  // TEME km (Z up) to the Y-up scene axes of the inertial frame, in scene units
+  private temeToScene(position: { x: number; y: number; z: number }, target: THREE.Vector3): THREE.Vector3 {
+    return target.set(position.x, position.z, -position.y).multiplyScalar(1000 / this.scaleFactor);
+  }
+}
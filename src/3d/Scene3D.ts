@@ -1,34 +1,182 @@
 import * as THREE from 'three';
 import CameraControls from 'camera-controls';
 import Stats from 'stats.js'; // Import Stats.js
+import { CSS2DRenderer } from 'three/addons/renderers/CSS2DRenderer.js';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { ASTRONOMICAL_UNIT, computeSolarPosition, SolarPosition, SUN_RADIUS } from './astro/sun';
+import { computeLunarPosition, EclipseEvent, findNextEclipse, findNextLunarPhase, LunarPosition } from './astro/moon';
+import { SimulationClock } from './SimulationClock';
+import { ecefToGeodetic, GeodeticPosition, geodeticToEcef, WGS84 } from './geo/geodetic';
+import { MIN_GRATICULE_STEP, NamedLineName, resolveSceneOptions, SceneOptions, SceneOptionsInput } from './sceneOptions';
+import { MarkerLayer, MarkerOptions } from './MarkerLayer';
+import { GeoJsonLayer, GeoJsonLayerOptions, geoJsonLayerId } from './GeoJsonLayer';
+import { CameraFlight } from './CameraFlight';
+import { EarthMaterial } from './materials/EarthMaterial';
+import { Atmosphere } from './Atmosphere';
+import { CloudLayer } from './CloudLayer';
+import { Moon } from './Moon';
+import { SatelliteLayer, SatelliteLoadResult, SatelliteState } from './SatelliteLayer';
+import { parseTle } from './astro/tle';
+import { TiledGlobe, TiledGlobeOptions } from './TiledGlobe';
+import { AssetManifest, loadAssetManifest, pickLevel, TextureName, tiledGlobeOptionsFromManifest } from './assets';
+import { AssetLoader, AssetProgress, AssetStatus, solidColorImage } from './AssetLoader';
+import { LayerFrame } from './layers/Layer';
+import { LayerRegistry } from './layers/LayerRegistry';
+import { PoleLayer } from './layers/PoleLayer';
+import { EquatorLayer } from './layers/EquatorLayer';
+import { GraticuleLayer } from './layers/GraticuleLayer';
+import { GraticuleLabelsLayer } from './layers/GraticuleLabelsLayer';
+import { NamedLineLayer } from './layers/NamedLineLayer';
+import { MeasureKind, Measurement, MeasurementLayer } from './layers/MeasurementLayer';
+import { GraticuleStep, LatLon } from './layers/graticule';
+import { parseProject, PROJECT_VERSION, SceneProject } from './project';
+import { canvasToBlob, CaptureOptions, renderTiled, resolveCaptureSize } from './capture';
+import { RecordingOptions, SceneRecorder } from './SceneRecorder';
+import { DEFAULT_KEYFRAME_DURATION, DEFAULT_KEYFRAME_HOLD, Tour, TourKeyframe, TourState } from './tour';
+import { TourPlayer } from './TourPlayer';
+import { SolarScaleTransition } from './SolarScaleTransition';
+import { AdaptiveQuality, QUALITY_LEVELS, QualityLevel } from './AdaptiveQuality';
 
-export class Scene3D {
+export type EarthShading = 'daynight' | 'standard';
+
+export type MeasureMode = MeasureKind | 'off';
+
+// Compressed Sun distance from the scene options, or 1 AU and the real Sun radius
+export type SolarScale = 'presentation' | 'true';
+
+// 'onDemand' draws a frame only when something on screen changes; 'continuous' draws every frame
+export type RenderMode = 'onDemand' | 'continuous';
+
+export interface FlyToOptions {
+  lat: number; // degrees
+  lon: number; // degrees
+  altitude?: number; // meters above the ellipsoid, default 2000 km
+  heading?: number; // degrees clockwise from north the camera faces (only visible with tilt)
+  tilt?: number; // degrees away from looking straight down, default 0
+  duration?: number; // seconds, default 2
+}
+
+// A view the number keys jump to, 1 for the first
+export interface ViewPreset extends FlyToOptions {
+  name: string;
+}
+
+const MEASUREMENT_COLOR = 0xffd700; // Paths and vertices of geodesic measurements
+
+const SOLAR_SCALE_DURATION = 3; // seconds to move the Sun between layouts
+
+// On demand, a clock that only turns the globe slowly is drawn at a reduced rate; from
+// FAST_CLOCK_RATE up it moves more than 0.1° between such frames, so every frame is drawn
+const CLOCK_FRAME_INTERVAL = 1 / 15; // seconds
+const FAST_CLOCK_RATE = 360; // Simulated seconds per real second
+
+const KEYBOARD_ORBIT_STEP = THREE.MathUtils.degToRad(5); // Per arrow key press
+const KEYBOARD_ZOOM_FACTOR = 0.8; // Camera distance multiplier per + press
+
+// Names for the loading progress list, and the flat colours standing in for textures that fail
+const TEXTURE_ASSETS: Record<TextureName, { label: string; placeholder: THREE.ColorRepresentation }> = {
+  'earth-day': { label: 'Earth surface', placeholder: 0x2a5d8f }, // A plain ocean-blue Earth
+  'earth-night': { label: 'City lights', placeholder: 0x000000 },
+  'earth-specular': { label: 'Ocean mask', placeholder: 0x000000 }, // No glints
+  'earth-bump': { label: 'Relief', placeholder: 0x808080 }, // Flat
+  'earth-clouds': { label: 'Clouds', placeholder: 0x000000 }, // Clear sky
+  moon: { label: 'Moon', placeholder: 0x8a8a8a },
+  sun: { label: 'Sun', placeholder: 0xffd27f },
+};
+
+export interface Scene3DEventMap {
+  pick: { position: GeodeticPosition; point: THREE.Vector3 }; // Globe clicked (not dragged)
+  markerselect: { marker: MarkerOptions }; // Marker or its label clicked
+  satelliteselect: { satellite: SatelliteState }; // Satellite clicked
+  camerachange: {}; // Camera came to rest after moving
+  assetprogress: { progress: AssetProgress }; // A texture made progress, loaded or failed
+  ready: { failed: AssetStatus[] }; // All textures settled; failed ones show placeholders
+  tour: { state: TourState; index: number; caption: string }; // Tour started, reached a keyframe, paused or ended
+  measurementchange: { error: Error | null }; // Measurement added, removed or its draft changed; or a click failed
+  viewpreset: { preset: ViewPreset }; // A number key started a flight to a preset view
+  qualitychange: { quality: QualityLevel }; // Adaptive quality stepped up or down
+  tiledglobe: { available: boolean; error: Error | null }; // Tile pyramids were found or given; or the asset manifest was unusable
+}
+
+export class Scene3D extends THREE.EventDispatcher<Scene3DEventMap> {
   private container: HTMLElement;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
+  private labelRenderer: CSS2DRenderer; // HTML labels drawn over the WebGL canvas
   private controls: CameraControls;
   private animationId: number | null = null;
+  private suspended: boolean = false; // Loop stopped while the page is hidden
+  private renderMode: RenderMode = 'onDemand';
+  private needsRender: boolean = true; // Something changed since the last frame was drawn
+  private sinceRender: number = 0; // Real seconds since the last frame was drawn
+  private tilesLoading: boolean = false; // The tiled globe had loads in flight last frame
+  private lastFrameRendered: boolean = false; // Frame times only count between back-to-back frames
+  private adaptiveQuality: AdaptiveQuality | null = new AdaptiveQuality(); // null while switched off
+  private qualityLevel: number = QUALITY_LEVELS.length - 1; // Index into QUALITY_LEVELS
   private resizeObserver: ResizeObserver | null = null;
   private cube: THREE.Mesh;
-  private clock: THREE.Clock;
+  private clock: THREE.Clock; // Real-time frame clock
+  private simulationClock: SimulationClock; // Simulated time driving the scene
   private targetPointMesh: THREE.Mesh;
   private earthMesh: THREE.Mesh;
   private earthSystem: THREE.Group; // Group for Earth, pole, equator, to apply tilt
-  private earthPole: THREE.Mesh | null = null;
-  private equatorLine: THREE.Mesh | null = null;
-  private longitudeLinesGroup: THREE.Group | null = null; // Added for longitude lines
-  private latitudeLinesGroup: THREE.Group | null = null; // Added for latitude lines
+  private earthStandardMaterial: THREE.MeshStandardMaterial | null = null; // Original lit-by-sunLight look
+  private earthDayNightMaterial: EarthMaterial | null = null; // Terminator shader driven by the Sun direction
+  private atmosphere: Atmosphere | null = null; // Also in the layer registry; kept for its Sun direction
+  private moon: Moon | null = null;
+  private eclipseShadowsEnabled: boolean = true;
+  private earthFixedFrame: THREE.Group; // Child of earthMesh undoing its ellipsoid scale: ECEF in scene units
+  private markerLayer: MarkerLayer | null = null;
+  private measurementLayer: MeasurementLayer | null = null;
+  private measureMode: MeasureMode = 'off'; // While on, globe clicks add measurement points
+  private satelliteLayer: SatelliteLayer | null = null;
+  private tiledGlobe: TiledGlobe | null = null; // Created the first time tiled imagery is switched on
+  private tiledGlobeOptions: TiledGlobeOptions | null = null; // No tiles ship with the app; see setTiledGlobeOptions()
+  private tiledGlobeWanted: boolean = false; // Switched on, perhaps before there were tiles to show
+  private terrainExaggeration: number = 1;
+  private assetManifest: Promise<AssetManifest | null>; // Generated assets, null until the pipeline has run
+  private assets: AssetLoader = new AssetLoader();
+  public readonly ready: Promise<AssetStatus[]>; // Resolves with the failed assets once the first load settles
+  public readonly layers: LayerRegistry = new LayerRegistry(this); // Switchable overlays, in panel order
+  private graticule: Array<GraticuleLayer | GraticuleLabelsLayer> = []; // Lines and labels following setGraticuleStep()
+  private graticuleStep: GraticuleStep = 'auto';
   private sunMesh: THREE.Mesh | null = null; // Added for Sun model
   private sunLight: THREE.PointLight | null = null; // Added for Sun light
   private stats: Stats | null = null; // Added for Stats.js
-  private autoRotateEnabled: boolean = true; // Controls auto-rotation
-  private inactivityTimeoutId: number | null = null; // Timer for resuming rotation
-  private readonly INACTIVITY_RESUME_DELAY: number = 10000; // 10 seconds
+  private readonly options: SceneOptions; // Resolved from the constructor argument and the defaults
+  private readonly INACTIVITY_RESUME_DELAY: number; // ms
   private firstInteractionDone: boolean = false; // Added to track first interaction
+  private solarPosition: SolarPosition | null = null; // Last computed solar ephemeris
+  private lunarPosition: LunarPosition | null = null; // Last computed lunar ephemeris
+  private readonly SUN_DISTANCE: number; // Presentation distance of the Sun from the Earth
+  private solarScale: SolarScale = 'presentation';
+  private solarScaleBlend: number = 0; // 0 presentation layout .. 1 true scale
+  private solarScaleTransition: SolarScaleTransition | null = null; // Active setSolarScale()
+  private readonly SCALE_FACTOR: number; // Meters per scene unit
+  private readonly MOON_RADIUS: number; // meters
+  private readonly CLICK_TOLERANCE: number = 4; // Max pointer travel (px) for a press to count as a click
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private pointerDownPosition: THREE.Vector2 | null = null;
+  private cameraFlight: { flight: CameraFlight; resolve: () => void } | null = null; // Active flyTo()
+  private recorder: SceneRecorder | null = null; // Active startRecording()
+  private tour: { tour: Tour; player: TourPlayer; paused: boolean; interrupted: boolean } | null = null; // Active playTour()
+  private viewPresets: ViewPreset[] = [];
+  private reducedMotion: MediaQueryList = window.matchMedia('(prefers-reduced-motion: reduce)');
 
-  constructor(container: HTMLElement, private onFirstInteraction?: () => void) { // Added onFirstInteraction callback
+  // Throws if `options` (e.g. straight from a JSON file) has unknown keys or invalid values
+  constructor(
+    container: HTMLElement,
+    private onFirstInteraction?: () => void,
+    options: SceneOptionsInput = {}
+  ) {
+    super();
     this.container = container;
+    this.options = resolveSceneOptions(options);
+    this.SCALE_FACTOR = this.options.scaleFactor;
+    this.SUN_DISTANCE = this.options.sun.distance;
+    this.MOON_RADIUS = this.options.moonRadius;
+    this.INACTIVITY_RESUME_DELAY = this.options.inactivityResumeDelay;
     
     // Install CameraControls
     CameraControls.install( { THREE: THREE } );
@@ -38,33 +186,50 @@ export class Scene3D {
     this.earthSystem = new THREE.Group(); // Initialize earthSystem
     // this.scene.background = new THREE.Color(0x111111); // Will be replaced by skybox
 
+    // Every texture goes through one loader, so progress and readiness are known in one place
+    this.assets.addEventListener('progress', this.handleAssetProgress);
+    this.assets.addEventListener('ready', this.handleAssetsReady);
+    this.ready = this.assets.ready;
+
+    // Asset pipeline output; textures fall back to the configured files without it, and a
+    // manifest that can't be used counts as none (the page is told why)
+    const manifestUrl = this.options.assetManifest;
+    this.assetManifest = manifestUrl
+      ? loadAssetManifest(manifestUrl).catch(error => {
+          this.dispatchEvent({ type: 'tiledglobe', available: false, error: error as Error });
+          return null;
+        })
+      : Promise.resolve(null);
+
     // Skybox
-    const loader = new THREE.CubeTextureLoader();
-    const texture = loader.load([
-      '/cube-faces/px.png',
-      '/cube-faces/nx.png',
-      '/cube-faces/py.png',
-      '/cube-faces/ny.png',
-      '/cube-faces/pz.png',
-      '/cube-faces/nz.png',
-    ]);
-    this.scene.background = texture;
+    this.scene.background = this.loadSkybox(this.options.textures.skybox);
     
     // Create camera
+    const { fov, near, far, distance } = this.options.camera;
     this.camera = new THREE.PerspectiveCamera(
-      75, // Field of view
+      fov,
       this.container.clientWidth / this.container.clientHeight || 1, // Initial aspect from container or fallback
-      0.1, // Near clipping plane
-      100000 // Far clipping plane
+      near,
+      far
     );
-    this.camera.position.z = 160;
+    this.camera.position.z = distance;
     
-    // Create renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    // Create renderer; with alpha so captures can leave out the sky, and logarithmic depth
+    // so a 0.1-unit near plane still resolves depth out to a true-scale Sun at 1 AU
+    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, logarithmicDepthBuffer: true });
     this.renderer.setPixelRatio(window.devicePixelRatio);
     // Initial size will be set by onContainerResize in initialize()
     // this.renderer.setSize(this.container.clientWidth, this.container.clientHeight); // Set initial size based on container
     this.container.appendChild(this.renderer.domElement);
+
+    // Create label renderer, stacked on top of the canvas; labels opt back in to pointer events
+    this.labelRenderer = new CSS2DRenderer();
+    this.labelRenderer.domElement.className = 'label-layer';
+    this.labelRenderer.domElement.style.position = 'absolute';
+    this.labelRenderer.domElement.style.top = '0';
+    this.labelRenderer.domElement.style.left = '0';
+    this.labelRenderer.domElement.style.pointerEvents = 'none';
+    this.container.appendChild(this.labelRenderer.domElement);
     
     // Create camera controls
     this.controls = new CameraControls(this.camera, this.renderer.domElement);
@@ -72,6 +237,28 @@ export class Scene3D {
     // Event listeners for interaction-based auto-rotation
     this.controls.addEventListener('controlstart', this.handleControlStart);
     this.controls.addEventListener('controlend', this.handleControlEnd);
+    this.controls.addEventListener('sleep', this.handleControlSleep);
+
+    // Click (as opposed to drag) picking on the globe
+    this.renderer.domElement.addEventListener('pointerdown', this.handlePointerDown);
+    this.renderer.domElement.addEventListener('pointerup', this.handlePointerUp);
+
+    // The canvas takes focus and drives the camera from the keyboard (see handleKeyDown())
+    const canvas = this.renderer.domElement;
+    canvas.tabIndex = 0;
+    canvas.setAttribute('role', 'application');
+    canvas.setAttribute('aria-roledescription', '3D globe');
+    canvas.setAttribute('aria-label',
+      'Globe. Arrow keys orbit, plus and minus zoom, Home resets the view, number keys jump to preset views.');
+    canvas.addEventListener('keydown', this.handleKeyDown);
+
+    // Reduced motion: no easing on the controls, no flights, and time starts paused
+    this.reducedMotion.addEventListener('change', this.handleMotionPreferenceChange);
+
+    // Draw on demand: layer changes ask for a frame; hidden pages draw nothing at all
+    this.layers.addEventListener('list', this.handleLayersChange);
+    this.layers.addEventListener('change', this.handleLayersChange);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
     
     // Create a cube (placeholder, will be initialized in initialize method)
     this.cube = new THREE.Mesh();
@@ -81,9 +268,7 @@ export class Scene3D {
 
     // Create an earth mesh (placeholder, will be initialized in initialize method)
     this.earthMesh = new THREE.Mesh();
-
-    // Initialize earthPole and equatorLine to null or placeholder meshes if needed before initialize()
-    // For simplicity, we'll ensure they are created in initialize() before being accessed.
+    this.earthFixedFrame = new THREE.Group();
 
     // REMOVED: window.addEventListener('resize', () => this.onWindowResize());
     this.setupResizeObserver(); // ADDED: Setup ResizeObserver
@@ -91,6 +276,11 @@ export class Scene3D {
     // Initialize clock for delta time
     this.clock = new THREE.Clock();
 
+    // Simulation clock starts at the current time; user interaction holds it
+    this.simulationClock = new SimulationClock(new Date(), this.INACTIVITY_RESUME_DELAY);
+    this.simulationClock.addEventListener('change', this.handleSimulationClockChange);
+    this.handleMotionPreferenceChange();
+
     // Initialize Stats.js
     this.stats = new Stats();
     this.stats.showPanel(0); // 0: fps, 1: ms, 2: mb, 3+: custom
@@ -116,10 +306,11 @@ export class Scene3D {
   
   // Method to handle the start of camera control interaction
   private handleControlStart = (): void => {
-    this.autoRotateEnabled = false;
-    if (this.inactivityTimeoutId !== null) {
-      clearTimeout(this.inactivityTimeoutId);
-      this.inactivityTimeoutId = null;
+    this.simulationClock.hold();
+    this.endCameraFlight(); // Grabbing the controls aborts a flyTo()
+    if (this.tour && !this.tour.paused) {
+      this.tour.interrupted = true; // Picks up from the new view on resumeTour()
+      this.pauseTour();
     }
 
     if (!this.firstInteractionDone && this.onFirstInteraction) {
@@ -128,26 +319,160 @@ export class Scene3D {
     }
   };
 
+  private handleControlSleep = (): void => {
+    this.dispatchEvent({ type: 'camerachange' });
+  };
+
+  // Keep the Sun/Earth in sync when the time is set while paused or held
+  private handleSimulationClockChange = (): void => {
+    this.updateEphemeris();
+    this.requestRender();
+  };
+
   // Method to handle the end of camera control interaction
   private handleControlEnd = (): void => {
-    if (this.inactivityTimeoutId !== null) {
-      clearTimeout(this.inactivityTimeoutId);
+    this.simulationClock.release(); // Resumes after INACTIVITY_RESUME_DELAY
+  };
+
+  // Arrow keys move the camera that way around the target, +/- zoom, Home goes back to
+  // the starting view and 1-9 fly to the view presets. Each press counts as a control
+  // interaction, so it holds the clock and interrupts flights and tours like a drag.
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    const transition = !this.prefersReducedMotion();
+    const distance = this.controls.distance;
+
+    const preset = /^[1-9]$/.test(event.key) ? this.viewPresets[Number(event.key) - 1] : undefined;
+    if (preset) {
+      event.preventDefault();
+      this.handleControlStart();
+      this.flyTo(preset);
+      this.dispatchEvent({ type: 'viewpreset', preset });
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowLeft':
+        this.handleControlStart();
+        this.controls.rotate(-KEYBOARD_ORBIT_STEP, 0, transition);
+        break;
+      case 'ArrowRight':
+        this.handleControlStart();
+        this.controls.rotate(KEYBOARD_ORBIT_STEP, 0, transition);
+        break;
+      case 'ArrowUp':
+        this.handleControlStart();
+        this.controls.rotate(0, -KEYBOARD_ORBIT_STEP, transition);
+        break;
+      case 'ArrowDown':
+        this.handleControlStart();
+        this.controls.rotate(0, KEYBOARD_ORBIT_STEP, transition);
+        break;
+      case '+':
+      case '=':
+        this.handleControlStart();
+        this.controls.dollyTo(distance * KEYBOARD_ZOOM_FACTOR, transition);
+        break;
+      case '-':
+      case '_':
+        this.handleControlStart();
+        this.controls.dollyTo(distance / KEYBOARD_ZOOM_FACTOR, transition);
+        break;
+      case 'Home':
+        this.handleControlStart();
+        this.controls.setLookAt(0, 0, this.options.camera.distance, 0, 0, 0, transition);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault(); // Keep arrows and +/- from scrolling or zooming the page
+    this.handleControlEnd();
+  };
+
+  private handleMotionPreferenceChange = (): void => {
+    const reduced = this.prefersReducedMotion();
+    this.controls.smoothTime = reduced ? 0 : 0.25; // camera-controls' defaults otherwise
+    this.controls.draggingSmoothTime = reduced ? 0 : 0.125;
+    if (reduced) {
+      this.simulationClock.pause(); // Stops the globe turning by itself; play resumes it
     }
-    this.inactivityTimeoutId = window.setTimeout(() => {
-      this.autoRotateEnabled = true;
-    }, this.INACTIVITY_RESUME_DELAY);
   };
   
+  private handlePointerDown = (event: PointerEvent): void => {
+    this.pointerDownPosition = new THREE.Vector2(event.clientX, event.clientY);
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (!this.pointerDownPosition) return;
+    const travel = this.pointerDownPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY));
+    this.pointerDownPosition = null;
+    if (travel > this.CLICK_TOLERANCE) return; // It was a camera drag
+    this.requestRender(); // Selection highlights change below
+
+    // Measuring takes every click on the globe
+    if (this.measureMode !== 'off') {
+      const point = this.raycastEarth(event.clientX, event.clientY);
+      if (point) {
+        const position = this.sceneToGeodetic(point);
+        this.addMeasurementPoint(this.measureMode, [position.latitude, position.longitude]);
+        this.dispatchEvent({ type: 'pick', position, point });
+      }
+      return;
+    }
+
+    this.setRaycasterFromClient(event.clientX, event.clientY);
+    const markerId = this.markerLayer?.pick(this.raycaster, this.earthMesh);
+    const marker = markerId ? this.markerLayer?.get(markerId) : undefined;
+    if (marker) {
+      this.dispatchEvent({ type: 'markerselect', marker });
+      return;
+    }
+
+    const point = this.raycastEarth(event.clientX, event.clientY);
+
+    // Satellites in front of the globe take precedence over the surface behind them
+    const satelliteHit = this.satelliteLayer?.pick(this.raycaster);
+    if (satelliteHit && (!point || satelliteHit.distance < point.distanceTo(this.raycaster.ray.origin))) {
+      this.satelliteLayer?.setSelected(satelliteHit.id);
+      const satellite = this.getSatelliteState(satelliteHit.id);
+      if (satellite) {
+        this.dispatchEvent({ type: 'satelliteselect', satellite });
+      }
+      return;
+    }
+
+    if (point) {
+      this.dispatchEvent({ type: 'pick', position: this.sceneToGeodetic(point), point });
+    }
+  };
+
+  // Set up the raycaster for a client (viewport) coordinate
+  private setRaycasterFromClient(clientX: number, clientY: number): void {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, this.camera);
+  }
+
+  // World-space hit on the Earth surface under a client coordinate, if any
+  private raycastEarth(clientX: number, clientY: number): THREE.Vector3 | null {
+    this.setRaycasterFromClient(clientX, clientY);
+    const hits = this.raycaster.intersectObject(this.earthMesh, false);
+    return hits.length > 0 ? hits[0].point : null;
+  }
+
   initialize(): void {
     this.onContainerResize(); // ADDED: Call to set initial size correctly
 
     // Add the earth system group that will be tilted to the scene
     this.scene.add(this.earthSystem);
 
-    // Apply Earth's axial tilt (approx 23.5 degrees)
+    // Apply the axial tilt (23.5 degrees for the Earth)
     // We'll tilt it around the Z-axis, so the North Pole (positive Y) tilts towards positive X.
     // This assumes the initial orientation of the Earth model has its North Pole along the positive Y-axis.
-    this.earthSystem.rotation.z = THREE.MathUtils.degToRad(23.5);
+    this.earthSystem.rotation.z = THREE.MathUtils.degToRad(this.options.body.axialTilt);
 
     // Add a grid helper for debugging
     const gridHelper = new THREE.GridHelper(10, 10, 0x888888, 0x444444);
@@ -158,31 +483,31 @@ export class Scene3D {
     this.scene.add(axisHelper);
     
     // Add ambient light
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.1); // Adjusted intensity
+    const ambientLight = new THREE.AmbientLight(this.options.ambientLight.color, this.options.ambientLight.intensity);
     this.scene.add(ambientLight);
     
     // REMOVED: const directionalLight = new THREE.DirectionalLight(0xffffff, 2);
     // REMOVED: directionalLight.position.set(5, 5, 5);
     // REMOVED: this.scene.add(directionalLight);
 
-    // Create a single TextureLoader instance
-    const textureLoader = new THREE.TextureLoader();
-
     // Create Sun
-    const sunTexture = textureLoader.load('/8k_sun.jpg');
+    const sunTexture = this.loadTexture('sun', this.options.textures.sun);
     sunTexture.colorSpace = THREE.SRGBColorSpace;
 
-    const sunGeometry = new THREE.SphereGeometry(50 * 109, 64, 64); // Sun radius 50 * 109
+    const sunGeometry = new THREE.SphereGeometry(this.options.sun.radius, 64, 64);
     const sunMaterial = new THREE.MeshBasicMaterial({ map: sunTexture });
     this.sunMesh = new THREE.Mesh(sunGeometry, sunMaterial);
-    this.sunMesh.position.set(70000, 0, 0); // Position Sun further away
-    this.scene.add(this.sunMesh);
+    this.scene.add(this.sunMesh); // Positioned from the solar ephemeris in updateEphemeris()
 
     // Create PointLight for the Sun
-    this.sunLight = new THREE.PointLight(0xffffff, 500000, 0, 1); // color, intensity, distance, decay
-    this.sunLight.position.copy(this.sunMesh.position);
+    this.sunLight = new THREE.PointLight(this.options.sun.color, this.options.sun.intensity, 0, 1); // color, intensity, distance, decay
     this.scene.add(this.sunLight);
     
+    // Create the Moon at true scale; placed from the lunar ephemeris in updateEphemeris()
+    const moonTexture = this.loadTexture('moon', this.options.textures.moon);
+    moonTexture.colorSpace = THREE.SRGBColorSpace;
+    this.moon = new Moon(this.scene, this.MOON_RADIUS / this.SCALE_FACTOR, moonTexture);
+
     // Create a cube
     const geometry = new THREE.BoxGeometry(1, 1, 1);
     const material = new THREE.MeshStandardMaterial({
@@ -200,28 +525,36 @@ export class Scene3D {
     this.targetPointMesh = new THREE.Mesh(targetPointGeometry, targetPointMaterial);
     this.scene.add(this.targetPointMesh);
 
-    // Create and add Earth ellipsoid mesh
-    const realEquatorialRadius = 6378137; // meters
-    const realPolarRadius = 6356752;    // meters
-    const scaleFactor = 100000;
-
-    const scaledEquatorialRadius = realEquatorialRadius / scaleFactor;
-    const scaledPolarRadius = realPolarRadius / scaleFactor;
+    // Create and add Earth ellipsoid mesh (WGS84 radii in scene units, by default)
+    const { equatorialRadius, polarRadius, atmosphereHeight } = this.options.body;
+    const scaledEquatorialRadius = equatorialRadius / this.SCALE_FACTOR;
+    const scaledPolarRadius = polarRadius / this.SCALE_FACTOR;
 
     // Create a unit sphere geometry
-    const earthGeometry = new THREE.SphereGeometry(1, 200, 200); // Radius 1, 64x64 segments for smoothness
+    const segments = QUALITY_LEVELS[this.qualityLevel].globeSegments; // Adaptive quality may swap it later
+    const earthGeometry = new THREE.SphereGeometry(1, segments, segments);
     
     // Load Earth texture
-    // const textureLoader = new THREE.TextureLoader(); // This was the redeclaration
-    const earthTexture = textureLoader.load('/8081_earthmap10k.jpg'); // Reuse textureLoader
+    const earthTexture = this.loadTexture('earth-day', this.options.textures.day);
     earthTexture.colorSpace = THREE.SRGBColorSpace; // Important for correct color display
 
-    const earthMaterial = new THREE.MeshStandardMaterial({
+    this.earthStandardMaterial = new THREE.MeshStandardMaterial({
       map: earthTexture, // Apply the loaded texture
       metalness: 0.2,
       roughness: 0.8,
     });
-    this.earthMesh = new THREE.Mesh(earthGeometry, earthMaterial);
+
+    // Day/night material: city lights, water mask for ocean glints and a bump map
+    const nightTexture = this.loadTexture('earth-night', this.options.textures.night);
+    nightTexture.colorSpace = THREE.SRGBColorSpace;
+    this.earthDayNightMaterial = new EarthMaterial({
+      dayMap: earthTexture,
+      nightMap: nightTexture,
+      specularMap: this.loadTexture('earth-specular', this.options.textures.specular), // Data textures stay linear
+      bumpMap: this.loadTexture('earth-bump', this.options.textures.bump),
+    });
+
+    this.earthMesh = new THREE.Mesh(earthGeometry, this.earthDayNightMaterial);
 
     // Scale the mesh to form an ellipsoid
     this.earthMesh.scale.set(scaledEquatorialRadius, scaledPolarRadius, scaledEquatorialRadius);
@@ -229,94 +562,61 @@ export class Scene3D {
     this.earthMesh.position.set(0, 0, 0); // Position at the origin (relative to earthSystem)
     this.earthSystem.add(this.earthMesh); // Add to the tilted earthSystem group
 
-    // Create Longitude Lines
-    this.longitudeLinesGroup = new THREE.Group();
-    const lineMaterial = new THREE.LineBasicMaterial({
-      color: 0x87CEFA, // Light blue
-      transparent: true,
-      opacity: 0.5,
+    // Reference lines: pole, equator, the labelled graticule and the named parallels and meridians
+    const { graticule } = this.options;
+    this.layers.register(new PoleLayer(scaledPolarRadius, graticule.axisColor));
+    this.layers.register(new EquatorLayer(scaledEquatorialRadius, graticule.equatorColor));
+    this.graticule = [
+      new GraticuleLayer('meridians', graticule.longitudeStep, graticule.longitudeColor, this.SCALE_FACTOR),
+      new GraticuleLayer('parallels', graticule.latitudeStep, graticule.latitudeColor, this.SCALE_FACTOR),
+      new GraticuleLabelsLayer(graticule.longitudeStep, graticule.latitudeStep, graticule.labelColor, this.SCALE_FACTOR),
+    ];
+    this.graticule.forEach(layer => this.layers.register(layer));
+    (Object.keys(graticule.namedLines) as NamedLineName[]).forEach(name => {
+      this.layers.register(new NamedLineLayer(name, graticule.namedLines[name], this.options.body.axialTilt, this.SCALE_FACTOR));
     });
-    const lineSegments = 64;
-    const lineRadius = 1.002; // Slightly above the unit sphere surface
-
-    for (let i = 0; i < 24; i++) { // 24 lines, every 15 degrees
-      const longitude = THREE.MathUtils.degToRad(i * 15);
-      const points = [];
-      for (let j = 0; j <= lineSegments; j++) {
-        const latitude = THREE.MathUtils.mapLinear(j, 0, lineSegments, -Math.PI / 2, Math.PI / 2);
-        // Points for a semi-ellipse on the sphere
-        const x = lineRadius * Math.cos(latitude) * Math.cos(longitude);
-        const y = lineRadius * Math.sin(latitude);
-        const z = lineRadius * Math.cos(latitude) * Math.sin(longitude);
-        points.push(new THREE.Vector3(x, y, z));
-      }
-      const lineGeometry = new THREE.BufferGeometry().setFromPoints(points);
-      const longitudeLine = new THREE.Line(lineGeometry, lineMaterial);
-      this.longitudeLinesGroup.add(longitudeLine);
+    this.measurementLayer = new MeasurementLayer(MEASUREMENT_COLOR, this.SCALE_FACTOR);
+    this.layers.register(this.measurementLayer);
+
+    // Atmosphere shell (~150 km thick on the Earth, exaggerated for the glow) and clouds
+    if (atmosphereHeight > 0) {
+      this.atmosphere = new Atmosphere(scaledEquatorialRadius, scaledPolarRadius, atmosphereHeight / this.SCALE_FACTOR);
+      this.layers.register(this.atmosphere);
+    }
+    if (this.options.textures.clouds) {
+      this.layers.register(new CloudLayer(this.loadTexture('earth-clouds', this.options.textures.clouds)));
     }
-    this.earthMesh.add(this.longitudeLinesGroup); // Add to earthMesh to inherit rotation and scale
 
+    // Point the tiled globe at the generated pyramids when there are any
+    this.assetManifest.then(manifest => {
+      const options = manifest && tiledGlobeOptionsFromManifest(manifest);
+      if (options) {
+        this.setTiledGlobeOptions(options);
+      }
+    });
+
+    // Earth-fixed frame for overlays positioned from geodeticToEcef() / SCALE_FACTOR. Overlays
+    // always use WGS84 geodesy; on another body this maps that ellipsoid onto the body's, so
+    // they stay on its surface (latitudes shift by up to the difference in flattening, ~0.15°
+    // for Mars, and heights scale with the radius).
+    this.earthFixedFrame.scale.set(this.SCALE_FACTOR / WGS84.a, this.SCALE_FACTOR / WGS84.b, this.SCALE_FACTOR / WGS84.a);
+    this.earthMesh.add(this.earthFixedFrame);
 
-    // Create Latitude Lines
-    this.latitudeLinesGroup = new THREE.Group();
-    const latitudeLineMaterial = new THREE.LineBasicMaterial({
-      color: 0x98FB98, // Light green
-      transparent: true,
-      opacity: 0.5,
+    // Placemarks
+    this.markerLayer = new MarkerLayer(this.earthFixedFrame, this.SCALE_FACTOR, (marker) => {
+      this.dispatchEvent({ type: 'markerselect', marker });
     });
-    const latitudeLineSegments = 128; // More segments for smoother circles
-    const numLatitudeLines = 17; // e.g., every 10 degrees from -80 to +80, excluding equator
-
-    for (let i = 0; i < numLatitudeLines; i++) {
-      // Angle from -80 to +80 degrees, skipping 0 (equator)
-      const angleDeg = -80 + i * 10;
-      if (angleDeg === 0) continue; // Skip equator as it's already drawn
-
-      const latitude = THREE.MathUtils.degToRad(angleDeg);
-      const radiusAtLatitude = lineRadius * Math.cos(latitude); // lineRadius is from longitude lines, slightly above surface
-      const yPosition = lineRadius * Math.sin(latitude);
-
-      const points = [];
-      for (let j = 0; j <= latitudeLineSegments; j++) {
-        const segmentAngle = (j / latitudeLineSegments) * Math.PI * 2;
-        const x = radiusAtLatitude * Math.cos(segmentAngle);
-        const z = radiusAtLatitude * Math.sin(segmentAngle);
-        points.push(new THREE.Vector3(x, yPosition, z));
-      }
-      const lineGeometry = new THREE.BufferGeometry().setFromPoints(points);
-      const latitudeLine = new THREE.Line(lineGeometry, latitudeLineMaterial);
-      this.latitudeLinesGroup.add(latitudeLine);
-    }
-    this.earthMesh.add(this.latitudeLinesGroup); // Add to earthMesh
-
-
-    // Create and add North-South pole axis
-    const poleRadius = 0.2; // A small radius for the pole
-    const poleHeight = scaledPolarRadius * 2 * 1.30; // Slightly taller than the Earth's polar diameter
-    const poleGeometry = new THREE.CylinderGeometry(poleRadius, poleRadius, poleHeight, 8);
-    const poleMaterial = new THREE.MeshBasicMaterial({ color: 0xff0000 });
-    const earthPole = new THREE.Mesh(poleGeometry, poleMaterial);
-    // The cylinder is oriented along the Y-axis by default, which matches the Earth's polar axis.
-    // It will be centered at the Earth's origin (0,0,0) by default.
-    this.earthSystem.add(earthPole); // Add to the tilted earthSystem group
-    this.earthPole = earthPole; // Store reference
-
-    // Create and add Equator line
-    const equatorRadius = scaledEquatorialRadius * 1.0002; // Slightly larger than Earth's radius to be visible
-    const equatorTubeRadius = 0.1;
-    const equatorRadialSegments = 64;
-    const equatorTubularSegments = 200;
-    const equatorGeometry = new THREE.TorusGeometry(equatorRadius, equatorTubeRadius, equatorRadialSegments, equatorTubularSegments);
-    const equatorMaterial = new THREE.MeshBasicMaterial({ color: 0xffff00 }); // Yellow color for visibility
-    const equatorLine = new THREE.Mesh(equatorGeometry, equatorMaterial);
-    equatorLine.rotation.x = Math.PI / 2; // Rotate to align with the Earth's equator (around X-axis)
-    this.earthSystem.add(equatorLine); // Add to the tilted earthSystem group
-    this.equatorLine = equatorLine; // Store reference
+
+    // Satellites, fed from TLE files through loadSatellites()
+    this.satelliteLayer = new SatelliteLayer(this.earthSystem, this.earthFixedFrame, this.SCALE_FACTOR);
 
     // Prevent camera from zooming too close to the Earth
     if (this.controls) {
       // this.controls.minDistance = scaledEquatorialRadius * 1.1; // Set minDistance to 110% of Earth's equatorial radius
     }
+
+    // Place the Sun and orient the Earth for the initial simulation time
+    this.updateEphemeris();
     
     // Start animation loop
     this.animate();
@@ -325,28 +625,85 @@ export class Scene3D {
   animate(): void {
     this.animationId = requestAnimationFrame(() => this.animate());
 
-    if (this.stats) {
-      this.stats.begin(); // Begin FPS counter
+    // While recording with a fixed step, frames are paced and stepped by the recorder
+    const realDelta = this.clock.getDelta();
+    const delta = this.recorder ? this.recorder.frameDelta(realDelta) : realDelta;
+    if (delta === null) {
+      this.lastFrameRendered = false;
+      return;
     }
-    
-    const delta = this.clock.getDelta();
     const target = new THREE.Vector3(); // Create a temporary vector to store the target
     
-    if (this.autoRotateEnabled) {
-      // Rotate the cube
+    if (this.simulationClock.isRunning()) {
+      // Rotate the cube (0.6 rad per real second, independent of frame rate)
       if (this.cube) {
-        this.cube.rotation.x += 0.01;
-        this.cube.rotation.y += 0.01;
+        this.cube.rotation.x += delta * 0.6;
+        this.cube.rotation.y += delta * 0.6;
       }
+    }
 
-      // Rotate the Earth (optional)
-      if (this.earthMesh) {
-        this.earthMesh.rotation.y += 0.0005; // Slower rotation for Earth
+    // Move the Sun between layouts along an active setSolarScale()
+    if (this.solarScaleTransition) {
+      this.solarScaleBlend = this.solarScaleTransition.step(delta);
+      if (this.solarScaleTransition.isFinished()) {
+        this.solarScaleTransition = null;
+        this.requestRender(); // Its last step
       }
     }
+
+    // Advance the simulation; time keeps up even on frames that aren't drawn
+    this.simulationClock.tick(delta);
     
-    // Update controls
-    this.controls.update(delta);
+    // Drive the camera along an active flyTo()
+    if (this.cameraFlight) {
+      const { position, target } = this.cameraFlight.flight.step(delta);
+      this.controls.setLookAt(position.x, position.y, position.z, target.x, target.y, target.z, false);
+      if (this.cameraFlight.flight.isFinished()) {
+        this.endCameraFlight();
+        this.simulationClock.release();
+      }
+    }
+
+    // Drive the camera, time and layers along an active playTour()
+    if (this.tour && !this.tour.paused) {
+      const current = this.getCameraState();
+      const frame = this.tour.player.step(delta, current, this.simulationClock.getTime());
+      if (frame) {
+        const { position, target } = frame.pose;
+        this.controls.setLookAt(position.x, position.y, position.z, target.x, target.y, target.z, false);
+        if (frame.time !== this.simulationClock.getTime()) {
+          this.simulationClock.setDate(new Date(frame.time));
+        }
+        if (frame.entered) {
+          const keyframe = this.tour.tour.keyframes[frame.index];
+          Object.entries(keyframe.layers).forEach(([id, visible]) => {
+            if (this.layers.get(id)) this.layers.setVisible(id, visible);
+          });
+          this.dispatchTourState();
+        }
+      } else {
+        this.stopTour();
+      }
+    }
+
+    // Update controls; true while the camera is still moving or settling
+    const cameraMoved = this.controls.update(delta);
+
+    this.sinceRender += realDelta;
+    if (!this.shouldRender(cameraMoved)) {
+      this.lastFrameRendered = false;
+      return;
+    }
+
+    if (this.stats) {
+      this.stats.begin(); // Begin FPS counter; only frames that are drawn count
+    }
+
+    // Sun/Earth for the current simulation time
+    this.updateEphemeris();
+    if (this.satelliteLayer) {
+      this.satelliteLayer.update(this.simulationClock.getDate());
+    }
     
     // Update target point mesh position
     if (this.targetPointMesh && this.controls) {
@@ -354,14 +711,180 @@ export class Scene3D {
       this.targetPointMesh.position.copy(target);
     }
     
+    // Refine the tiled globe for this view; once it covers the globe the base mesh steps aside
+    if (this.tiledGlobe) {
+      this.tiledGlobe.update(this.camera, this.renderer.domElement.clientHeight);
+      this.updateBaseGlobeVisibility();
+    }
+
+    // Hide marker labels behind the globe
+    if (this.markerLayer) {
+      this.markerLayer.update(this.camera);
+    }
+
+    // Registered layers, for this simulation time and camera
+    this.layers.update(this.simulationClock.getDate());
+
     // Render the scene
     this.renderer.render(this.scene, this.camera);
+    this.labelRenderer.render(this.scene, this.camera);
+    this.recorder?.frameRendered();
+    this.needsRender = false;
+    this.sinceRender = 0;
 
     if (this.stats) {
       this.stats.end(); // End FPS counter
     }
+
+    // Adapt quality to the time between this frame and the last, when both were drawn.
+    // Not while recording: the video's frame size must stay put.
+    if (this.adaptiveQuality && this.lastFrameRendered && !this.recorder) {
+      const level = this.adaptiveQuality.sample(realDelta * 1000);
+      if (level !== null) {
+        this.applyQuality(level);
+      }
+    }
+    this.lastFrameRendered = true;
+  }
+
+  // Whether this frame has anything new to show. In continuous mode they all do; on
+  // demand it takes a change, something in motion, or the running clock (see
+  // CLOCK_FRAME_INTERVAL).
+  private shouldRender(cameraMoved: boolean): boolean {
+    const tilesLoading = !!this.tiledGlobe && this.tiledGlobe.isVisible() && this.tiledGlobe.isLoading();
+    const tilesSettled = this.tilesLoading && !tilesLoading; // One more frame to show the last tiles
+    this.tilesLoading = tilesLoading;
+
+    if (this.renderMode === 'continuous' || this.needsRender || cameraMoved || this.recorder) return true;
+    if (this.cameraFlight || (this.tour && !this.tour.paused) || this.solarScaleTransition) return true;
+    if (tilesLoading || tilesSettled) return true; // Tile requests only start from update()
+    if (this.simulationClock.isRunning()) {
+      return this.simulationClock.getRate() >= FAST_CLOCK_RATE || this.sinceRender >= CLOCK_FRAME_INTERVAL;
+    }
+    return false;
+  }
+
+  private handleLayersChange = (): void => {
+    this.requestRender();
+  };
+
+  // Hidden pages draw nothing: stop the loop, and on return drop the time spent away so
+  // neither the simulation nor the frame-time sampling sees one huge frame
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      if (this.animationId !== null) {
+        cancelAnimationFrame(this.animationId);
+        this.animationId = null;
+        this.suspended = true;
+      }
+    } else if (this.suspended) {
+      this.suspended = false;
+      this.clock.getDelta();
+      this.lastFrameRendered = false;
+      this.adaptiveQuality?.discardSamples();
+      this.requestRender();
+      this.animate();
+    }
+  };
+
+  // Pixel ratio, globe tessellation and shader detail for a QUALITY_LEVELS entry
+  private applyQuality(index: number): void {
+    const quality = QUALITY_LEVELS[index];
+    this.qualityLevel = index;
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, quality.maxPixelRatio));
+
+    const geometry = this.earthMesh.geometry;
+    if (geometry instanceof THREE.SphereGeometry && geometry.parameters.widthSegments !== quality.globeSegments) {
+      this.earthMesh.geometry = new THREE.SphereGeometry(1, quality.globeSegments, quality.globeSegments);
+      geometry.dispose();
+    }
+    this.earthDayNightMaterial?.setSurfaceDetail(quality.surfaceDetail);
+
+    this.requestRender();
+    this.dispatchEvent({ type: 'qualitychange', quality });
   }
   
+  // Orient the Earth and place the Sun for the current simulation time.
+  //
+  // Frame conventions: in earthMesh's local frame latitude/longitude map to
+  // (cos(lat)cos(lon), sin(lat), -cos(lat)sin(lon)), matching the UVs of SphereGeometry
+  // with an equirectangular map. earthSystem is the (tilted) equatorial frame whose +Y is
+  // the celestial north pole; rotating earthMesh by GMST + 90° puts the vernal equinox on
+  // earthSystem's -Z axis, which is the tilt axis, so the world XZ plane is the ecliptic.
+  private updateEphemeris(): void {
+    const solar = computeSolarPosition(this.simulationClock.getDate());
+    this.solarPosition = solar;
+
+    if (this.earthMesh) {
+      this.earthMesh.rotation.y = THREE.MathUtils.degToRad(solar.greenwichSiderealTime) + Math.PI / 2;
+    }
+
+    // The Sun sits straight above the sub-solar point
+    const sunDirection = this.subpointToWorldDirection(solar.subsolarLatitude, solar.subsolarLongitude);
+    if (this.earthDayNightMaterial) {
+      this.earthDayNightMaterial.setSunDirection(sunDirection);
+    }
+    if (this.atmosphere) {
+      this.atmosphere.setSunDirection(sunDirection);
+    }
+    this.updateMoon(sunDirection);
+
+    // Between layouts distance and size move geometrically, so the move reads evenly
+    // across the orders of magnitude rather than all happening at the start
+    const blend = this.solarScaleBlend;
+    const distance = logLerp(this.SUN_DISTANCE, (solar.distance * ASTRONOMICAL_UNIT) / this.SCALE_FACTOR, blend);
+    const radius = logLerp(this.options.sun.radius, SUN_RADIUS / this.SCALE_FACTOR, blend);
+    sunDirection.multiplyScalar(distance);
+
+    if (this.sunMesh) {
+      this.sunMesh.position.copy(sunDirection);
+      this.sunMesh.scale.setScalar(radius / this.options.sun.radius);
+    }
+    if (this.sunLight) {
+      this.sunLight.position.copy(sunDirection);
+      // With decay 1 light falls off as 1/distance; keep the globe as brightly lit
+      this.sunLight.intensity = (this.options.sun.intensity * distance) / this.SUN_DISTANCE;
+    }
+
+    // Keep the far plane beyond the Sun, with room to look back at the Earth from it
+    const far = Math.max(this.options.camera.far, (distance + radius) * 2);
+    if (far !== this.camera.far) {
+      this.camera.far = far;
+      this.camera.updateProjectionMatrix();
+    }
+  }
+  
+  // The Moon above the sub-lunar point at its true distance, and each body as the
+  // other's eclipse occluder
+  private updateMoon(sunDirection: THREE.Vector3): void {
+    const lunar = computeLunarPosition(this.simulationClock.getDate());
+    this.lunarPosition = lunar;
+    if (!this.moon) return;
+
+    const earthCenter = this.earthSystem.getWorldPosition(new THREE.Vector3());
+    const moonPosition = this.subpointToWorldDirection(lunar.sublunarLatitude, lunar.sublunarLongitude)
+      .multiplyScalar((lunar.distance * 1000) / this.SCALE_FACTOR)
+      .add(earthCenter);
+    this.moon.setPosition(moonPosition, earthCenter);
+    this.moon.setSunDirection(sunDirection);
+
+    const shadows = this.eclipseShadowsEnabled && this.moon.isVisible();
+    this.moon.setEarthShadow(earthCenter, shadows ? this.options.body.equatorialRadius / this.SCALE_FACTOR : 0);
+    this.earthDayNightMaterial?.setOccluder(moonPosition, shadows ? this.moon.getRadius() : 0);
+  }
+
+  // World-space unit vector from the Earth's centre through a sub-point (degrees), e.g.
+  // the sub-solar point. Uses earthMesh's current rotation, so set that first.
+  private subpointToWorldDirection(latitude: number, longitude: number): THREE.Vector3 {
+    const lat = THREE.MathUtils.degToRad(latitude);
+    const lon = THREE.MathUtils.degToRad(longitude);
+    return new THREE.Vector3(
+      Math.cos(lat) * Math.cos(lon),
+      Math.sin(lat),
+      -Math.cos(lat) * Math.sin(lon)
+    ).applyQuaternion(this.earthMesh.quaternion).applyQuaternion(this.earthSystem.quaternion);
+  }
+
   private onContainerResize(): void {
     if (!this.container || !this.renderer || !this.camera) {
       return;
@@ -381,6 +904,8 @@ export class Scene3D {
     
     // Update renderer size
     this.renderer.setSize(width, height);
+    this.labelRenderer.setSize(width, height);
+    this.requestRender();
   }
   
   dispose(): void {
@@ -389,17 +914,34 @@ export class Scene3D {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
+
+    // Ignore textures still on their way
+    this.assets.removeEventListener('progress', this.handleAssetProgress);
+    this.assets.removeEventListener('ready', this.handleAssetsReady);
+    this.assets.dispose();
     
+    this.renderer.domElement.removeEventListener('pointerdown', this.handlePointerDown);
+    this.renderer.domElement.removeEventListener('pointerup', this.handlePointerUp);
+    this.renderer.domElement.removeEventListener('keydown', this.handleKeyDown);
+    this.reducedMotion.removeEventListener('change', this.handleMotionPreferenceChange);
+    this.layers.removeEventListener('list', this.handleLayersChange);
+    this.layers.removeEventListener('change', this.handleLayersChange);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
     // Dispose of CameraControls
     this.controls.removeEventListener('controlstart', this.handleControlStart);
     this.controls.removeEventListener('controlend', this.handleControlEnd);
+    this.controls.removeEventListener('sleep', this.handleControlSleep);
     this.controls.dispose();
 
-    // Clear inactivity timeout
-    if (this.inactivityTimeoutId !== null) {
-      clearTimeout(this.inactivityTimeoutId);
-      this.inactivityTimeoutId = null;
-    }
+    this.endCameraFlight();
+    this.tour = null;
+    this.recorder?.stop().catch(() => {}); // Nobody is left to receive the file
+    this.recorder = null;
+
+    // Clear the simulation clock's inactivity timeout
+    this.simulationClock.removeEventListener('change', this.handleSimulationClockChange);
+    this.simulationClock.dispose();
 
     // ADDED: Disconnect ResizeObserver
     if (this.resizeObserver) {
@@ -455,57 +997,50 @@ export class Scene3D {
       this.sunLight.dispose(); // PointLight has a dispose method
     }
 
-    // Dispose of Earth mesh resources
+    // Dispose of Earth mesh resources, including whichever material isn't currently applied
     if (this.earthMesh) {
       this.earthMesh.geometry.dispose();
-      if (this.earthMesh.material instanceof THREE.Material) {
-        this.earthMesh.material.dispose();
-      }
+    }
+    if (this.earthDayNightMaterial) {
+      this.earthDayNightMaterial.getTextures().forEach(texture => texture.dispose()); // Includes the shared day map
+      this.earthDayNightMaterial.dispose();
+      this.earthDayNightMaterial = null;
+    }
+    if (this.earthStandardMaterial) {
+      this.earthStandardMaterial.dispose();
+      this.earthStandardMaterial = null;
     }
 
-    // Dispose of Earth pole resources
-    if (this.earthPole) {
-      this.earthPole.geometry.dispose();
-      if (this.earthPole.material instanceof THREE.Material) {
-        this.earthPole.material.dispose();
-      }
+    // Dispose of the registered layers: reference lines, atmosphere, clouds, GeoJSON overlays
+    this.layers.dispose();
+    this.atmosphere = null;
+
+    if (this.moon) {
+      this.moon.dispose();
+      this.moon = null;
     }
 
-    // Dispose of Equator line resources
-    if (this.equatorLine) {
-      this.equatorLine.geometry.dispose();
-      if (this.equatorLine.material instanceof THREE.Material) {
-        this.equatorLine.material.dispose();
-      }
+    // Dispose of markers (their shared geometry isn't reached by the traversal above)
+    if (this.markerLayer) {
+      this.markerLayer.dispose();
+      this.markerLayer = null;
     }
 
-    // Dispose of Longitude lines resources
-    if (this.longitudeLinesGroup) {
-      this.longitudeLinesGroup.traverse((object) => {
-        if (object instanceof THREE.Line) {
-          object.geometry.dispose();
-          if (object.material instanceof THREE.Material) {
-            object.material.dispose();
-          } else if (Array.isArray(object.material)) {
-            object.material.forEach(material => material.dispose());
-          }
-        }
-      });
-      // No need to remove from scene if it's a child of earthMesh which is handled by scene.traverse
-    }
-
-    // Dispose of Latitude lines resources
-    if (this.latitudeLinesGroup) {
-      this.latitudeLinesGroup.traverse((object) => {
-        if (object instanceof THREE.Line) {
-          object.geometry.dispose();
-          if (object.material instanceof THREE.Material) {
-            object.material.dispose();
-          } else if (Array.isArray(object.material)) {
-            object.material.forEach(material => material.dispose());
-          }
-        }
-      });
+    // Dispose of the tiled globe
+    if (this.tiledGlobe) {
+      this.tiledGlobe.dispose();
+      this.tiledGlobe = null;
+    }
+
+    // Dispose of satellites
+    if (this.satelliteLayer) {
+      this.satelliteLayer.dispose();
+      this.satelliteLayer = null;
+    }
+
+    // Remove label renderer from DOM
+    if (this.labelRenderer.domElement.parentNode) {
+      this.labelRenderer.domElement.parentNode.removeChild(this.labelRenderer.domElement);
     }
 
     // Remove Stats.js DOM element
@@ -525,36 +1060,775 @@ export class Scene3D {
     // REMOVED: window.removeEventListener('resize', () => this.onWindowResize());
   }
 
-  // Method to toggle Earth's pole visibility
-  public togglePoleVisibility(visible: boolean): void {
-    if (this.earthPole) {
-      this.earthPole.visible = visible;
+  // Object a layer in the given frame is added to (see LayerFrame)
+  public getLayerFrame(frame: LayerFrame): THREE.Object3D {
+    switch (frame) {
+      case 'system':
+        return this.earthSystem;
+      case 'body':
+        return this.earthMesh;
+      case 'earthFixed':
+        return this.earthFixedFrame;
+    }
+  }
+
+  // Graticule interval in degrees for both meridians and parallels, or 'auto' to densify
+  // from the configured steps as the camera zooms in
+  public setGraticuleStep(step: GraticuleStep): void {
+    if (step !== 'auto' && !(step >= MIN_GRATICULE_STEP && step <= 90)) {
+      throw new Error(`Graticule step must be 'auto' or from ${MIN_GRATICULE_STEP} to 90 degrees, got ${step}`);
+    }
+    this.graticuleStep = step;
+    this.graticule.forEach(layer => layer.setStep(step));
+    this.requestRender();
+  }
+
+  public getGraticuleStep(): GraticuleStep {
+    return this.graticuleStep;
+  }
+
+  // Set the UTC date/time the Sun and Earth orientation are computed for
+  public setSimulationDate(date: Date): void {
+    this.simulationClock.setDate(date); // Ephemeris updates via the clock's change event
+  }
+
+  public getSimulationDate(): Date {
+    return this.simulationClock.getDate();
+  }
+
+  public getSimulationClock(): SimulationClock {
+    return this.simulationClock;
+  }
+
+  public getSolarPosition(): SolarPosition | null {
+    return this.solarPosition;
+  }
+
+  public getLunarPosition(): LunarPosition | null {
+    return this.lunarPosition;
+  }
+
+  // Set the simulation time to the next full moon and return it
+  public jumpToNextFullMoon(): Date {
+    const date = findNextLunarPhase(this.simulationClock.getDate(), 'full');
+    this.simulationClock.setDate(date);
+    return date;
+  }
+
+  // Set the simulation time to the middle of the next lunar or solar eclipse
+  public jumpToNextEclipse(): EclipseEvent {
+    const eclipse = findNextEclipse(this.simulationClock.getDate());
+    this.simulationClock.setDate(eclipse.date);
+    return eclipse;
+  }
+
+  // World-space position of a geodetic coordinate (degrees, meters) on the rotating, tilted Earth
+  public geodeticToScene(latitude: number, longitude: number, altitude: number = 0): THREE.Vector3 {
+    const local = geodeticToEcef(latitude, longitude, altitude).divideScalar(this.SCALE_FACTOR);
+    // Through the same frame as the overlays, so picks and markers agree on any body
+    this.earthFixedFrame.updateWorldMatrix(true, false);
+    return this.earthFixedFrame.localToWorld(local);
+  }
+
+  // Geodetic coordinate of a world-space position (inverse of geodeticToScene)
+  public sceneToGeodetic(point: THREE.Vector3): GeodeticPosition {
+    this.earthFixedFrame.updateWorldMatrix(true, false);
+    const local = this.earthFixedFrame.worldToLocal(point.clone());
+    return ecefToGeodetic(local.multiplyScalar(this.SCALE_FACTOR));
+  }
+
+  // Geodetic coordinate of the globe under a client (viewport) coordinate, or null if it misses
+  public pickGeodetic(clientX: number, clientY: number): GeodeticPosition | null {
+    const point = this.raycastEarth(clientX, clientY);
+    return point ? this.sceneToGeodetic(point) : null;
+  }
+
+  // Geodetic coordinate of the globe at the centre of the view, or null if it's off the globe
+  public getViewCenter(): GeodeticPosition | null {
+    this.raycaster.setFromCamera(new THREE.Vector2(0, 0), this.camera);
+    const hits = this.raycaster.intersectObject(this.earthMesh, false);
+    return hits.length > 0 ? this.sceneToGeodetic(hits[0].point) : null;
+  }
+
+  // Views for the number keys, 1 to 9
+  public setViewPresets(presets: ViewPreset[]): void {
+    this.viewPresets = presets.slice(0, 9);
+  }
+
+  // True while the user asks for reduced motion (prefers-reduced-motion)
+  public prefersReducedMotion(): boolean {
+    return this.reducedMotion.matches;
+  }
+
+  // For layers that adapt to the view; don't move it directly, use setCameraState() or flyTo()
+  public getCamera(): THREE.PerspectiveCamera {
+    return this.camera;
+  }
+
+  // Camera height above the WGS84 ellipsoid, meters
+  public getCameraAltitude(): number {
+    return this.sceneToGeodetic(this.camera.position).altitude;
+  }
+
+  public getCameraState(): { position: THREE.Vector3; target: THREE.Vector3 } {
+    return {
+      position: this.camera.position.clone(),
+      target: this.controls.getTarget(new THREE.Vector3()),
+    };
+  }
+
+  // Jump the camera to a position/target (world space) without transition
+  public setCameraState(position: THREE.Vector3, target: THREE.Vector3): void {
+    this.endCameraFlight();
+    this.stopTour();
+    this.controls.setLookAt(position.x, position.y, position.z, target.x, target.y, target.z, false);
+  }
+
+  // Smoothly move the camera to look at a location, or jump there if the user prefers
+  // reduced motion. The simulation clock is held for the flight so the globe doesn't turn
+  // away underneath; it resumes after the usual delay. Resolves when the flight ends,
+  // including when the user grabs the controls.
+  public flyTo(options: FlyToOptions): Promise<void> {
+    const altitude = (options.altitude ?? 2000000) / this.SCALE_FACTOR;
+    const heading = THREE.MathUtils.degToRad(options.heading ?? 0);
+    const tilt = THREE.MathUtils.degToRad(THREE.MathUtils.clamp(options.tilt ?? 0, 0, 89));
+
+    this.endCameraFlight();
+    this.stopTour();
+    this.simulationClock.hold();
+
+    // Local east/north/up at the destination, in world space
+    const target = this.geodeticToScene(options.lat, options.lon, 0);
+    const up = this.geodeticToScene(options.lat, options.lon, 1000).sub(target).normalize();
+    const northPoint = this.geodeticToScene(Math.min(options.lat + 0.01, 90), options.lon, 0);
+    const north = northPoint.sub(target).projectOnPlane(up).normalize();
+    if (north.lengthSq() === 0) {
+      north.set(0, 0, -1).applyQuaternion(this.earthSystem.quaternion); // At the pole any direction will do
+    }
+    const east = new THREE.Vector3().crossVectors(north, up);
+    const facing = north.multiplyScalar(Math.cos(heading)).addScaledVector(east, Math.sin(heading));
+    const position = target.clone()
+      .addScaledVector(up, Math.cos(tilt) * altitude)
+      .addScaledVector(facing, -Math.sin(tilt) * altitude);
+
+    const from = { position: this.camera.position.clone(), target: this.controls.getTarget(new THREE.Vector3()) };
+    const center = this.earthSystem.getWorldPosition(new THREE.Vector3());
+    const duration = this.prefersReducedMotion() ? 0 : options.duration ?? 2;
+    const flight = new CameraFlight(from, { position, target }, center, duration, this.options.body.equatorialRadius / this.SCALE_FACTOR);
+
+    return new Promise(resolve => {
+      this.cameraFlight = { flight, resolve };
+    });
+  }
+
+  private endCameraFlight(): void {
+    if (this.cameraFlight) {
+      this.cameraFlight.resolve();
+      this.cameraFlight = null;
+    }
+  }
+
+  // The current view, time and layer visibility as a tour keyframe with default timing
+  public captureKeyframe(caption: string = ''): TourKeyframe {
+    const { position, target } = this.getCameraState();
+    return {
+      position: position.toArray(),
+      target: target.toArray(),
+      date: this.simulationClock.getDate().toISOString(),
+      layers: Object.fromEntries(this.layers.list().map(layer => [layer.id, layer.isVisible()])),
+      duration: DEFAULT_KEYFRAME_DURATION,
+      hold: DEFAULT_KEYFRAME_HOLD,
+      easing: 'easeInOut',
+      caption,
+    };
+  }
+
+  // Play a tour from a keyframe, replacing any tour or flyTo() in progress. The simulation
+  // clock is held and driven by the tour; grabbing the controls pauses it (see resumeTour()).
+  public playTour(tour: Tour, fromIndex: number = 0): void {
+    const center = this.earthSystem.getWorldPosition(new THREE.Vector3());
+    const player = new TourPlayer(tour, center, this.options.body.equatorialRadius / this.SCALE_FACTOR,
+      THREE.MathUtils.clamp(fromIndex, 0, tour.keyframes.length - 1), this.prefersReducedMotion());
+    this.endCameraFlight();
+    this.tour = { tour, player, paused: false, interrupted: false };
+    this.simulationClock.hold();
+  }
+
+  public pauseTour(): void {
+    if (!this.tour || this.tour.paused) return;
+    this.tour.paused = true;
+    this.dispatchTourState();
+  }
+
+  // Continue a paused tour; after the user has moved the camera it flies back to the
+  // keyframe it was heading for
+  public resumeTour(): void {
+    if (!this.tour?.paused) return;
+    if (this.tour.interrupted) {
+      this.tour.player.restartKeyframe(this.getCameraState(), this.simulationClock.getTime());
+    }
+    this.tour.paused = false;
+    this.tour.interrupted = false;
+    this.endCameraFlight();
+    this.simulationClock.hold();
+    this.dispatchTourState();
+  }
+
+  // End the tour where it is; the clock resumes after the usual delay
+  public stopTour(): void {
+    if (!this.tour) return;
+    this.tour = null;
+    this.simulationClock.release();
+    this.dispatchTourState();
+  }
+
+  public getTourState(): TourState {
+    return this.tour ? (this.tour.paused ? 'paused' : 'playing') : 'stopped';
+  }
+
+  private dispatchTourState(): void {
+    const index = this.tour?.player.getIndex() ?? -1;
+    const caption = this.tour && index >= 0 ? this.tour.tour.keyframes[index].caption : '';
+    this.dispatchEvent({ type: 'tour', state: this.getTourState(), index, caption });
+  }
+
+  // Pin a named location on the globe; re-using an id replaces the marker
+  public addMarker(options: MarkerOptions): void {
+    this.markerLayer?.add(options);
+    this.requestRender();
+  }
+
+  public removeMarker(id: string): boolean {
+    const removed = this.markerLayer?.remove(id) ?? false;
+    this.requestRender();
+    return removed;
+  }
+
+  public getMarkers(): MarkerOptions[] {
+    return this.markerLayer?.list() ?? [];
+  }
+
+  // Bulk load markers from a JSON array of MarkerOptions
+  public async loadMarkers(url: string): Promise<MarkerOptions[]> {
+    if (!this.markerLayer) {
+      throw new Error('Scene3D.loadMarkers() called before initialize()');
+    }
+    const markers = await this.markerLayer.load(url);
+    this.requestRender();
+    return markers;
+  }
+
+  // 'distance' or 'area' turns globe clicks into measurement points; 'off' (or switching
+  // kind) drops an unfinished measurement
+  public setMeasureMode(mode: MeasureMode): void {
+    if (mode === this.measureMode) return;
+    this.measureMode = mode;
+    if (this.measurementLayer?.getDraftPoints().length) {
+      this.measurementLayer.cancel();
+      this.dispatchMeasurementChange(null);
+    }
+  }
+
+  public getMeasureMode(): MeasureMode {
+    return this.measureMode;
+  }
+
+  // Complete the area being clicked (a distance completes on its own)
+  public finishMeasurement(): Measurement | null {
+    try {
+      const measurement = this.measurementLayer?.finish() ?? null;
+      this.dispatchMeasurementChange(null);
+      return measurement;
+    } catch (error) {
+      this.dispatchMeasurementChange(error as Error);
+      return null;
+    }
+  }
+
+  public getMeasurements(): Measurement[] {
+    return this.measurementLayer?.list() ?? [];
+  }
+
+  // Points of the measurement being clicked
+  public getMeasurementDraft(): LatLon[] {
+    return this.measurementLayer?.getDraftPoints() ?? [];
+  }
+
+  public removeMeasurement(id: string): boolean {
+    const removed = this.measurementLayer?.remove(id) ?? false;
+    if (removed) {
+      this.dispatchMeasurementChange(null);
+    }
+    return removed;
+  }
+
+  public clearMeasurements(): void {
+    this.measurementLayer?.clear();
+    this.dispatchMeasurementChange(null);
+  }
+
+  private dispatchMeasurementChange(error: Error | null): void {
+    this.requestRender();
+    this.dispatchEvent({ type: 'measurementchange', error });
+  }
+
+  private addMeasurementPoint(kind: MeasureKind, point: LatLon): void {
+    try {
+      this.measurementLayer?.addPoint(kind, point);
+      this.dispatchMeasurementChange(null);
+    } catch (error) {
+      this.dispatchMeasurementChange(error as Error);
+    }
+  }
+
+  // Drape a parsed GeoJSON object on the globe; re-using an id replaces that overlay
+  public addGeoJson(id: string, data: unknown, options?: GeoJsonLayerOptions): GeoJsonLayer {
+    const layer = new GeoJsonLayer(id, this.SCALE_FACTOR, data, options);
+    this.layers.register(layer);
+    return layer;
+  }
+
+  // Fetch a GeoJSON file (e.g. from public/) and add it as an overlay
+  public async loadGeoJson(id: string, url: string, options?: GeoJsonLayerOptions): Promise<GeoJsonLayer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load GeoJSON from ${url}: ${response.status} ${response.statusText}`);
+    }
+    return this.addGeoJson(id, await response.json(), options);
+  }
+
+  public removeGeoJson(id: string): boolean {
+    return this.layers.unregister(geoJsonLayerId(id));
+  }
+
+  public toggleGeoJsonVisibility(id: string, visible: boolean): void {
+    this.layers.setVisible(geoJsonLayerId(id), visible);
+  }
+
+  // Load satellites from a local TLE file, replacing any loaded before. Element sets the
+  // propagator can't handle (deep-space orbits) are skipped and listed in the result.
+  public async loadSatellites(url: string): Promise<SatelliteLoadResult> {
+    if (!this.satelliteLayer) {
+      throw new Error('Scene3D.loadSatellites() called before initialize()');
+    }
+    const result = await this.satelliteLayer.load(url);
+    this.requestRender();
+    return result;
+  }
+
+  // Same as loadSatellites(), for the text of a TLE file the user picked
+  public loadSatelliteElements(text: string): SatelliteLoadResult {
+    if (!this.satelliteLayer) {
+      throw new Error('Scene3D.loadSatelliteElements() called before initialize()');
+    }
+    const result = this.satelliteLayer.setElements(parseTle(text));
+    this.requestRender();
+    return result;
+  }
+
+  // Name, position and speed of a satellite at the current simulation time
+  public getSatelliteState(id: string): SatelliteState | null {
+    return this.satelliteLayer?.getState(id, this.simulationClock.getDate()) ?? null;
+  }
+
+  public toggleSatellitesVisibility(visible: boolean): void {
+    this.satelliteLayer?.setVisible(visible);
+    this.requestRender();
+  }
+
+  public toggleOrbitPathsVisibility(visible: boolean): void {
+    this.satelliteLayer?.setOrbitsVisible(visible);
+    this.requestRender();
+  }
+
+  public toggleGroundTracksVisibility(visible: boolean): void {
+    this.satelliteLayer?.setGroundTracksVisible(visible);
+    this.requestRender();
+  }
+
+  // Load again whatever failed; 'ready' fires once more when those settle
+  public retryFailedAssets(): void {
+    this.assets.retry();
+  }
+
+  public getAssetProgress(): AssetProgress {
+    return this.assets.getProgress();
+  }
+
+  // A texture from the asset manifest at the largest size the GPU takes, else fallbackUrl.
+  // Like TextureLoader.load() it is returned at once and filled in when the image arrives;
+  // if it can't be loaded it becomes a flat placeholder colour until a retry succeeds.
+  private loadTexture(name: TextureName, fallbackUrl: string | null): THREE.Texture {
+    const texture = new THREE.Texture();
+    const { label, placeholder } = TEXTURE_ASSETS[name];
+    if (!fallbackUrl) {
+      replaceTextureImage(texture, solidColorImage(placeholder)); // Not configured
+      return texture;
+    }
+    const url = this.assetManifest.then(manifest => {
+      const levels = manifest?.textures[name]?.levels ?? [];
+      const level = pickLevel(levels, level => level.width, this.renderer.capabilities.maxTextureSize);
+      return level?.url ?? fallbackUrl;
+    });
+    this.assets.loadImage(
+      label,
+      url,
+      image => replaceTextureImage(texture, image),
+      () => replaceTextureImage(texture, solidColorImage(placeholder))
+    );
+    return texture;
+  }
+
+  // The skybox counterpart of loadTexture(), faces in CubeTextureLoader order. Any face
+  // missing turns the whole sky black rather than leaving a hole.
+  private loadSkybox(fallbackUrls: string[] | null): THREE.CubeTexture | THREE.Color {
+    if (!fallbackUrls) {
+      return new THREE.Color(0x000000);
+    }
+    const texture = new THREE.CubeTexture();
+    texture.colorSpace = THREE.SRGBColorSpace;
+    const urls = this.assetManifest.then(manifest => {
+      const levels = manifest?.skybox?.levels ?? [];
+      const level = pickLevel(levels, level => level.size, this.renderer.capabilities.maxCubemapSize);
+      return level?.faces ?? fallbackUrls;
+    });
+    const faces: (HTMLImageElement | null)[] = fallbackUrls.map(() => null);
+    const black = solidColorImage(0x000000);
+    ['+x', '-x', '+y', '-y', '+z', '-z'].forEach((axis, index) => {
+      this.assets.loadImage(
+        `Sky (${axis})`,
+        urls.then(list => list[index]),
+        image => {
+          faces[index] = image;
+          if (faces.every(face => face !== null)) replaceTextureImage(texture, faces);
+        },
+        () => replaceTextureImage(texture, faces.map(() => black))
+      );
+    });
+    return texture;
+  }
+
+  private handleAssetProgress = (event: { progress: AssetProgress }): void => {
+    this.requestRender(); // A texture arrived or fell back to its placeholder
+    this.dispatchEvent({ type: 'assetprogress', progress: event.progress });
+  };
+
+  private handleAssetsReady = (event: { failed: AssetStatus[] }): void => {
+    this.dispatchEvent({ type: 'ready', failed: event.failed });
+  };
+
+  // Switch between the single-texture globe and the quadtree of local imagery tiles. Until
+  // there are tiles (hasTiledGlobe()) the choice is only remembered.
+  public toggleTiledGlobe(enabled: boolean): void {
+    this.tiledGlobeWanted = enabled;
+    if (enabled && !this.tiledGlobe && this.tiledGlobeOptions) {
+      const options = { ...this.tiledGlobeOptions, exaggeration: this.terrainExaggeration };
+      this.tiledGlobe = new TiledGlobe(this.earthFixedFrame, this.SCALE_FACTOR, options);
+    }
+    this.tiledGlobe?.setVisible(enabled);
+    this.updateBaseGlobeVisibility();
+    this.requestRender();
+  }
+
+  // Point the tiled globe at tile pyramids (the asset pipeline's are picked up from its
+  // manifest); tiles already loaded are dropped
+  public setTiledGlobeOptions(options: TiledGlobeOptions): void {
+    this.tiledGlobeOptions = options;
+    if (options.exaggeration !== undefined) {
+      this.terrainExaggeration = options.exaggeration;
+    }
+    if (this.tiledGlobe) {
+      this.tiledGlobe.dispose();
+      this.tiledGlobe = null;
     }
+    this.toggleTiledGlobe(this.tiledGlobeWanted);
+    this.dispatchEvent({ type: 'tiledglobe', available: true, error: null });
+  }
+
+  public hasTiledGlobe(): boolean {
+    return this.tiledGlobeOptions !== null;
+  }
+
+  // Vertical scale applied to the elevation tiles
+  public setTerrainExaggeration(factor: number): void {
+    this.terrainExaggeration = factor;
+    this.tiledGlobe?.setExaggeration(factor);
+    this.requestRender();
   }
 
-  // Method to toggle Equator line visibility
-  public toggleEquatorVisibility(visible: boolean): void {
-    if (this.equatorLine) {
-      this.equatorLine.visible = visible;
+  // Hide the base Earth (but not its children: clouds, overlays) while tiles cover it
+  private updateBaseGlobeVisibility(): void {
+    const covered = !!this.tiledGlobe && this.tiledGlobe.isVisible() && this.tiledGlobe.isReady();
+    if (this.earthDayNightMaterial) {
+      this.earthDayNightMaterial.visible = !covered;
     }
+    if (this.earthStandardMaterial) {
+      this.earthStandardMaterial.visible = !covered;
+    }
+  }
+
+  // Meters represented by one scene unit
+  public getScaleFactor(): number {
+    return this.SCALE_FACTOR;
   }
 
-  // Method to toggle Longitude lines visibility
-  public toggleLongitudeLinesVisibility(visible: boolean): void {
-    if (this.longitudeLinesGroup) {
-      this.longitudeLinesGroup.visible = visible;
+  public toggleMoonVisibility(visible: boolean): void {
+    this.moon?.setVisible(visible);
+    this.updateEphemeris(); // A hidden Moon casts no shadow
+    this.requestRender();
+  }
+
+  // Moon shadow on the Earth and Earth shadow on the Moon
+  public toggleEclipseShadows(enabled: boolean): void {
+    this.eclipseShadowsEnabled = enabled;
+    this.updateEphemeris();
+    this.requestRender();
+  }
+
+  // Switch between the day/night terminator shader and the plain standard material
+  public setEarthShading(shading: EarthShading): void {
+    const material = shading === 'daynight' ? this.earthDayNightMaterial : this.earthStandardMaterial;
+    if (material) {
+      this.earthMesh.material = material;
     }
+    this.requestRender();
+  }
+
+  public getEarthShading(): EarthShading {
+    return this.earthMesh.material === this.earthStandardMaterial ? 'standard' : 'daynight';
   }
 
-  public toggleLatitudeLinesVisibility(visible: boolean): void {
-    if (this.latitudeLinesGroup) {
-      this.latitudeLinesGroup.visible = visible;
+  // Move the Sun to its presentation distance or to true scale, animated over a few
+  // seconds unless `animate` is false or the user prefers reduced motion. The Earth,
+  // Moon and camera stay where they are.
+  public setSolarScale(scale: SolarScale, animate: boolean = true): void {
+    this.solarScale = scale;
+    this.solarScaleTransition = new SolarScaleTransition(
+      this.solarScaleBlend,
+      scale === 'true' ? 1 : 0,
+      animate && !this.prefersReducedMotion() ? SOLAR_SCALE_DURATION : 0
+    );
+    if (this.solarScaleTransition.isFinished()) {
+      this.solarScaleBlend = this.solarScaleTransition.step(0);
+      this.solarScaleTransition = null;
+      this.updateEphemeris();
+      this.requestRender();
     }
   }
 
+  public getSolarScale(): SolarScale {
+    return this.solarScale;
+  }
+
+  public setRenderMode(mode: RenderMode): void {
+    this.renderMode = mode;
+    this.requestRender();
+  }
+
+  public getRenderMode(): RenderMode {
+    return this.renderMode;
+  }
+
+  // Draw the next frame even on demand, e.g. after changing scene objects directly
+  public requestRender(): void {
+    this.needsRender = true;
+  }
+
+  // Lower pixel ratio, globe detail and shader effects while frames run slow, and raise
+  // them again with headroom. Switching it off goes back to full quality.
+  public setAdaptiveQuality(enabled: boolean): void {
+    if (enabled === (this.adaptiveQuality !== null)) return;
+    this.adaptiveQuality = enabled ? new AdaptiveQuality() : null;
+    if (!enabled) {
+      this.applyQuality(QUALITY_LEVELS.length - 1);
+    }
+  }
+
+  public isAdaptiveQualityEnabled(): boolean {
+    return this.adaptiveQuality !== null;
+  }
+
+  public getQuality(): QualityLevel {
+    return QUALITY_LEVELS[this.qualityLevel];
+  }
+
+  // Half-width of the twilight band in degrees of solar elevation
+  public setTwilightWidth(degrees: number): void {
+    this.earthDayNightMaterial?.setTwilightWidth(degrees);
+    this.requestRender();
+  }
+
+  // Snapshot of the view, time, layers, markers and GeoJSON overlays (see SceneProject)
+  public toProject(name: string): SceneProject {
+    const { position, target } = this.getCameraState();
+    return {
+      version: PROJECT_VERSION,
+      name,
+      savedAt: new Date().toISOString(),
+      camera: { position: position.toArray(), target: target.toArray() },
+      time: {
+        date: this.simulationClock.getDate().toISOString(),
+        rate: this.simulationClock.getRate(),
+        reversed: this.simulationClock.isReversed(),
+        paused: this.simulationClock.isPaused(),
+      },
+      layers: this.layers.list().map(layer => ({ id: layer.id, visible: layer.isVisible(), opacity: layer.getOpacity() })),
+      markers: this.getMarkers(),
+      geoJson: this.layers.list()
+        .filter((layer): layer is GeoJsonLayer => layer instanceof GeoJsonLayer)
+        .map(layer => ({ id: layer.sourceId, data: layer.data })),
+      display: { earthShading: this.getEarthShading(), graticuleStep: this.graticuleStep, solarScale: this.solarScale },
+    };
+  }
+
+  // Restore a project saved by toProject(), replacing the current markers and GeoJSON
+  // overlays. Throws without changing anything if the file is invalid; layers it names
+  // that this scene doesn't have are skipped.
+  public loadProject(json: unknown, source?: string): SceneProject {
+    const project = parseProject(json, source);
+
+    // Build the overlays before touching the scene: invalid GeoJSON only shows up here
+    const overlays: GeoJsonLayer[] = [];
+    for (const overlay of project.geoJson) {
+      try {
+        overlays.push(new GeoJsonLayer(overlay.id, this.SCALE_FACTOR, overlay.data));
+      } catch (error) {
+        overlays.forEach(layer => layer.dispose());
+        throw new Error(`${source ?? 'Project'} is invalid: GeoJSON overlay "${overlay.id}": ${(error as Error).message}`);
+      }
+    }
+
+    this.simulationClock.setDate(new Date(project.time.date));
+    this.simulationClock.setRate(project.time.rate);
+    this.simulationClock.setReversed(project.time.reversed);
+    if (project.time.paused) {
+      this.simulationClock.pause();
+    } else {
+      this.simulationClock.play();
+    }
+    this.setCameraState(new THREE.Vector3(...project.camera.position), new THREE.Vector3(...project.camera.target));
+
+    this.markerLayer?.clear();
+    this.markerLayer?.addAll(project.markers);
+
+    this.layers.list()
+      .filter((layer): layer is GeoJsonLayer => layer instanceof GeoJsonLayer)
+      .forEach(layer => this.layers.unregister(layer.id));
+    overlays.forEach(layer => this.layers.register(layer));
+
+    const saved = project.layers.filter(entry => this.layers.get(entry.id));
+    saved.forEach(entry => {
+      this.layers.setVisible(entry.id, entry.visible);
+      this.layers.setOpacity(entry.id, entry.opacity);
+    });
+    // Put the saved layers back in their saved order, in the slots they occupy now, so
+    // layers the project doesn't know about keep their place
+    const savedIds = new Set(saved.map(entry => entry.id));
+    const order = [...saved];
+    this.layers.list()
+      .map(layer => (savedIds.has(layer.id) ? order.shift()!.id : layer.id))
+      .forEach((id, index) => this.layers.move(id, index));
+
+    this.setGraticuleStep(project.display.graticuleStep);
+    this.setEarthShading(project.display.earthShading);
+    this.setSolarScale(project.display.solarScale ?? 'presentation', false); // The saved camera may rely on it
+    return project;
+  }
+
+  // The visible scene as glTF (JSON with embedded textures) or GLB, e.g. for Blender.
+  // Shader materials have no glTF equivalent, so the Earth is exported with its standard
+  // material and the atmosphere shell is left out. That happens on a copy of the scene
+  // (sharing geometry and materials), so the live view doesn't change meanwhile.
+  public async exportGltf(binary: boolean): Promise<Blob> {
+    const originals: THREE.Object3D[] = [];
+    this.scene.traverse(object => originals.push(object));
+    const copy = this.scene.clone();
+    const unsupported: THREE.Object3D[] = [];
+    let index = 0;
+    copy.traverse(object => {
+      const original = originals[index++]; // clone() keeps the order of children
+      if (original === this.earthMesh && this.earthStandardMaterial) {
+        (object as THREE.Mesh).material = this.earthStandardMaterial;
+      } else if (object instanceof THREE.Mesh && object.material instanceof THREE.ShaderMaterial) {
+        unsupported.push(object);
+      }
+    });
+    unsupported.forEach(object => object.removeFromParent());
+
+    const result = await new GLTFExporter().parseAsync(copy, { binary, onlyVisible: true, maxTextureSize: 4096 });
+    return result instanceof ArrayBuffer
+      ? new Blob([result], { type: 'model/gltf-binary' })
+      : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+  }
+
+  // Render the current view as a PNG, at any size up to MAX_CAPTURE_SIZE. HTML labels
+  // (markers, degree labels) are not part of the canvas and don't appear in it.
+  public async captureImage(options: CaptureOptions = {}): Promise<Blob> {
+    const canvas = this.renderer.domElement;
+    const { width, height } = resolveCaptureSize(options, canvas.clientWidth, canvas.clientHeight);
+    const background = this.scene.background;
+    const clearAlpha = this.renderer.getClearAlpha();
+    const pixelRatio = this.renderer.getPixelRatio();
+    if (options.transparent) {
+      this.scene.background = null;
+      this.renderer.setClearAlpha(0);
+    }
+
+    let image: HTMLCanvasElement;
+    try {
+      image = renderTiled(this.renderer, this.scene, this.camera, width, height);
+    } finally {
+      this.scene.background = background;
+      this.renderer.setClearAlpha(clearAlpha);
+      this.renderer.setPixelRatio(pixelRatio);
+      this.renderer.setSize(canvas.clientWidth, canvas.clientHeight, false);
+      this.requestRender(); // Resizing cleared the canvas
+    }
+    return canvasToBlob(image);
+  }
+
+  // Record the canvas to WebM until stopRecording(); see SceneRecorder for the fixed step
+  public startRecording(options?: RecordingOptions): void {
+    if (this.recorder) {
+      throw new Error('Already recording; call stopRecording() first');
+    }
+    this.recorder = new SceneRecorder(this.renderer.domElement, options);
+  }
+
+  public stopRecording(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+    this.recorder = null;
+    this.clock.getDelta(); // Don't count the recording's pacing against the next frame
+    return recorder.stop();
+  }
+
+  public isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
   public toggleStatsVisibility(visible: boolean): void { // Added method
     if (this.stats) {
       this.stats.dom.style.display = visible ? 'block' : 'none';
     }
   }
-}
\ No newline at end of file
+}
+
+// Geometric interpolation between two positive values
+function logLerp(from: number, to: number, t: number): number {
+  return from * Math.pow(to / from, t);
+}
+
+// Swap a texture's image(s), dropping the GPU copy first since the size may change (a
+// placeholder replaced by the real image after a retry)
+function replaceTextureImage(texture: THREE.Texture, image: TexImageSource | TexImageSource[]): void {
+  texture.dispose();
+  if (texture instanceof THREE.CubeTexture) {
+    texture.images = image;
+  } else {
+    texture.image = image;
+  }
+  texture.needsUpdate = true;
+}
@@ -0,0 +1,93 @@
+export interface RecordingOptions {
+  fps?: number; // default 30
+  fixedStep?: boolean; // Advance the scene exactly 1/fps per video frame, default true
+  mimeType?: string; // default the first supported of WEBM_TYPES
+  videoBitsPerSecond?: number; // default 8 Mbit/s
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Records a canvas to WebM with MediaRecorder.
+//
+// In fixed-step mode the scene asks frameDelta() how far to advance each animation frame:
+// frames are paced to the target rate and every one moves the clocks by exactly 1/fps, so
+// no frame skips ahead when rendering stalls. The video is stamped in real time, so a
+// machine that can't keep up gives a slower but still even recording.
+export class SceneRecorder {
+  readonly fps: number;
+  readonly fixedStep: boolean;
+  readonly mimeType: string;
+  private recorder: MediaRecorder;
+  private stream: MediaStream;
+  private chunks: Blob[] = [];
+  private pending: number = 0; // Real seconds since the last recorded frame
+  private stopped: Promise<Blob>;
+
+  constructor(canvas: HTMLCanvasElement, options: RecordingOptions = {}) {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('Recording is not supported in this browser (no MediaRecorder)');
+    }
+    this.fps = options.fps ?? 30;
+    this.fixedStep = options.fixedStep ?? true;
+    if (!(this.fps > 0 && this.fps <= 120)) {
+      throw new Error(`Recording frame rate must be from 1 to 120, got ${this.fps}`);
+    }
+    const mimeType = options.mimeType ?? WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType || !MediaRecorder.isTypeSupported(mimeType)) {
+      throw new Error(`Recording is not supported in this browser (no ${mimeType ?? 'WebM'} encoder)`);
+    }
+    this.mimeType = mimeType;
+
+    // With a fixed step frames are pushed one by one with requestFrame()
+    this.stream = canvas.captureStream(this.fixedStep ? 0 : this.fps);
+    this.recorder = new MediaRecorder(this.stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond ?? 8000000,
+    });
+    this.recorder.addEventListener('dataavailable', event => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    });
+    this.stopped = new Promise((resolve, reject) => {
+      this.recorder.addEventListener('stop', () => resolve(new Blob(this.chunks, { type: this.mimeType })));
+      this.recorder.addEventListener('error', () => reject(new Error('Recording failed')));
+    });
+    this.recorder.start(1000); // Hand over data every second rather than all at the end
+  }
+
+  // Seconds the scene should advance this animation frame, or null to skip rendering it
+  frameDelta(realDelta: number): number | null {
+    if (!this.fixedStep) {
+      return realDelta;
+    }
+    const step = 1 / this.fps;
+    this.pending += realDelta;
+    if (this.pending < step) {
+      return null;
+    }
+    this.pending = Math.min(this.pending - step, step); // Don't try to catch up after a stall
+    return step;
+  }
+
+  // Call after each rendered frame
+  frameRendered(): void {
+    if (this.fixedStep) {
+      const track = this.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack | undefined;
+      track?.requestFrame();
+    }
+  }
+
+  isRecording(): boolean {
+    return this.recorder.state === 'recording';
+  }
+
+  // Finish and resolve with the WebM file
+  stop(): Promise<Blob> {
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+      this.stream.getTracks().forEach(track => track.stop());
+    }
+    return this.stopped;
+  }
+}
@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+
+export interface SimulationClockEventMap {
+  change: {}; // Time jumped, rate changed, paused/resumed
+  tick: { delta: number }; // Time advanced by `delta` simulated seconds
+}
+
+// Preset speed multipliers offered by the timeline UI
+export const SIMULATION_RATES: readonly number[] = [1, 60, 3600, 86400];
+
+// Fastest rate accepted, a year per second; faster would soon run past the range of Date
+export const MAX_SIMULATION_RATE = 365.25 * 86400;
+
+// Simulated UTC time driving every time-dependent object in the scene.
+// Besides the explicit pause state the clock can be "held" while the user is
+// interacting with the camera; it resumes on its own after a period of inactivity.
+export class SimulationClock extends THREE.EventDispatcher<SimulationClockEventMap> {
+  private time: number; // UTC milliseconds
+  private rate: number = 1; // Simulated seconds per real second, always positive
+  private reversed: boolean = false;
+  private paused: boolean = false;
+  private held: boolean = false;
+  private resumeTimeoutId: number | null = null;
+
+  constructor(startTime: Date = new Date(), private readonly resumeDelay: number = 10000) {
+    super();
+    this.time = startTime.getTime();
+  }
+
+  // Advance by a real-time delta (seconds); returns the simulated delta in seconds
+  tick(realDelta: number): number {
+    if (!this.isRunning()) {
+      return 0;
+    }
+    const delta = realDelta * this.rate * (this.reversed ? -1 : 1);
+    this.time += delta * 1000;
+    this.dispatchEvent({ type: 'tick', delta });
+    return delta;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getDate(): Date {
+    return new Date(this.time);
+  }
+
+  setDate(date: Date): void {
+    this.time = date.getTime();
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  setRate(rate: number): void {
+    if (!(rate > 0 && rate <= MAX_SIMULATION_RATE)) {
+      throw new Error(`Simulation rate must be a number above 0 and at most ${MAX_SIMULATION_RATE}, got ${rate}`);
+    }
+    this.rate = rate;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  isReversed(): boolean {
+    return this.reversed;
+  }
+
+  setReversed(reversed: boolean): void {
+    this.reversed = reversed;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  play(): void {
+    this.paused = false;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  // True when time is actually advancing (not paused and not held by interaction)
+  isRunning(): boolean {
+    return !this.paused && !this.held;
+  }
+
+  // Suspend the clock while the user is interacting
+  hold(): void {
+    this.clearResumeTimeout();
+    this.held = true;
+  }
+
+  // End an interaction; the clock resumes after the inactivity delay
+  release(): void {
+    this.clearResumeTimeout();
+    this.resumeTimeoutId = window.setTimeout(() => {
+      this.resumeTimeoutId = null;
+      this.held = false;
+    }, this.resumeDelay);
+  }
+
+  dispose(): void {
+    this.clearResumeTimeout();
+  }
+
+  private clearResumeTimeout(): void {
+    if (this.resumeTimeoutId !== null) {
+      clearTimeout(this.resumeTimeoutId);
+      this.resumeTimeoutId = null;
+    }
+  }
+}
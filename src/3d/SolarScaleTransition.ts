@@ -0,0 +1,25 @@
+import { easeInOutCubic } from './CameraFlight';
+
+// A timed move of the Sun's layout blend, 0 for the compressed presentation layout and
+// 1 for true scale. Reversing mid-way starts from wherever the blend has got to.
+export class SolarScaleTransition {
+  private elapsed: number = 0;
+
+  constructor(
+    private from: number,
+    private to: number,
+    private duration: number, // seconds; 0 jumps straight to `to`
+    private ease: (t: number) => number = easeInOutCubic
+  ) {}
+
+  // Advance by `delta` seconds and return the blend for that moment
+  step(delta: number): number {
+    this.elapsed = Math.min(this.elapsed + delta, this.duration);
+    const t = this.duration > 0 ? this.ease(this.elapsed / this.duration) : 1;
+    return this.from + (this.to - this.from) * t;
+  }
+
+  isFinished(): boolean {
+    return this.elapsed >= this.duration;
+  }
+}
@@ -0,0 +1,477 @@
+import * as THREE from 'three';
+import { geodeticToEcef, WGS84 } from './geo/geodetic';
+import { decodeHeightmap, HeightEncoding, Heightmap, sampleHeight } from './tiles/heightmap';
+import { TileLoadQueue } from './tiles/TileLoadQueue';
+import {
+  childTiles,
+  formatTileUrl,
+  rootTiles,
+  tileCountX,
+  tileCountY,
+  tileId,
+  TileKey,
+  tileLatitude,
+  tileLongitude,
+  TileProjection,
+  TileScheme,
+} from './tiles/tiling';
+
+export interface TileSourceOptions {
+  url: string; // Template with {z}, {x} and {y} (or {-y}), e.g. '/tiles/imagery/{z}/{x}/{y}.jpg'
+  scheme?: TileScheme; // Row numbering, default 'xyz' (north first)
+  maxLevel?: number; // Deepest level in the pyramid, default 5
+}
+
+export interface ElevationSourceOptions extends TileSourceOptions {
+  encoding?: HeightEncoding; // default 'terrarium'
+  range?: [number, number]; // meters, for 'grayscale' tiles
+}
+
+export interface TiledGlobeOptions {
+  imagery: TileSourceOptions;
+  elevation?: ElevationSourceOptions | null;
+  projection?: TileProjection; // Shared by both pyramids, default 'geographic'
+  exaggeration?: number; // Elevation scale, default 1
+  maximumScreenSpaceError?: number; // pixels per texel before refining, default 2
+  tileSize?: number; // Imagery tile width in pixels, default 256
+  cacheSize?: number; // Loaded tiles kept before evicting, default 256
+  maxConcurrentLoads?: number; // default 6
+  segments?: number; // Grid cells along a tile edge, default 16
+}
+
+type TileState = 'empty' | 'loading' | 'ready' | 'failed';
+
+interface ElevationPatch {
+  map: Heightmap;
+  region: [number, number, number, number]; // u0, v0, u1, v1 of this tile within the map
+}
+
+interface Tile {
+  key: TileKey;
+  id: string;
+  center: THREE.Vector3; // Bounding sphere in the Earth-fixed frame (scene units)
+  radius: number;
+  geometricError: number; // Texel size in scene units
+  state: TileState;
+  texture: THREE.Texture | null;
+  elevation: ElevationPatch | null;
+  mesh: THREE.Mesh | null;
+  children: Tile[] | null;
+  lastUsed: number; // Update round the tile was last visited
+}
+
+const ROOT_PRIORITY = Number.MAX_VALUE;
+
+// Quadtree of ellipsoid patches textured from a local XYZ/TMS imagery pyramid, with
+// optional displacement from elevation tiles.
+//
+// Every update walks the tree from the root tiles: a tile is drawn when its texels
+// project to fewer than maximumScreenSpaceError pixels, otherwise its children are
+// drawn once all four have loaded (until then the parent stands in, so there are never
+// holes). Missing tiles are wanted in order of screen-space error, and loaded tiles
+// beyond cacheSize are evicted least-recently-used first. Patches live in the
+// Earth-fixed frame and share its ECEF coordinates with the other overlays.
+export class TiledGlobe {
+  private group: THREE.Group = new THREE.Group();
+  private roots: Tile[];
+  private queue: TileLoadQueue;
+  private textureLoader: THREE.TextureLoader = new THREE.TextureLoader();
+  private imageLoader: THREE.ImageLoader = new THREE.ImageLoader();
+  private heightmaps: Map<string, Promise<Heightmap | null>> = new Map(); // Keyed by elevation tile id
+  private readyTiles: Set<Tile> = new Set();
+  private renderedTiles: Set<Tile> = new Set();
+  private round: number = 0;
+  private disposed: boolean = false;
+
+  private readonly projection: TileProjection;
+  private readonly segments: number;
+  private readonly maxLevel: number;
+  private readonly elevationMaxLevel: number;
+  private exaggeration: number;
+
+  // Reused per update
+  private cameraLocal: THREE.Vector3 = new THREE.Vector3();
+  private frustum: THREE.Frustum = new THREE.Frustum();
+  private sphere: THREE.Sphere = new THREE.Sphere();
+  private matrix: THREE.Matrix4 = new THREE.Matrix4();
+  private sseFactor: number = 1;
+
+  constructor(
+    earthFixedFrame: THREE.Object3D,
+    private scaleFactor: number, // Meters per scene unit
+    private options: TiledGlobeOptions
+  ) {
+    this.projection = options.projection ?? 'geographic';
+    this.segments = options.segments ?? 16;
+    this.maxLevel = options.imagery.maxLevel ?? 5;
+    this.elevationMaxLevel = options.elevation?.maxLevel ?? this.maxLevel;
+    this.exaggeration = options.exaggeration ?? 1;
+    this.queue = new TileLoadQueue(options.maxConcurrentLoads ?? 6);
+
+    this.group.name = 'tiled-globe';
+    earthFixedFrame.add(this.group);
+    this.roots = rootTiles(this.projection).map(key => this.createTile(key));
+  }
+
+  // Choose and request tiles for the current view
+  update(camera: THREE.PerspectiveCamera, viewportHeight: number): void {
+    if (!this.group.visible || this.disposed) return;
+    this.round++;
+
+    // Work in the Earth-fixed frame: camera position and frustum planes brought into it
+    this.group.updateWorldMatrix(true, false);
+    this.cameraLocal.copy(camera.position);
+    this.group.worldToLocal(this.cameraLocal);
+    this.matrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse).multiply(this.group.matrixWorld);
+    this.frustum.setFromProjectionMatrix(this.matrix);
+    this.sseFactor = viewportHeight / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2));
+
+    this.renderedTiles.clear();
+    this.roots.forEach(root => {
+      this.requestTile(root, ROOT_PRIORITY); // Wanted even off-screen: they are the fallback everywhere
+      this.visit(root);
+    });
+    this.readyTiles.forEach(tile => {
+      tile.mesh!.visible = this.renderedTiles.has(tile);
+    });
+
+    this.queue.flush();
+    this.evict();
+  }
+
+  // True once the root tiles are loaded: from then on the tiles cover the whole globe
+  isReady(): boolean {
+    return this.roots.every(root => root.state === 'ready');
+  }
+
+  // True while tiles are queued or loading; update() has to keep being called to start them
+  isLoading(): boolean {
+    return this.queue.getPendingCount() > 0;
+  }
+
+  isVisible(): boolean {
+    return this.group.visible;
+  }
+
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  getExaggeration(): number {
+    return this.exaggeration;
+  }
+
+  // Rebuild the patches with a new elevation scale; bounding spheres grow with it
+  setExaggeration(exaggeration: number): void {
+    this.exaggeration = Math.max(0, exaggeration);
+    const refresh = (tile: Tile) => {
+      this.computeBoundingSphere(tile);
+      if (tile.mesh) {
+        tile.mesh.geometry.dispose();
+        tile.mesh.geometry = this.createGeometry(tile);
+        tile.mesh.position.copy(tile.center);
+      }
+      tile.children?.forEach(refresh);
+    };
+    this.roots.forEach(refresh);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.queue.clear();
+    Array.from(this.readyTiles).forEach(tile => this.unloadTile(tile));
+    this.heightmaps.clear();
+    this.group.removeFromParent();
+  }
+
+  private createTile(key: TileKey): Tile {
+    const tile: Tile = {
+      key,
+      id: tileId(key),
+      center: new THREE.Vector3(),
+      radius: 0,
+      geometricError: (2 * Math.PI * WGS84.a) / tileCountX(this.projection, key.z) / (this.options.tileSize ?? 256) / this.scaleFactor,
+      state: 'empty',
+      texture: null,
+      elevation: null,
+      mesh: null,
+      children: null,
+      lastUsed: 0,
+    };
+    this.computeBoundingSphere(tile);
+    return tile;
+  }
+
+  // Sphere around a grid of points over the tile, at sea level and at the highest terrain
+  private computeBoundingSphere(tile: Tile): void {
+    const points: THREE.Vector3[] = [];
+    const maxHeight = this.options.elevation ? 9000 * this.exaggeration : 0;
+    for (let j = 0; j <= 4; j++) {
+      for (let i = 0; i <= 4; i++) {
+        const lat = tileLatitude(this.projection, tile.key, j / 4);
+        const lon = tileLongitude(this.projection, tile.key, i / 4);
+        points.push(geodeticToEcef(lat, lon, 0).divideScalar(this.scaleFactor));
+        if (maxHeight > 0) {
+          points.push(geodeticToEcef(lat, lon, maxHeight).divideScalar(this.scaleFactor));
+        }
+      }
+    }
+    this.sphere.setFromPoints(points);
+    tile.center.copy(this.sphere.center);
+    tile.radius = this.sphere.radius;
+  }
+
+  private visit(tile: Tile): void {
+    tile.lastUsed = this.round;
+    if (!this.isTileVisible(tile)) return;
+
+    const distance = Math.max(this.cameraLocal.distanceTo(tile.center) - tile.radius, 1e-3);
+    const screenSpaceError = (tile.geometricError * this.sseFactor) / distance;
+
+    if (tile.state !== 'ready') {
+      this.requestTile(tile, screenSpaceError);
+      return;
+    }
+
+    const maxError = this.options.maximumScreenSpaceError ?? 2;
+    if (screenSpaceError <= maxError || tile.key.z >= this.maxLevel) {
+      this.renderedTiles.add(tile);
+      return;
+    }
+
+    // Refine only when every visible child can be drawn; meanwhile keep drawing this tile
+    const children = this.getChildren(tile);
+    const visibleChildren = children.filter(child => this.isTileVisible(child));
+    if (visibleChildren.every(child => child.state === 'ready')) {
+      children.forEach(child => this.visit(child));
+      return;
+    }
+
+    this.renderedTiles.add(tile);
+    children.forEach(child => {
+      child.lastUsed = this.round;
+      if (child.state === 'empty' && visibleChildren.includes(child)) {
+        this.requestTile(child, screenSpaceError);
+      }
+    });
+  }
+
+  private getChildren(tile: Tile): Tile[] {
+    if (!tile.children) {
+      tile.children = childTiles(tile.key).map(key => this.createTile(key));
+    }
+    return tile.children;
+  }
+
+  // In the view frustum and not entirely below the horizon
+  private isTileVisible(tile: Tile): boolean {
+    this.sphere.set(tile.center, tile.radius);
+    if (!this.frustum.intersectsSphere(this.sphere)) return false;
+
+    // Horizon test against a sphere of the polar radius, which is conservative for the ellipsoid
+    const earthRadius = WGS84.b / this.scaleFactor;
+    const cameraDistance = this.cameraLocal.length();
+    const centerDistance = tile.center.length();
+    if (cameraDistance <= earthRadius || centerDistance <= tile.radius) return true;
+
+    const horizonAngle = Math.acos(Math.min(earthRadius / cameraDistance, 1));
+    const tileAngle = Math.asin(Math.min(tile.radius / centerDistance, 1));
+    const beyondAngle = Math.acos(Math.min(earthRadius / centerDistance, 1));
+    return this.cameraLocal.angleTo(tile.center) <= horizonAngle + beyondAngle + tileAngle;
+  }
+
+  private requestTile(tile: Tile, priority: number): void {
+    if (tile.state !== 'empty') return;
+    this.queue.request(tile.id, priority, () => this.loadTile(tile));
+  }
+
+  private async loadTile(tile: Tile): Promise<void> {
+    if (tile.state !== 'empty' || this.disposed) return;
+    tile.state = 'loading';
+
+    try {
+      const url = formatTileUrl(this.options.imagery.url, this.options.imagery.scheme ?? 'xyz', tile.key);
+      const [texture, elevation] = await Promise.all([
+        this.textureLoader.loadAsync(url),
+        this.loadElevation(tile),
+      ]);
+      if (this.disposed) {
+        texture.dispose();
+        return;
+      }
+
+      texture.colorSpace = THREE.SRGBColorSpace;
+      texture.wrapS = THREE.ClampToEdgeWrapping;
+      texture.wrapT = THREE.ClampToEdgeWrapping;
+      tile.texture = texture;
+      tile.elevation = elevation;
+
+      const material = new THREE.MeshStandardMaterial({ map: texture, metalness: 0.2, roughness: 0.8 });
+      tile.mesh = new THREE.Mesh(this.createGeometry(tile), material);
+      tile.mesh.position.copy(tile.center);
+      tile.mesh.visible = false;
+      tile.mesh.name = `tile ${tile.id}`;
+      this.group.add(tile.mesh);
+
+      tile.state = 'ready';
+      this.readyTiles.add(tile);
+    } catch {
+      // Most often the pyramid simply has no tile here; the parent keeps covering the area
+      tile.state = 'failed';
+    }
+  }
+
+  // Heights for a tile, cut from the deepest elevation tile available at or above its level
+  private async loadElevation(tile: Tile): Promise<ElevationPatch | null> {
+    const source = this.options.elevation;
+    if (!source) return null;
+
+    const levels = Math.max(tile.key.z - this.elevationMaxLevel, 0);
+    const key = { z: tile.key.z - levels, x: tile.key.x >> levels, y: tile.key.y >> levels };
+    const id = tileId(key);
+
+    if (!this.heightmaps.has(id)) {
+      const url = formatTileUrl(source.url, source.scheme ?? 'xyz', key);
+      this.heightmaps.set(id, this.imageLoader.loadAsync(url)
+        .then(image => decodeHeightmap(image, source.encoding ?? 'terrarium', source.range))
+        .catch(() => null)); // No elevation there: flat
+      // Heightmaps are small; a simple cap keeps the cache from growing without bound
+      if (this.heightmaps.size > (this.options.cacheSize ?? 256)) {
+        this.heightmaps.delete(this.heightmaps.keys().next().value!);
+      }
+    }
+    const map = await this.heightmaps.get(id)!;
+    if (!map) return null;
+
+    const span = 2 ** levels;
+    const u0 = (tile.key.x - key.x * span) / span;
+    const v0 = (tile.key.y - key.y * span) / span;
+    return { map, region: [u0, v0, u0 + 1 / span, v0 + 1 / span] };
+  }
+
+  // Grid of (segments + 1)² vertices relative to the tile centre, plus skirts hanging
+  // from the edges to hide cracks where neighbours are at different levels
+  private createGeometry(tile: Tile): THREE.BufferGeometry {
+    const n = this.segments;
+    const rows = tileCountY(tile.key.z);
+    const grid: THREE.Vector3[] = [];
+    const uvs: number[] = [];
+
+    for (let j = 0; j <= n; j++) {
+      const v = j / n;
+      let lat = tileLatitude(this.projection, tile.key, v);
+      // Web Mercator stops short of the poles; stretch the outermost rows to close the gap
+      if (this.projection === 'mercator') {
+        if (tile.key.y === 0 && j === 0) lat = 90;
+        if (tile.key.y === rows - 1 && j === n) lat = -90;
+      }
+      for (let i = 0; i <= n; i++) {
+        const u = i / n;
+        const lon = tileLongitude(this.projection, tile.key, u);
+        const height = this.heightAt(tile, u, v) * this.exaggeration;
+        grid.push(geodeticToEcef(lat, lon, height).divideScalar(this.scaleFactor).sub(tile.center));
+        uvs.push(u, 1 - v); // Textures are flipped: v = 1 is the top row of the image
+      }
+    }
+
+    const at = (i: number, j: number) => grid[j * (n + 1) + i];
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const east = new THREE.Vector3();
+    const north = new THREE.Vector3();
+    for (let j = 0; j <= n; j++) {
+      for (let i = 0; i <= n; i++) {
+        const point = at(i, j);
+        east.subVectors(at(Math.min(i + 1, n), j), at(Math.max(i - 1, 0), j));
+        north.subVectors(at(i, Math.max(j - 1, 0)), at(i, Math.min(j + 1, n)));
+        const normal = east.clone().cross(north);
+        // Degenerate at a pole, where a whole row collapses to one point
+        if (normal.lengthSq() < 1e-12) {
+          normal.copy(point).add(tile.center);
+        }
+        normal.normalize();
+        positions.push(point.x, point.y, point.z);
+        normals.push(normal.x, normal.y, normal.z);
+      }
+    }
+
+    const indices: number[] = [];
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const a = j * (n + 1) + i;
+        const b = a + 1;
+        const c = a + n + 1;
+        const d = c + 1;
+        indices.push(a, c, b, b, c, d); // Counter-clockwise seen from outside
+      }
+    }
+
+    // Skirts: each edge vertex repeated further down, joined by quads facing both ways
+    const skirtDepth = tile.geometricError * 64;
+    const edges: number[][] = [[], [], [], []];
+    for (let k = 0; k <= n; k++) {
+      edges[0].push(k); // North
+      edges[1].push(n * (n + 1) + k); // South
+      edges[2].push(k * (n + 1)); // West
+      edges[3].push(k * (n + 1) + n); // East
+    }
+    edges.forEach(edge => {
+      const start = positions.length / 3;
+      edge.forEach(index => {
+        const down = new THREE.Vector3().fromArray(normals, index * 3).multiplyScalar(-skirtDepth);
+        positions.push(positions[index * 3] + down.x, positions[index * 3 + 1] + down.y, positions[index * 3 + 2] + down.z);
+        normals.push(normals[index * 3], normals[index * 3 + 1], normals[index * 3 + 2]);
+        uvs.push(uvs[index * 2], uvs[index * 2 + 1]);
+      });
+      for (let k = 0; k < edge.length - 1; k++) {
+        const top0 = edge[k];
+        const top1 = edge[k + 1];
+        const bottom0 = start + k;
+        const bottom1 = start + k + 1;
+        indices.push(top0, bottom0, top1, top1, bottom0, bottom1);
+        indices.push(top0, top1, bottom0, top1, bottom1, bottom0);
+      }
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+    geometry.computeBoundingSphere();
+    return geometry;
+  }
+
+  private heightAt(tile: Tile, u: number, v: number): number {
+    if (!tile.elevation) return 0;
+    const [u0, v0, u1, v1] = tile.elevation.region;
+    return sampleHeight(tile.elevation.map, u0 + u * (u1 - u0), v0 + v * (v1 - v0));
+  }
+
+  // Drop the least recently used tiles over the cache size; never roots, and nothing this
+  // update walked through. That keeps the ancestors of the tiles on screen, which visit()
+  // must pass to reach them, so a view needing more than cacheSize tiles overruns it.
+  private evict(): void {
+    const limit = this.options.cacheSize ?? 256;
+    if (this.readyTiles.size <= limit) return;
+
+    const candidates = Array.from(this.readyTiles)
+      .filter(tile => tile.key.z > 0 && tile.lastUsed < this.round)
+      .sort((a, b) => a.lastUsed - b.lastUsed || b.key.z - a.key.z);
+    candidates.slice(0, this.readyTiles.size - limit).forEach(tile => this.unloadTile(tile));
+  }
+
+  private unloadTile(tile: Tile): void {
+    if (tile.mesh) {
+      tile.mesh.geometry.dispose();
+      (tile.mesh.material as THREE.Material).dispose();
+      tile.mesh.removeFromParent();
+      tile.mesh = null;
+    }
+    tile.texture?.dispose();
+    tile.texture = null;
+    tile.elevation = null;
+    tile.state = 'empty';
+    this.readyTiles.delete(tile);
+  }
+}
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { CameraFlight, CameraPose } from './CameraFlight';
+import { Tour, TOUR_EASINGS, TourKeyframe } from './tour';
+
+export interface TourFrame {
+  pose: CameraPose;
+  time: number; // Simulation time, UTC milliseconds
+  index: number; // Keyframe being flown to or held at
+  entered: boolean; // True on the first frame of that keyframe: apply its layers and caption
+}
+
+// Steps through a tour: a CameraFlight to each keyframe with its easing, the simulation
+// time eased alongside, then the keyframe's hold. Driven by Scene3D's frame loop. With
+// `instant` (reduced motion) it cuts to each keyframe and holds for the flight time too,
+// so captions stay up as long as the author planned.
+export class TourPlayer {
+  private index: number = -1;
+  private flight: CameraFlight | null = null;
+  private fromTime: number = 0;
+  private holdElapsed: number = 0;
+
+  constructor(
+    private tour: Tour,
+    private center: THREE.Vector3, // Globe centre the flights swing around
+    private globeRadius: number, // scene units
+    private startIndex: number = 0,
+    private instant: boolean = false
+  ) {
+    if (tour.keyframes.length === 0) {
+      throw new Error(`Tour "${tour.name}" has no keyframes to play`);
+    }
+  }
+
+  // Advance by `delta` seconds from `current` (the camera pose and time right now), or
+  // return null once the last hold is over
+  step(delta: number, current: CameraPose, currentTime: number): TourFrame | null {
+    let entered = false;
+    if (this.index === -1) {
+      this.enter(this.startIndex, current, currentTime);
+      entered = true;
+    } else if (this.flight!.isFinished()) {
+      this.holdElapsed += delta;
+      const { duration, hold } = this.keyframe();
+      if (this.holdElapsed >= (this.instant ? duration + hold : hold)) {
+        if (this.index + 1 >= this.tour.keyframes.length) {
+          return null;
+        }
+        this.enter(this.index + 1, current, currentTime);
+        entered = true;
+      }
+    }
+
+    const pose = this.flight!.step(entered ? 0 : delta);
+    const keyframe = this.keyframe();
+    const time = THREE.MathUtils.lerp(this.fromTime, Date.parse(keyframe.date), this.flight!.progress());
+    return { pose, time, index: this.index, entered };
+  }
+
+  // Fly to the current keyframe again from wherever the camera is now, e.g. after the
+  // user moved it during a pause
+  restartKeyframe(current: CameraPose, currentTime: number): void {
+    if (this.index !== -1) {
+      this.enter(this.index, current, currentTime);
+    }
+  }
+
+  getIndex(): number {
+    return Math.max(this.index, this.startIndex);
+  }
+
+  private keyframe(): TourKeyframe {
+    return this.tour.keyframes[this.index];
+  }
+
+  private enter(index: number, current: CameraPose, currentTime: number): void {
+    this.index = index;
+    this.holdElapsed = 0;
+    this.fromTime = currentTime;
+    const keyframe = this.keyframe();
+    const to = {
+      position: new THREE.Vector3(...keyframe.position),
+      target: new THREE.Vector3(...keyframe.target),
+    };
+    const duration = this.instant ? 0 : keyframe.duration;
+    this.flight = new CameraFlight(current, to, this.center, duration, this.globeRadius, TOUR_EASINGS[keyframe.easing]);
+  }
+}
@@ -0,0 +1,172 @@
+import { TiledGlobeOptions } from './TiledGlobe';
+import { HeightEncoding } from './tiles/heightmap';
+import { TileProjection, TileScheme } from './tiles/tiling';
+import { check, describe, isNumber, isPlainObject } from './validation';
+
+// public/assets-manifest.json as written by the asset pipeline (scripts/assets.mjs). Every
+// entry is optional: the app falls back to the hand-placed files for anything missing,
+// and to all of them when the pipeline hasn't been run.
+export interface AssetManifest {
+  version: 1;
+  skybox: { levels: CubeLevel[] } | null;
+  textures: Partial<Record<TextureName, { levels: TextureLevel[] }>>;
+  tiles: {
+    imagery?: TilePyramid;
+    elevation?: TilePyramid & { encoding: HeightEncoding; range: [number, number] };
+  };
+}
+
+export type TextureName =
+  | 'earth-day'
+  | 'earth-night'
+  | 'earth-specular'
+  | 'earth-bump'
+  | 'earth-clouds'
+  | 'moon'
+  | 'sun';
+
+export interface TextureLevel {
+  width: number;
+  height: number;
+  url: string;
+}
+
+export interface CubeLevel {
+  size: number; // Face edge in pixels
+  faces: string[]; // px, nx, py, ny, pz, nz
+}
+
+export interface TilePyramid {
+  url: string;
+  projection: TileProjection;
+  scheme: TileScheme;
+  tileSize: number;
+  maxLevel: number;
+}
+
+// Resolves to null when there is no manifest (the pipeline hasn't been run). A dev server
+// with an SPA fallback answers a missing file with index.html, so anything that isn't
+// JSON counts as missing too.
+export async function loadAssetManifest(url: string): Promise<AssetManifest | null> {
+  const response = await fetch(url);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load asset manifest from ${url}: ${response.status} ${response.statusText}`);
+  }
+  if (!response.headers.get('content-type')?.includes('json')) {
+    return null;
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    return null;
+  }
+  return parseAssetManifest(json, `Asset manifest ${url}`);
+}
+
+// Check the shape of a parsed manifest, reporting all problems at once. Entries may carry
+// more than the app reads (the pipeline keeps its own bookkeeping in them).
+export function parseAssetManifest(json: unknown, source: string = 'Asset manifest'): AssetManifest {
+  if (!isPlainObject(json)) {
+    throw new Error(`${source} is invalid: expected a JSON object, got ${describe(json)}`);
+  }
+  if (json.version !== 1) {
+    throw new Error(`${source} has unsupported version ${describe(json.version)}`);
+  }
+
+  const problems: string[] = [];
+  const isSize = (value: unknown) => isNumber(value) && value > 0;
+  const isUrl = (value: unknown) => typeof value === 'string' && value.length > 0;
+  const levels = (value: unknown, path: string, checkLevel: (level: Record<string, unknown>, path: string) => void) => {
+    if (!check(problems, isPlainObject(value), path, 'an object', value)) return;
+    const list = (value as Record<string, unknown>).levels;
+    if (!check(problems, Array.isArray(list), `${path}.levels`, 'an array', list)) return;
+    (list as unknown[]).forEach((level, index) => {
+      const levelPath = `${path}.levels[${index}]`;
+      if (check(problems, isPlainObject(level), levelPath, 'an object', level)) {
+        checkLevel(level as Record<string, unknown>, levelPath);
+      }
+    });
+  };
+  const pyramid = (value: unknown, path: string): Record<string, unknown> | null => {
+    if (!check(problems, isPlainObject(value), path, 'an object', value)) return null;
+    const { url, projection, scheme, tileSize, maxLevel } = value as Record<string, unknown>;
+    check(problems, isUrl(url), `${path}.url`, 'a URL template', url);
+    check(problems, projection === 'geographic' || projection === 'mercator', `${path}.projection`, '"geographic" or "mercator"', projection);
+    check(problems, scheme === 'xyz' || scheme === 'tms', `${path}.scheme`, '"xyz" or "tms"', scheme);
+    check(problems, isSize(tileSize), `${path}.tileSize`, 'a positive number', tileSize);
+    check(problems, Number.isInteger(maxLevel) && (maxLevel as number) >= 0, `${path}.maxLevel`, 'a whole number from 0', maxLevel);
+    return value as Record<string, unknown>;
+  };
+
+  if (json.skybox !== null) {
+    levels(json.skybox, 'skybox', (level, path) => {
+      check(problems, isSize(level.size), `${path}.size`, 'a positive number', level.size);
+      check(problems, Array.isArray(level.faces) && level.faces.length === 6 && level.faces.every(isUrl),
+        `${path}.faces`, 'six face URLs', level.faces);
+    });
+  }
+
+  if (check(problems, isPlainObject(json.textures), 'textures', 'an object', json.textures)) {
+    Object.entries(json.textures as Record<string, unknown>).forEach(([name, texture]) => {
+      levels(texture, `textures.${name}`, (level, path) => {
+        check(problems, isSize(level.width), `${path}.width`, 'a positive number', level.width);
+        check(problems, isSize(level.height), `${path}.height`, 'a positive number', level.height);
+        check(problems, isUrl(level.url), `${path}.url`, 'a URL', level.url);
+      });
+    });
+  }
+
+  if (check(problems, isPlainObject(json.tiles), 'tiles', 'an object', json.tiles)) {
+    const { imagery, elevation } = json.tiles as Record<string, unknown>;
+    if (imagery !== undefined) {
+      pyramid(imagery, 'tiles.imagery');
+    }
+    if (elevation !== undefined) {
+      const entry = pyramid(elevation, 'tiles.elevation');
+      if (entry) {
+        check(problems, entry.encoding === 'terrarium' || entry.encoding === 'mapbox' || entry.encoding === 'grayscale',
+          'tiles.elevation.encoding', '"terrarium", "mapbox" or "grayscale"', entry.encoding);
+        check(problems, Array.isArray(entry.range) && entry.range.length === 2 && entry.range.every(isNumber),
+          'tiles.elevation.range', 'two numbers', entry.range);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`${source} is invalid: ${problems.join('; ')}`);
+  }
+  return json as unknown as AssetManifest;
+}
+
+// Largest level no wider than maxSize (the GPU limit), else the smallest there is
+export function pickLevel<T>(levels: T[], sizeOf: (level: T) => number, maxSize: number): T | null {
+  const ordered = [...levels].sort((a, b) => sizeOf(a) - sizeOf(b));
+  const fitting = ordered.filter(level => sizeOf(level) <= maxSize);
+  return fitting[fitting.length - 1] ?? ordered[0] ?? null;
+}
+
+// TiledGlobe sources for the generated pyramids, or null without imagery tiles
+export function tiledGlobeOptionsFromManifest(manifest: AssetManifest): TiledGlobeOptions | null {
+  const { imagery, elevation } = manifest.tiles;
+  if (!imagery) {
+    return null;
+  }
+  return {
+    imagery: { url: imagery.url, scheme: imagery.scheme, maxLevel: imagery.maxLevel },
+    elevation: elevation
+      ? {
+          url: elevation.url,
+          scheme: elevation.scheme,
+          maxLevel: elevation.maxLevel,
+          encoding: elevation.encoding,
+          range: elevation.range,
+        }
+      : null,
+    projection: imagery.projection,
+    tileSize: imagery.tileSize,
+  };
+}
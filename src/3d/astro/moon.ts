@@ -0,0 +1,155 @@
+import { computeSolarPosition } from './sun';
+import { daysSinceJ2000, greenwichMeanSiderealTime, normalizeDegrees, normalizeDegreesSigned } from './time';
+
+const DEG = Math.PI / 180;
+const EARTH_RADIUS_KM = 6378.14;
+const MOON_RADIUS_RATIO = 0.2725; // Moon radius / Earth radius
+const SYNODIC_MONTH_DAYS = 29.530589;
+const SUN_PARALLAX = 0.00244; // degrees
+const SUN_SEMIDIAMETER = 0.2666; // degrees
+const SHADOW_ENLARGEMENT = 1.02; // Danjon's allowance for the atmosphere thickening Earth's shadow
+
+export interface LunarPosition {
+  eclipticLongitude: number; // degrees, [0, 360)
+  eclipticLatitude: number; // degrees, within about ±5.1° (orbital inclination)
+  distance: number; // km, centre to centre
+  rightAscension: number; // degrees, [0, 360)
+  declination: number; // degrees
+  sublunarLatitude: number; // degrees
+  sublunarLongitude: number; // degrees, [-180, 180)
+}
+
+export type LunarPhase = 'new' | 'full';
+
+export interface EclipseEvent {
+  type: 'lunar' | 'solar';
+  date: Date; // Syzygy closest to greatest eclipse
+}
+
+// Low-precision lunar coordinates (Astronomical Almanac), ~0.3° in position
+// and ~0.2% in distance: enough to show phases and find eclipse dates.
+export function computeLunarPosition(date: Date): LunarPosition {
+  const timeMs = date.getTime();
+  const t = daysSinceJ2000(timeMs) / 36525; // Julian centuries
+  const sin = (deg: number) => Math.sin(deg * DEG);
+  const cos = (deg: number) => Math.cos(deg * DEG);
+
+  const eclipticLongitude = normalizeDegrees(
+    218.32 + 481267.881 * t
+    + 6.29 * sin(135.0 + 477198.87 * t)
+    - 1.27 * sin(259.3 - 413335.36 * t)
+    + 0.66 * sin(235.7 + 890534.22 * t)
+    + 0.21 * sin(269.9 + 954397.74 * t)
+    - 0.19 * sin(357.5 + 35999.05 * t)
+    - 0.11 * sin(186.5 + 966404.03 * t)
+  );
+  const eclipticLatitude =
+    5.13 * sin(93.3 + 483202.02 * t)
+    + 0.28 * sin(228.2 + 960400.89 * t)
+    - 0.28 * sin(318.3 + 6003.15 * t)
+    - 0.17 * sin(217.6 - 407332.21 * t);
+  const parallax =
+    0.9508
+    + 0.0518 * cos(135.0 + 477198.87 * t)
+    + 0.0095 * cos(259.3 - 413335.36 * t)
+    + 0.0078 * cos(235.7 + 890534.22 * t)
+    + 0.0028 * cos(269.9 + 954397.74 * t);
+  const distance = EARTH_RADIUS_KM / sin(parallax);
+
+  // Ecliptic to equatorial
+  const obliquity = 23.439 - 0.0000004 * daysSinceJ2000(timeMs);
+  const lambda = eclipticLongitude * DEG;
+  const beta = eclipticLatitude * DEG;
+  const epsilon = obliquity * DEG;
+  const rightAscension = normalizeDegrees(
+    Math.atan2(
+      Math.sin(lambda) * Math.cos(epsilon) - Math.tan(beta) * Math.sin(epsilon),
+      Math.cos(lambda)
+    ) / DEG
+  );
+  const declination = Math.asin(
+    Math.sin(beta) * Math.cos(epsilon) + Math.cos(beta) * Math.sin(epsilon) * Math.sin(lambda)
+  ) / DEG;
+
+  return {
+    eclipticLongitude,
+    eclipticLatitude,
+    distance,
+    rightAscension,
+    declination,
+    sublunarLatitude: declination,
+    sublunarLongitude: normalizeDegreesSigned(rightAscension - greenwichMeanSiderealTime(timeMs)),
+  };
+}
+
+// Moon's ecliptic longitude minus the Sun's, relative to the phase (0 at the phase itself)
+function phaseOffset(timeMs: number, phase: LunarPhase): number {
+  const date = new Date(timeMs);
+  const elongation = computeLunarPosition(date).eclipticLongitude - computeSolarPosition(date).eclipticLongitude;
+  return normalizeDegreesSigned(elongation - (phase === 'full' ? 180 : 0));
+}
+
+// First new or full moon strictly after `from`
+export function findNextLunarPhase(from: Date, phase: LunarPhase): Date {
+  const stepMs = 6 * 3600000; // The Moon gains ~3° on the Sun in 6 hours, no risk of skipping
+  let start = from.getTime() + 60000;
+  let previous = phaseOffset(start, phase);
+
+  for (let i = 0; i < (SYNODIC_MONTH_DAYS + 2) * 4; i++) {
+    const end = start + stepMs;
+    const current = phaseOffset(end, phase);
+    if (previous < 0 && current >= 0) {
+      // Bisect the sign change down to about a second
+      let low = start;
+      let high = end;
+      while (high - low > 1000) {
+        const middle = (low + high) / 2;
+        if (phaseOffset(middle, phase) < 0) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      return new Date(high);
+    }
+    start = end;
+    previous = current;
+  }
+  throw new Error(`No ${phase} moon found after ${from.toISOString()}`);
+}
+
+// Whether the Moon's distance from the ecliptic at a syzygy is small enough for an
+// eclipse: at full moon it must reach the umbra (penumbral-only eclipses are hard to
+// see), at new moon its shadow must touch some part of the Earth.
+function isEclipse(position: LunarPosition, phase: LunarPhase): boolean {
+  const parallax = Math.asin(EARTH_RADIUS_KM / position.distance) / DEG;
+  const semidiameter = MOON_RADIUS_RATIO * parallax;
+  const separation = Math.abs(position.eclipticLatitude);
+
+  if (phase === 'full') {
+    const umbraRadius = SHADOW_ENLARGEMENT * (parallax + SUN_PARALLAX - SUN_SEMIDIAMETER);
+    return separation < umbraRadius + semidiameter;
+  }
+  return separation < parallax - SUN_PARALLAX + SUN_SEMIDIAMETER + semidiameter;
+}
+
+// Next umbral lunar or (partial or better) solar eclipse after `from`
+export function findNextEclipse(from: Date, maxLunations: number = 30): EclipseEvent {
+  let full = findNextLunarPhase(from, 'full');
+  let next = findNextLunarPhase(from, 'new');
+
+  for (let i = 0; i < maxLunations * 2; i++) {
+    const isFull = full.getTime() < next.getTime();
+    const date = isFull ? full : next;
+    if (isEclipse(computeLunarPosition(date), isFull ? 'full' : 'new')) {
+      return { type: isFull ? 'lunar' : 'solar', date };
+    }
+
+    if (isFull) {
+      full = findNextLunarPhase(full, 'full');
+    } else {
+      next = findNextLunarPhase(next, 'new');
+    }
+  }
+  throw new Error(`No eclipse found within ${maxLunations} lunations of ${from.toISOString()}`);
+}
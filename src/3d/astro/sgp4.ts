@@ -0,0 +1,353 @@
+import { greenwichMeanSiderealTime } from './time';
+import { TleRecord } from './tle';
+
+// SGP4 orbit propagation (Hoots & Roehrich, Spacetrack Report #3, as revised by
+// Vallado et al. 2006), using the WGS72 constants the element sets are fitted with.
+// Only the near-Earth model is implemented: orbits with periods of 225 minutes or more
+// (GPS, geostationary, Molniya) need the SDP4 deep-space terms and are rejected.
+
+const TWO_PI = Math.PI * 2;
+const DEG = Math.PI / 180;
+const MINUTES_PER_DAY = 1440;
+
+// WGS72
+const MU = 398600.8; // km³/s²
+const EARTH_RADIUS = 6378.135; // km
+const XKE = 60 / Math.sqrt((EARTH_RADIUS * EARTH_RADIUS * EARTH_RADIUS) / MU); // sqrt(GM) in earth radii³/min²
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const X2O3 = 2 / 3;
+
+const DEEP_SPACE_PERIOD = 225; // minutes
+
+// Km and km/s in the True Equator, Mean Equinox frame of the epoch
+export interface TemeState {
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+}
+
+// Initialised model for one element set: the epoch terms computed once by sgp4init
+export interface Sgp4Model {
+  record: TleRecord;
+  epochMs: number;
+  period: number; // minutes
+  // Mean elements at epoch (radians, radians/minute)
+  inclo: number;
+  nodeo: number;
+  ecco: number;
+  argpo: number;
+  mo: number;
+  noUnkozai: number;
+  bstar: number;
+  // Secular and drag coefficients
+  isimp: boolean;
+  aycof: number;
+  con41: number;
+  cc1: number;
+  cc4: number;
+  cc5: number;
+  d2: number;
+  d3: number;
+  d4: number;
+  delmo: number;
+  eta: number;
+  argpdot: number;
+  omgcof: number;
+  sinmao: number;
+  t2cof: number;
+  t3cof: number;
+  t4cof: number;
+  t5cof: number;
+  x1mth2: number;
+  x7thm1: number;
+  mdot: number;
+  nodedot: number;
+  xlcof: number;
+  xmcof: number;
+  nodecf: number;
+}
+
+// Precompute the epoch-dependent terms. Throws for deep-space or unusable elements.
+export function createSgp4Model(record: TleRecord): Sgp4Model {
+  const noKozai = (record.meanMotion * TWO_PI) / MINUTES_PER_DAY; // rad/min
+  const ecco = record.eccentricity;
+  const inclo = record.inclination * DEG;
+  if (noKozai <= 0 || ecco < 0 || ecco >= 1) {
+    throw new Error(`${record.name}: elements out of range for SGP4`);
+  }
+
+  // Recover the original mean motion and semi-major axis from the Kozai mean motion
+  const eccsq = ecco * ecco;
+  const omeosq = 1 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+  const ak = Math.pow(XKE / noKozai, X2O3);
+  const d1 = (0.75 * J2 * (3 * cosio2 - 1)) / (rteosq * omeosq);
+  let del = d1 / (ak * ak);
+  const adel = ak * (1 - del * del - del * (1 / 3 + (134 * del * del) / 81));
+  del = d1 / (adel * adel);
+  const noUnkozai = noKozai / (1 + del);
+
+  const period = TWO_PI / noUnkozai;
+  if (period >= DEEP_SPACE_PERIOD) {
+    throw new Error(`${record.name}: ${Math.round(period)} min orbit needs the deep-space (SDP4) model, which is not supported`);
+  }
+
+  const ao = Math.pow(XKE / noUnkozai, X2O3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1 - 5 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1 - ecco);
+
+  // Perigees below 220 km use a truncated drag model
+  const isimp = rp < 220 / EARTH_RADIUS + 1;
+
+  // Atmospheric density parameters, lowered for perigees below 156 km
+  let sfour = 78 / EARTH_RADIUS + 1;
+  let qzms24 = Math.pow((120 - 78) / EARTH_RADIUS, 4);
+  const perige = (rp - 1) * EARTH_RADIUS;
+  if (perige < 156) {
+    sfour = perige < 98 ? 20 : perige - 78;
+    qzms24 = Math.pow((120 - sfour) / EARTH_RADIUS, 4);
+    sfour = sfour / EARTH_RADIUS + 1;
+  }
+
+  const bstar = record.bstar;
+  const argpo = record.argumentOfPerigee * DEG;
+  const mo = record.meanAnomaly * DEG;
+
+  const pinvsq = 1 / posq;
+  const tsi = 1 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1 - etasq);
+  const coef = qzms24 * Math.pow(tsi, 4);
+  const coef1 = coef / Math.pow(psisq, 3.5);
+  const cc2 = coef1 * noUnkozai * (
+    ao * (1 + 1.5 * etasq + eeta * (4 + etasq))
+    + ((0.375 * J2 * tsi) / psisq) * con41 * (8 + 3 * etasq * (8 + etasq))
+  );
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1e-4 ? (-2 * coef * tsi * J3OJ2 * noUnkozai * sinio) / ecco : 0;
+  const x1mth2 = 1 - cosio2;
+  const cc4 = 2 * noUnkozai * coef1 * ao * omeosq * (
+    eta * (2 + 0.5 * etasq) + ecco * (0.5 + 2 * etasq)
+    - ((J2 * tsi) / (ao * psisq)) * (
+      -3 * con41 * (1 - 2 * eeta + etasq * (1.5 - 0.5 * eeta))
+      + 0.75 * x1mth2 * (2 * etasq - eeta * (1 + etasq)) * Math.cos(2 * argpo)
+    )
+  );
+  const cc5 = 2 * coef1 * ao * omeosq * (1 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  // Secular rates from J2 and J4
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * noUnkozai;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * noUnkozai;
+  const mdot = noUnkozai + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13 - 78 * cosio2 + 137 * cosio4);
+  const argpdot = -0.5 * temp1 * con42 + 0.0625 * temp2 * (7 - 114 * cosio2 + 395 * cosio4) + temp3 * (3 - 36 * cosio2 + 49 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4 - 19 * cosio2) + 2 * temp3 * (3 - 7 * cosio2)) * cosio;
+
+  // Long-period J3 terms; guard against division by zero for retrograde equatorial orbits
+  const xlcofDenominator = Math.abs(cosio + 1) > 1.5e-12 ? 1 + cosio : 1.5e-12;
+
+  const model: Sgp4Model = {
+    record,
+    epochMs: record.epoch.getTime(),
+    period,
+    inclo,
+    nodeo: record.rightAscension * DEG,
+    ecco,
+    argpo,
+    mo,
+    noUnkozai,
+    bstar,
+    isimp,
+    aycof: -0.5 * J3OJ2 * sinio,
+    con41,
+    cc1,
+    cc4,
+    cc5,
+    d2: 0,
+    d3: 0,
+    d4: 0,
+    delmo: Math.pow(1 + eta * Math.cos(mo), 3),
+    eta,
+    argpdot,
+    omgcof: bstar * cc3 * Math.cos(argpo),
+    sinmao: Math.sin(mo),
+    t2cof: 1.5 * cc1,
+    t3cof: 0,
+    t4cof: 0,
+    t5cof: 0,
+    x1mth2,
+    x7thm1: 7 * cosio2 - 1,
+    mdot,
+    nodedot,
+    xlcof: (-0.25 * J3OJ2 * sinio * (3 + 5 * cosio)) / xlcofDenominator,
+    xmcof: ecco > 1e-4 ? (-X2O3 * coef * bstar) / eeta : 0,
+    nodecf: 3.5 * omeosq * xhdot1 * cc1,
+  };
+
+  if (!isimp) {
+    const cc1sq = cc1 * cc1;
+    model.d2 = 4 * ao * tsi * cc1sq;
+    const temp = (model.d2 * tsi * cc1) / 3;
+    model.d3 = (17 * ao + sfour) * temp;
+    model.d4 = 0.5 * temp * ao * tsi * (221 * ao + 31 * sfour) * cc1;
+    model.t3cof = model.d2 + 2 * cc1sq;
+    model.t4cof = 0.25 * (3 * model.d3 + cc1 * (12 * model.d2 + 10 * cc1sq));
+    model.t5cof = 0.2 * (3 * model.d4 + 12 * cc1 * model.d3 + 6 * model.d2 * model.d2 + 15 * cc1sq * (2 * model.d2 + cc1sq));
+  }
+
+  return model;
+}
+
+// Position and velocity at `minutes` after the element set's epoch, or null once the
+// orbit has decayed or the elements have gone out of range
+export function propagateSgp4Minutes(model: Sgp4Model, minutes: number): TemeState | null {
+  const t = minutes;
+
+  // Secular gravity and atmospheric drag
+  const xmdf = model.mo + model.mdot * t;
+  const argpdf = model.argpo + model.argpdot * t;
+  const nodedf = model.nodeo + model.nodedot * t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = t * t;
+  let nodem = nodedf + model.nodecf * t2;
+  let tempa = 1 - model.cc1 * t;
+  let tempe = model.bstar * model.cc4 * t;
+  let templ = model.t2cof * t2;
+
+  if (!model.isimp) {
+    const delomg = model.omgcof * t;
+    const delm = model.xmcof * (Math.pow(1 + model.eta * Math.cos(xmdf), 3) - model.delmo);
+    mm = xmdf + delomg + delm;
+    argpm = argpdf - delomg - delm;
+    const t3 = t2 * t;
+    const t4 = t3 * t;
+    tempa = tempa - model.d2 * t2 - model.d3 * t3 - model.d4 * t4;
+    tempe = tempe + model.bstar * model.cc5 * (Math.sin(mm) - model.sinmao);
+    templ = templ + model.t3cof * t3 + t4 * (model.t4cof + t * model.t5cof);
+  }
+
+  const am = Math.pow(XKE / model.noUnkozai, X2O3) * tempa * tempa;
+  const nm = XKE / Math.pow(am, 1.5);
+  let em = model.ecco - tempe;
+  if (em >= 1 || em < -0.001 || am <= 0) {
+    return null;
+  }
+  em = Math.max(em, 1e-6);
+
+  mm = mm + model.noUnkozai * templ;
+  const xlm = (mm + argpm + nodem) % TWO_PI;
+  nodem = nodem % TWO_PI;
+  argpm = argpm % TWO_PI;
+  mm = (xlm - argpm - nodem) % TWO_PI;
+
+  // Long-period periodics
+  const sinip = Math.sin(model.inclo);
+  const cosip = Math.cos(model.inclo);
+  const axnl = em * Math.cos(argpm);
+  let temp = 1 / (am * (1 - em * em));
+  const aynl = em * Math.sin(argpm) + temp * model.aycof;
+  const xl = mm + argpm + nodem + temp * model.xlcof * axnl;
+
+  // Kepler's equation in the equinoctial-like variables
+  const u = (xl - nodem) % TWO_PI;
+  let eo1 = u;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let iteration = 0; iteration < 10; iteration++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    let step = (u - aynl * coseo1 + axnl * sineo1 - eo1) / (1 - coseo1 * axnl - sineo1 * aynl);
+    step = Math.max(-0.95, Math.min(0.95, step));
+    eo1 += step;
+    if (Math.abs(step) < 1e-12) break;
+  }
+
+  // Short-period periodics
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1 - el2);
+  if (pl < 0) {
+    return null;
+  }
+  const rl = am * (1 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1 - el2);
+  temp = esine / (1 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1 - 2 * sinu * sinu;
+  temp = 1 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  const mrt = rl * (1 - 1.5 * temp2 * betal * model.con41) + 0.5 * temp1 * model.x1mth2 * cos2u;
+  if (mrt < 1) {
+    return null; // Below the surface: decayed
+  }
+  su = su - 0.25 * temp2 * model.x7thm1 * sin2u;
+  const xnode = nodem + 1.5 * temp2 * cosip * sin2u;
+  const xinc = model.inclo + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * model.x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (model.x1mth2 * cos2u + 1.5 * model.con41)) / XKE;
+
+  // Orientation vectors
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  const radius = mrt * EARTH_RADIUS;
+  const speed = (EARTH_RADIUS * XKE) / 60; // earth radii/min to km/s
+  return {
+    position: { x: radius * ux, y: radius * uy, z: radius * uz },
+    velocity: {
+      x: (mvt * ux + rvdot * vx) * speed,
+      y: (mvt * uy + rvdot * vy) * speed,
+      z: (mvt * uz + rvdot * vz) * speed,
+    },
+  };
+}
+
+export function propagateSgp4(model: Sgp4Model, date: Date): TemeState | null {
+  return propagateSgp4Minutes(model, (date.getTime() - model.epochMs) / 60000);
+}
+
+// Rotate a TEME vector (km) into standard Z-up ECEF by Greenwich sidereal time.
+// Polar motion and the equation of the equinoxes are below what the globe can show.
+export function temeToEcef(vector: { x: number; y: number; z: number }, date: Date): { x: number; y: number; z: number } {
+  const gmst = greenwichMeanSiderealTime(date.getTime()) * DEG;
+  const cos = Math.cos(gmst);
+  const sin = Math.sin(gmst);
+  return {
+    x: cos * vector.x + sin * vector.y,
+    y: -sin * vector.x + cos * vector.y,
+    z: vector.z,
+  };
+}
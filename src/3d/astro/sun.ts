@@ -0,0 +1,58 @@
+import { daysSinceJ2000, greenwichMeanSiderealTime, normalizeDegrees, normalizeDegreesSigned } from './time';
+
+const DEG = Math.PI / 180;
+
+export const ASTRONOMICAL_UNIT = 149597870700; // meters (IAU 2012)
+export const SUN_RADIUS = 695700000; // meters, nominal (IAU 2015)
+
+export interface SolarPosition {
+  declination: number; // degrees
+  rightAscension: number; // degrees, [0, 360)
+  eclipticLongitude: number; // degrees, [0, 360)
+  obliquity: number; // degrees
+  equationOfTime: number; // minutes, apparent minus mean solar time
+  greenwichSiderealTime: number; // degrees, [0, 360)
+  subsolarLatitude: number; // degrees, equals the declination
+  subsolarLongitude: number; // degrees, [-180, 180)
+  distance: number; // Earth–Sun distance in astronomical units
+}
+
+// Low-precision solar coordinates (Astronomical Almanac / Meeus), good to ~0.01°
+// between 1950 and 2050, which is plenty for placing the terminator on the globe.
+export function computeSolarPosition(date: Date): SolarPosition {
+  const timeMs = date.getTime();
+  const n = daysSinceJ2000(timeMs);
+
+  const meanLongitude = normalizeDegrees(280.46 + 0.9856474 * n);
+  const meanAnomaly = normalizeDegrees(357.528 + 0.9856003 * n) * DEG;
+
+  const eclipticLongitude = normalizeDegrees(
+    meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)
+  );
+  const distance = 1.00014 - 0.01671 * Math.cos(meanAnomaly) - 0.00014 * Math.cos(2 * meanAnomaly);
+  const obliquity = 23.439 - 0.0000004 * n;
+
+  const lambda = eclipticLongitude * DEG;
+  const epsilon = obliquity * DEG;
+  const rightAscension = normalizeDegrees(
+    Math.atan2(Math.cos(epsilon) * Math.sin(lambda), Math.cos(lambda)) / DEG
+  );
+  const declination = Math.asin(Math.sin(epsilon) * Math.sin(lambda)) / DEG;
+
+  // 1° of hour angle is 4 minutes of time
+  const equationOfTime = 4 * normalizeDegreesSigned(meanLongitude - rightAscension);
+
+  const greenwichSiderealTime = greenwichMeanSiderealTime(timeMs);
+
+  return {
+    declination,
+    rightAscension,
+    eclipticLongitude,
+    obliquity,
+    equationOfTime,
+    greenwichSiderealTime,
+    subsolarLatitude: declination,
+    subsolarLongitude: normalizeDegreesSigned(rightAscension - greenwichSiderealTime),
+    distance,
+  };
+}
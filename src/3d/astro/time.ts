@@ -0,0 +1,34 @@
+// Time helpers shared by the ephemeris modules.
+// All functions take a UTC timestamp in milliseconds (Date.getTime()).
+
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5; // Julian Date of 1970-01-01T00:00:00Z
+const J2000_JD = 2451545.0; // Julian Date of 2000-01-01T12:00:00 TT (UTC is close enough here)
+
+export function toJulianDate(timeMs: number): number {
+  return timeMs / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+// Days (fractional) elapsed since the J2000.0 epoch
+export function daysSinceJ2000(timeMs: number): number {
+  return toJulianDate(timeMs) - J2000_JD;
+}
+
+// Wrap an angle in degrees to [0, 360)
+export function normalizeDegrees(deg: number): number {
+  const wrapped = deg % 360;
+  return wrapped < 0 ? wrapped + 360 : wrapped;
+}
+
+// Wrap an angle in degrees to [-180, 180)
+export function normalizeDegreesSigned(deg: number): number {
+  return normalizeDegrees(deg + 180) - 180;
+}
+
+// Greenwich Mean Sidereal Time in degrees (IAU 1982 expression)
+export function greenwichMeanSiderealTime(timeMs: number): number {
+  const d = daysSinceJ2000(timeMs);
+  const t = d / 36525; // Julian centuries
+  const gmst = 280.46061837 + 360.98564736629 * d + 0.000387933 * t * t - (t * t * t) / 38710000;
+  return normalizeDegrees(gmst);
+}
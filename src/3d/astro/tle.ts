@@ -0,0 +1,114 @@
+// Two-Line Element sets, as published by CelesTrak / Space-Track, in the
+// two-line form or the three-line form with a name line before each pair.
+
+export interface TleRecord {
+  name: string;
+  catalogNumber: string; // NORAD id, as written (may be alpha-5)
+  epoch: Date;
+  inclination: number; // degrees
+  rightAscension: number; // degrees, of the ascending node
+  eccentricity: number;
+  argumentOfPerigee: number; // degrees
+  meanAnomaly: number; // degrees
+  meanMotion: number; // revolutions per day
+  bstar: number; // Drag term, 1/earth radii
+  line1: string;
+  line2: string;
+}
+
+// Modulo-10 checksum over a line's first 68 columns: digits count as themselves, '-' as 1
+function checksum(line: string): number {
+  let sum = 0;
+  for (const char of line.slice(0, 68)) {
+    if (char >= '0' && char <= '9') {
+      sum += Number(char);
+    } else if (char === '-') {
+      sum += 1;
+    }
+  }
+  return sum % 10;
+}
+
+// Fields like " 28098-4" with an implied leading decimal point and a signed exponent
+function parseImpliedDecimal(field: string): number {
+  const text = field.trim();
+  if (!text) return 0;
+  const match = /^([+-]?)(\d+)([+-]\d)$/.exec(text);
+  if (!match) {
+    throw new Error(`"${field}" is not an exponent field`);
+  }
+  const [, sign, mantissa, exponent] = match;
+  return Number(`${sign}0.${mantissa}e${exponent}`);
+}
+
+function parseNumber(field: string, label: string): number {
+  const value = Number(field.trim());
+  if (field.trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`invalid ${label} "${field.trim()}"`);
+  }
+  return value;
+}
+
+function parseEpoch(field: string): Date {
+  const twoDigitYear = parseNumber(field.slice(0, 2), 'epoch year');
+  const dayOfYear = parseNumber(field.slice(2), 'epoch day');
+  const year = twoDigitYear < 57 ? 2000 + twoDigitYear : 1900 + twoDigitYear; // Sputnik-era cutoff
+  return new Date(Date.UTC(year, 0, 1) + (dayOfYear - 1) * 86400000);
+}
+
+function parseElementSet(name: string, line1: string, line2: string): TleRecord {
+  if (line1.length < 69 || line2.length < 69) {
+    throw new Error('lines must be 69 characters long');
+  }
+  if (checksum(line1) !== Number(line1[68]) || checksum(line2) !== Number(line2[68])) {
+    throw new Error('checksum mismatch');
+  }
+
+  const catalogNumber = line1.slice(2, 7).trim();
+  if (line2.slice(2, 7).trim() !== catalogNumber) {
+    throw new Error('line 1 and line 2 have different catalog numbers');
+  }
+
+  return {
+    name: name || catalogNumber,
+    catalogNumber,
+    epoch: parseEpoch(line1.slice(18, 32)),
+    bstar: parseImpliedDecimal(line1.slice(53, 61)),
+    inclination: parseNumber(line2.slice(8, 16), 'inclination'),
+    rightAscension: parseNumber(line2.slice(17, 25), 'right ascension'),
+    eccentricity: parseNumber(`0.${line2.slice(26, 33).trim()}`, 'eccentricity'),
+    argumentOfPerigee: parseNumber(line2.slice(34, 42), 'argument of perigee'),
+    meanAnomaly: parseNumber(line2.slice(43, 51), 'mean anomaly'),
+    meanMotion: parseNumber(line2.slice(52, 63), 'mean motion'),
+    line1,
+    line2,
+  };
+}
+
+// Parse every element set in a TLE file. Throws with the offending line number on
+// malformed input, so a bad file is caught when loaded rather than as a wrong orbit.
+export function parseTle(text: string): TleRecord[] {
+  const lines = text.split(/\r?\n/).map(line => line.trimEnd());
+  const records: TleRecord[] = [];
+  let name = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    if (line.startsWith('1 ') && lines[i + 1]?.startsWith('2 ')) {
+      try {
+        records.push(parseElementSet(name, line, lines[i + 1]));
+      } catch (error) {
+        throw new Error(`Invalid TLE at line ${i + 1}: ${(error as Error).message}`);
+      }
+      name = '';
+      i++;
+    } else if (line.startsWith('1 ') || line.startsWith('2 ')) {
+      throw new Error(`Invalid TLE at line ${i + 1}: line ${line[0]} without its pair`);
+    } else {
+      name = line.replace(/^0 /, '').trim(); // Space-Track prefixes names with "0 "
+    }
+  }
+  return records;
+}
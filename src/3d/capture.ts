@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+
+export interface CaptureOptions {
+  width?: number; // pixels; with only one of width/height the other follows the canvas aspect
+  height?: number;
+  scale?: number; // Multiple of the canvas CSS size when no width/height is given, default devicePixelRatio
+  transparent?: boolean; // Leave the sky out so the PNG has an alpha channel
+}
+
+// Largest still we attempt; browsers refuse bigger 2D canvases or fail to encode them
+export const MAX_CAPTURE_SIZE = 16384; // pixels per side
+
+// Output size for `options` given the canvas's CSS size
+export function resolveCaptureSize(options: CaptureOptions, canvasWidth: number, canvasHeight: number): { width: number; height: number } {
+  const aspect = canvasWidth / canvasHeight;
+  let width: number;
+  let height: number;
+  if (options.width !== undefined || options.height !== undefined) {
+    width = options.width ?? (options.height as number) * aspect;
+    height = options.height ?? (options.width as number) / aspect;
+  } else {
+    const scale = options.scale ?? window.devicePixelRatio;
+    width = canvasWidth * scale;
+    height = canvasHeight * scale;
+  }
+  width = Math.round(width);
+  height = Math.round(height);
+  if (!(width >= 1 && height >= 1 && width <= MAX_CAPTURE_SIZE && height <= MAX_CAPTURE_SIZE)) {
+    throw new Error(`Capture size must be from 1 to ${MAX_CAPTURE_SIZE} pixels per side, got ${width}x${height}`);
+  }
+  return { width, height };
+}
+
+// Render `scene` at width x height into a 2D canvas. Sizes beyond what the GPU can draw in
+// one pass are rendered as tiles through the camera's view offset and stitched together.
+// The renderer is left at pixel ratio 1 and the last tile's size; the caller restores it.
+export function renderTiled(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  width: number,
+  height: number
+): HTMLCanvasElement {
+  const gl = renderer.getContext();
+  const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+  const tileSize = Math.min(renderer.capabilities.maxTextureSize, viewport[0], viewport[1]);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create a 2D canvas for the capture');
+  }
+
+  const aspect = camera.aspect;
+  camera.aspect = width / height;
+  renderer.setPixelRatio(1);
+  try {
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        const tileWidth = Math.min(tileSize, width - x);
+        const tileHeight = Math.min(tileSize, height - y);
+        renderer.setSize(tileWidth, tileHeight, false);
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        renderer.render(scene, camera);
+        // Copied in the same task as the render, while the drawing buffer is still intact
+        context.drawImage(renderer.domElement, 0, 0, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    camera.clearViewOffset(); // Also updates the projection matrix
+    camera.aspect = aspect;
+    camera.updateProjectionMatrix();
+  }
+  return output;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string = 'image/png'): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(`Failed to encode a ${canvas.width}x${canvas.height} capture as ${type}`));
+      }
+    }, type);
+  });
+}
@@ -0,0 +1,72 @@
+// Display helpers for geographic coordinates
+
+function toDMS(value: number, positive: string, negative: string): string {
+  const hemisphere = value < 0 ? negative : positive;
+  let totalSeconds = Math.round(Math.abs(value) * 36000) / 10; // Round to 0.1"
+  const degrees = Math.floor(totalSeconds / 3600);
+  totalSeconds -= degrees * 3600;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${hemisphere}`;
+}
+
+export function formatLatitudeDMS(latitude: number): string {
+  return toDMS(latitude, 'N', 'S');
+}
+
+export function formatLongitudeDMS(longitude: number): string {
+  return toDMS(longitude, 'E', 'W');
+}
+
+export function formatLatLonDecimal(latitude: number, longitude: number, digits: number = 5): string {
+  return `${latitude.toFixed(digits)}, ${longitude.toFixed(digits)}`;
+}
+
+export function formatAltitude(meters: number): string {
+  return Math.abs(meters) >= 10000 ? `${(meters / 1000).toFixed(1)} km` : `${meters.toFixed(0)} m`;
+}
+
+export type DistanceUnit = 'km' | 'mi' | 'nmi';
+
+export const DISTANCE_UNITS: Record<DistanceUnit, { meters: number; label: string }> = {
+  km: { meters: 1000, label: 'Kilometers' },
+  mi: { meters: 1609.344, label: 'Miles' },
+  nmi: { meters: 1852, label: 'Nautical miles' },
+};
+
+// Three significant digits at least, e.g. "0.523 km", "52.3 km", "5,231 km"
+export function formatDistance(meters: number, unit: DistanceUnit): string {
+  return `${formatMeasure(meters / DISTANCE_UNITS[unit].meters)} ${unit}`;
+}
+
+export function formatArea(squareMeters: number, unit: DistanceUnit): string {
+  const perUnit = DISTANCE_UNITS[unit].meters;
+  return `${formatMeasure(squareMeters / (perUnit * perUnit))} ${unit}²`;
+}
+
+// Bearing clockwise from north with its compass point, e.g. "306.9° (NW)"
+export function formatBearing(degrees: number): string {
+  const points = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  return `${degrees.toFixed(1)}° (${points[Math.round(degrees / 45) % 8]})`;
+}
+
+function formatMeasure(value: number): string {
+  const digits = value >= 100 ? 0 : value >= 10 ? 1 : value >= 1 ? 2 : 3;
+  return value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+// Short grid labels such as 30°N, 7.5°W; the equator and the 0°/180° meridians have no hemisphere
+export function formatLatitudeLabel(latitude: number): string {
+  return toGridLabel(latitude, 'N', 'S');
+}
+
+export function formatLongitudeLabel(longitude: number): string {
+  const wrapped = ((longitude + 540) % 360) - 180; // -180..180
+  return toGridLabel(Math.abs(wrapped) === 180 ? 180 : wrapped, 'E', 'W');
+}
+
+function toGridLabel(value: number, positive: string, negative: string): string {
+  const degrees = Number(Math.abs(value).toFixed(2)); // Drops trailing zeros
+  const hemisphere = degrees === 0 || degrees === 180 ? '' : value < 0 ? negative : positive;
+  return `${degrees}°${hemisphere}`;
+}
@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { WGS84 } from './geodetic';
+
+// Geodesics on the WGS84 ellipsoid after Vincenty (1975): the inverse problem (distance
+// and bearings between two points) and the direct problem (where a bearing and distance
+// lead), both iterated to well under a millimetre. Vincenty's inverse fails to converge
+// for nearly antipodal points, which is reported as an error rather than guessed.
+
+export interface GeodesicInverse {
+  distance: number; // meters along the ellipsoid
+  initialBearing: number | null; // degrees clockwise from north at the start; null for coincident points
+  finalBearing: number | null; // degrees at the end
+}
+
+export interface GeodesicDirect {
+  latitude: number; // degrees
+  longitude: number; // degrees, [-180, 180]
+  finalBearing: number; // degrees
+}
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-12; // radians, about 0.006 mm
+
+// Distance and bearings from point 1 to point 2 (degrees)
+export function geodesicInverse(latitude1: number, longitude1: number, latitude2: number, longitude2: number): GeodesicInverse {
+  const { a, b, f } = WGS84;
+  const L = THREE.MathUtils.degToRad(longitude2 - longitude1);
+  const tanU1 = (1 - f) * Math.tan(THREE.MathUtils.degToRad(latitude1));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - f) * Math.tan(THREE.MathUtils.degToRad(latitude2));
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 0;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+  let converged = false;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const sinSqSigma = (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2;
+    if (sinSqSigma < 1e-24) {
+      return { distance: 0, initialBearing: null, finalBearing: null }; // Same point
+    }
+    sinSigma = Math.sqrt(sinSqSigma);
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0; // Zero on the equator
+    const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * f * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda) > Math.PI + Math.abs(L)) break; // Diverging: nearly antipodal
+    if (Math.abs(lambda - previous) < TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) {
+    throw new Error(`No geodesic found between ${latitude1}, ${longitude1} and ${latitude2}, ${longitude2}: the points are nearly antipodal`);
+  }
+
+  const uSq = (cosSqAlpha * (a * a - b * b)) / (b * b);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)
+    - (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  const initial = Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+  const final = Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda);
+  return {
+    distance: b * A * (sigma - deltaSigma),
+    initialBearing: normalizeBearing(THREE.MathUtils.radToDeg(initial)),
+    finalBearing: normalizeBearing(THREE.MathUtils.radToDeg(final)),
+  };
+}
+
+// Point reached from (latitude, longitude) heading `bearing` degrees for `distance` meters
+export function geodesicDirect(latitude: number, longitude: number, bearing: number, distance: number): GeodesicDirect {
+  const { a, b, f } = WGS84;
+  const alpha1 = THREE.MathUtils.degToRad(bearing);
+  const sinAlpha1 = Math.sin(alpha1);
+  const cosAlpha1 = Math.cos(alpha1);
+  const tanU1 = (1 - f) * Math.tan(THREE.MathUtils.degToRad(latitude));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (a * a - b * b)) / (b * b);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  let sigma = distance / (b * A);
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let cos2SigmaM = 0;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)
+      - (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+    const previous = sigma;
+    sigma = distance / (b * A) + deltaSigma;
+    if (Math.abs(sigma - previous) < TOLERANCE) break;
+  }
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const latitude2 = Math.atan2(sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1, (1 - f) * Math.sqrt(sinAlpha * sinAlpha + x * x));
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+  const L = lambda - (1 - C) * f * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    latitude: THREE.MathUtils.radToDeg(latitude2),
+    longitude: wrapLongitude(longitude + THREE.MathUtils.radToDeg(L)),
+    finalBearing: normalizeBearing(THREE.MathUtils.radToDeg(Math.atan2(sinAlpha, -x))),
+  };
+}
+
+// Vertices along the geodesic between two [latitude, longitude] points, no more than
+// `maxSegment` meters apart, both ends included
+export function geodesicLine(from: [number, number], to: [number, number], maxSegment: number = 50000): Array<[number, number]> {
+  const { distance, initialBearing } = geodesicInverse(from[0], from[1], to[0], to[1]);
+  if (initialBearing === null) {
+    return [from, to];
+  }
+  const count = Math.max(1, Math.ceil(distance / maxSegment));
+  const points: Array<[number, number]> = [from];
+  for (let i = 1; i < count; i++) {
+    const point = geodesicDirect(from[0], from[1], initialBearing, (distance * i) / count);
+    points.push([point.latitude, point.longitude]);
+  }
+  points.push(to);
+  return points;
+}
+
+// Area in square meters enclosed by a ring of [latitude, longitude] vertices joined by
+// geodesics (closing edge implied). The edges are densified and the area taken on the
+// authalic sphere, which has the ellipsoid's area element, so the result is within a
+// few parts per million of the exact ellipsoidal area. Of the two regions a ring bounds
+// on a closed surface, the smaller is returned.
+export function geodesicArea(ring: Array<[number, number]>): number {
+  if (ring.length < 3) return 0;
+  const vertices: Array<[number, number]> = [];
+  ring.forEach((point, i) => {
+    vertices.push(...geodesicLine(point, ring[(i + 1) % ring.length], 10000).slice(0, -1));
+  });
+
+  let sum = 0;
+  vertices.forEach((point, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    let deltaLongitude = THREE.MathUtils.degToRad(next[1] - point[1]);
+    deltaLongitude = Math.atan2(Math.sin(deltaLongitude), Math.cos(deltaLongitude)); // Shortest way round
+    sum += deltaLongitude * (2 + Math.sin(authalicLatitude(point[0])) + Math.sin(authalicLatitude(next[0])));
+  });
+  const area = Math.abs((sum * AUTHALIC_RADIUS * AUTHALIC_RADIUS) / 2);
+  return Math.min(area, ELLIPSOID_AREA - area);
+}
+
+// Length in meters of a path through the points, closed back to the start if `closed`
+export function geodesicLength(points: Array<[number, number]>, closed: boolean = false): number {
+  let length = 0;
+  const edges = closed ? points.length : points.length - 1;
+  for (let i = 0; i < edges; i++) {
+    const from = points[i];
+    const to = points[(i + 1) % points.length];
+    length += geodesicInverse(from[0], from[1], to[0], to[1]).distance;
+  }
+  return length;
+}
+
+// q(φ) of the authalic latitude, Snyder (1987) eq. 3-12
+function authalicQ(sinLatitude: number): number {
+  const e = Math.sqrt(WGS84.e2);
+  const eSin = e * sinLatitude;
+  return (1 - WGS84.e2) * (sinLatitude / (1 - eSin * eSin) - (1 / (2 * e)) * Math.log((1 - eSin) / (1 + eSin)));
+}
+
+const AUTHALIC_Q_POLE = authalicQ(1);
+const AUTHALIC_RADIUS = WGS84.a * Math.sqrt(AUTHALIC_Q_POLE / 2); // Sphere with the ellipsoid's surface area
+const ELLIPSOID_AREA = 4 * Math.PI * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+
+function authalicLatitude(latitude: number): number {
+  const q = authalicQ(Math.sin(THREE.MathUtils.degToRad(latitude)));
+  return Math.asin(THREE.MathUtils.clamp(q / AUTHALIC_Q_POLE, -1, 1));
+}
+
+function normalizeBearing(degrees: number): number {
+  return (degrees + 360) % 360;
+}
+
+function wrapLongitude(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
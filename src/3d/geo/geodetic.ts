@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+// WGS84 reference ellipsoid
+export const WGS84 = {
+  a: 6378137, // Equatorial radius, meters
+  b: 6356752.314245, // Polar radius, meters
+  f: 1 / 298.257223563, // Flattening
+  e2: 6.69437999014e-3, // First eccentricity squared
+};
+
+export interface GeodeticPosition {
+  latitude: number; // degrees, positive north
+  longitude: number; // degrees, positive east, [-180, 180]
+  altitude: number; // meters above the ellipsoid
+}
+
+// Earth-centred, Earth-fixed coordinates in the Y-up frame used by earthMesh:
+// +X points at (0°, 0°), +Y at the North Pole and -Z at (0°, 90°E). This is the
+// standard ECEF frame with its axes permuted to match SphereGeometry's UV layout.
+export function geodeticToEcef(
+  latitude: number,
+  longitude: number,
+  altitude: number = 0,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const lat = THREE.MathUtils.degToRad(latitude);
+  const lon = THREE.MathUtils.degToRad(longitude);
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const n = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat); // Prime vertical radius
+
+  return target.set(
+    (n + altitude) * cosLat * Math.cos(lon),
+    (n * (1 - WGS84.e2) + altitude) * sinLat,
+    -(n + altitude) * cosLat * Math.sin(lon)
+  );
+}
+
+// Inverse of geodeticToEcef (iterative; converges to sub-millimetre in a few steps)
+export function ecefToGeodetic(ecef: THREE.Vector3): GeodeticPosition {
+  const x = ecef.x;
+  const y = -ecef.z; // Back to standard ECEF axes
+  const z = ecef.y;
+  const p = Math.sqrt(x * x + y * y);
+
+  let lat = Math.atan2(z, p * (1 - WGS84.e2));
+  let n = WGS84.a;
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(lat);
+    n = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat);
+    lat = Math.atan2(z + WGS84.e2 * n * sinLat, p);
+  }
+
+  const sinLat = Math.sin(lat);
+  n = WGS84.a / Math.sqrt(1 - WGS84.e2 * sinLat * sinLat);
+  // Valid at every latitude, including the poles where p / cos(lat) breaks down
+  const altitude = p * Math.cos(lat) + z * sinLat - (WGS84.a * WGS84.a) / n;
+
+  return {
+    latitude: THREE.MathUtils.radToDeg(lat),
+    longitude: p === 0 ? 0 : THREE.MathUtils.radToDeg(Math.atan2(y, x)),
+    altitude,
+  };
+}
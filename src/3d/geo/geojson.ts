@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+
+// Minimal GeoJSON (RFC 7946) typings for what the overlay layer understands
+export type Position = number[]; // [longitude, latitude, altitude?]
+
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+export type GeoJsonProperties = Record<string, unknown> | null;
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJsonGeometry | null;
+  properties: GeoJsonProperties;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+export type GeoJsonObject = GeoJsonGeometry | GeoJsonFeature | GeoJsonFeatureCollection;
+
+// Geometry flattened into drawable primitives, all in [lon, lat] degrees
+export interface FlattenedGeometry {
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][]; // Outer ring first, then holes
+}
+
+const GEOMETRY_TYPES = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+// Normalise any GeoJSON object into a list of features, throwing on anything unrecognised
+export function toFeatures(data: unknown): GeoJsonFeature[] {
+  const object = data as { type?: unknown };
+  if (!object || typeof object !== 'object' || typeof object.type !== 'string') {
+    throw new Error('Invalid GeoJSON: expected an object with a "type" member');
+  }
+
+  if (object.type === 'FeatureCollection') {
+    const features = (data as GeoJsonFeatureCollection).features;
+    if (!Array.isArray(features)) {
+      throw new Error('Invalid GeoJSON: FeatureCollection without a "features" array');
+    }
+    return features.flatMap(feature => toFeatures(feature));
+  }
+  if (object.type === 'Feature') {
+    return [data as GeoJsonFeature];
+  }
+  if (GEOMETRY_TYPES.includes(object.type)) {
+    return [{ type: 'Feature', geometry: data as GeoJsonGeometry, properties: null }];
+  }
+  throw new Error(`Invalid GeoJSON: unsupported type "${object.type}"`);
+}
+
+export function flattenGeometry(geometry: GeoJsonGeometry | null, target: FlattenedGeometry = { points: [], lines: [], polygons: [] }): FlattenedGeometry {
+  if (!geometry) return target;
+
+  switch (geometry.type) {
+    case 'Point':
+      target.points.push(geometry.coordinates);
+      break;
+    case 'MultiPoint':
+      target.points.push(...geometry.coordinates);
+      break;
+    case 'LineString':
+      target.lines.push(geometry.coordinates);
+      break;
+    case 'MultiLineString':
+      target.lines.push(...geometry.coordinates);
+      break;
+    case 'Polygon':
+      target.polygons.push(geometry.coordinates);
+      break;
+    case 'MultiPolygon':
+      target.polygons.push(...geometry.coordinates);
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(child => flattenGeometry(child, target));
+      break;
+  }
+  return target;
+}
+
+// Insert points along each segment so no step exceeds maxStepDegrees; otherwise long
+// segments would cut through the globe instead of following its surface. Edges are
+// straight in longitude/latitude, as RFC 7946 has them and as polygon fills are
+// subdivided (see triangulatePolygon()), so outlines and fills follow the same path.
+export function densifyLine(line: Position[], maxStepDegrees: number): Position[] {
+  if (line.length < 2) return line.slice();
+
+  const result: Position[] = [line[0]];
+  for (let i = 1; i < line.length; i++) {
+    const [lon0, lat0] = line[i - 1];
+    const [lon1, lat1] = line[i];
+    const steps = Math.ceil(Math.hypot(lon1 - lon0, lat1 - lat0) / maxStepDegrees);
+
+    for (let step = 1; step < steps; step++) {
+      const t = step / steps;
+      result.push([lon0 + (lon1 - lon0) * t, lat0 + (lat1 - lat0) * t]);
+    }
+    result.push(line[i]);
+  }
+  return result;
+}
+
+// Triangulate a polygon in the lon/lat plane and subdivide the triangles until
+// every edge is shorter than maxStepDegrees, so the fill can be draped on the globe.
+// Returns a flat list of triangle vertices. Polygons crossing the antimeridian are not split.
+export function triangulatePolygon(rings: Position[][], maxStepDegrees: number): Position[] {
+  if (rings.length === 0 || rings[0].length < 3) return [];
+
+  const toVector2 = (ring: Position[]) => {
+    const points = ring.map(position => new THREE.Vector2(position[0], position[1]));
+    // GeoJSON rings repeat the first position at the end; the triangulator doesn't want that
+    if (points.length > 1 && points[0].equals(points[points.length - 1])) {
+      points.pop();
+    }
+    return points;
+  };
+
+  const contour = toVector2(rings[0]);
+  const holes = rings.slice(1).map(toVector2);
+  const vertices = contour.concat(...holes);
+  const faces = THREE.ShapeUtils.triangulateShape(contour, holes);
+
+  const result: Position[] = [];
+  const subdivide = (a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2, depth: number) => {
+    const longest = Math.max(a.distanceTo(b), b.distanceTo(c), c.distanceTo(a));
+    if (longest <= maxStepDegrees || depth >= 8) {
+      result.push([a.x, a.y], [b.x, b.y], [c.x, c.y]);
+      return;
+    }
+    const ab = a.clone().add(b).multiplyScalar(0.5);
+    const bc = b.clone().add(c).multiplyScalar(0.5);
+    const ca = c.clone().add(a).multiplyScalar(0.5);
+    subdivide(a, ab, ca, depth + 1);
+    subdivide(ab, b, bc, depth + 1);
+    subdivide(ca, bc, c, depth + 1);
+    subdivide(ab, bc, ca, depth + 1);
+  };
+
+  faces.forEach(([i, j, k]) => subdivide(vertices[i], vertices[j], vertices[k], 0));
+  return result;
+}
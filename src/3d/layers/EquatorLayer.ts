@@ -0,0 +1,21 @@
+import * as THREE from 'three';
+import { ColorOption } from '../sceneOptions';
+import { ObjectLayer } from './ObjectLayer';
+
+// Thick ring around the equator
+export class EquatorLayer extends ObjectLayer {
+  constructor(
+    equatorialRadius: number, // scene units
+    color: ColorOption
+  ) {
+    super('equator', 'Equator', 'Reference', 'system');
+
+    const radius = equatorialRadius * 1.0002; // Slightly larger than Earth's radius to be visible
+    const tubeRadius = 0.1;
+    const geometry = new THREE.TorusGeometry(radius, tubeRadius, 64, 200);
+    const material = new THREE.MeshBasicMaterial({ color });
+    const ring = new THREE.Mesh(geometry, material);
+    ring.rotation.x = Math.PI / 2; // Rotate to align with the Earth's equator (around X-axis)
+    this.root.add(ring);
+  }
+}
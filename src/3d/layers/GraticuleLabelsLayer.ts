@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { CSS2DObject } from 'three/addons/renderers/CSS2DRenderer.js';
+import type { Scene3D } from '../Scene3D';
+import { ColorOption } from '../sceneOptions';
+import { geodeticToEcef } from '../geo/geodetic';
+import { formatLatitudeLabel, formatLongitudeLabel } from '../geo/format';
+import { ObjectLayer } from './ObjectLayer';
+import { autoGraticuleStep, GRATICULE_ALTITUDE, GraticuleStep, multiplesOf } from './graticule';
+
+// Degree labels at the graticule intervals: longitudes along the equator, latitudes
+// along the prime meridian. Follows the same auto densification as the lines, and hides
+// labels that have gone over the horizon.
+export class GraticuleLabelsLayer extends ObjectLayer {
+  private scene: Scene3D | null = null;
+  private labels: CSS2DObject[] = [];
+  private step: GraticuleStep = 'auto';
+  private builtSteps: string = ''; // "longitude/latitude" currently labelled
+
+  constructor(
+    private longitudeBaseStep: number, // degrees, with the whole globe in view
+    private latitudeBaseStep: number,
+    private color: ColorOption,
+    private scaleFactor: number // Meters per scene unit
+  ) {
+    super('graticule-labels', 'Degree labels', 'Reference', 'earthFixed');
+  }
+
+  attach(scene: Scene3D): void {
+    super.attach(scene);
+    this.scene = scene;
+  }
+
+  setStep(step: GraticuleStep): void {
+    this.step = step;
+  }
+
+  update(_time: Date): void {
+    if (!this.scene || !this.isVisible()) return;
+
+    const camera = this.scene.getCamera();
+    const altitude = this.scene.getCameraAltitude();
+    const stepFor = (base: number) => (this.step === 'auto' ? autoGraticuleStep(base, camera, altitude) : this.step);
+    const longitudeStep = stepFor(this.longitudeBaseStep);
+    const latitudeStep = stepFor(this.latitudeBaseStep);
+    const steps = `${longitudeStep}/${latitudeStep}`;
+    if (steps !== this.builtSteps) {
+      this.build(longitudeStep, latitudeStep);
+      this.builtSteps = steps;
+    }
+
+    // Hide labels on the far side of the globe
+    const center = this.root.getWorldPosition(new THREE.Vector3());
+    const point = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const toCamera = new THREE.Vector3();
+    this.labels.forEach(label => {
+      label.getWorldPosition(point);
+      normal.subVectors(point, center).normalize();
+      toCamera.subVectors(camera.position, point);
+      label.visible = toCamera.dot(normal) > 0;
+    });
+  }
+
+  dispose(): void {
+    this.clear();
+    super.dispose();
+  }
+
+  // Labels are HTML, so they fade through CSS
+  protected applyOpacity(opacity: number): void {
+    this.labels.forEach(label => {
+      label.element.style.opacity = String(opacity);
+    });
+  }
+
+  private build(longitudeStep: number, latitudeStep: number): void {
+    this.clear();
+    multiplesOf(longitudeStep, -180, 180).forEach(longitude => {
+      // Centred just above the equator
+      this.addLabel(0, longitude, formatLongitudeLabel(longitude), 0.5, 1);
+    });
+    multiplesOf(latitudeStep, -90, 90)
+      .filter(latitude => latitude !== 0 && latitude !== -90) // 0° is already labelled on the equator
+      .forEach(latitude => {
+        // Just right of the prime meridian
+        this.addLabel(latitude, 0, formatLatitudeLabel(latitude), 0, 0.5);
+      });
+    this.applyOpacity(this.getOpacity());
+  }
+
+  private addLabel(latitude: number, longitude: number, text: string, centerX: number, centerY: number): void {
+    const element = document.createElement('div');
+    element.className = 'graticule-label';
+    element.style.color = `#${new THREE.Color(this.color).getHexString()}`;
+    element.textContent = text;
+
+    const label = new CSS2DObject(element);
+    label.center.set(centerX, centerY);
+    geodeticToEcef(latitude, longitude, GRATICULE_ALTITUDE, label.position).divideScalar(this.scaleFactor);
+    this.root.add(label);
+    this.labels.push(label);
+  }
+
+  private clear(): void {
+    this.labels.forEach(label => {
+      label.removeFromParent(); // Also takes the element out of the label renderer
+    });
+    this.labels = [];
+  }
+}
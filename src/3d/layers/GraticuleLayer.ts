@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import type { Scene3D } from '../Scene3D';
+import { ColorOption } from '../sceneOptions';
+import { ObjectLayer } from './ObjectLayer';
+import {
+  autoGraticuleStep,
+  createPolylineGeometry,
+  GraticuleStep,
+  LatLon,
+  meridian,
+  multiplesOf,
+  parallel,
+} from './graticule';
+
+export type GraticuleKind = 'meridians' | 'parallels';
+
+// Meridians or parallels on the exact ellipsoid, in the earth-fixed frame. In auto mode
+// the interval starts at `baseStep` and densifies as the camera zooms in; the lines are
+// regenerated whenever the interval changes.
+export class GraticuleLayer extends ObjectLayer {
+  private scene: Scene3D | null = null;
+  private lines: THREE.LineSegments;
+  private step: GraticuleStep = 'auto';
+  private builtStep: number | null = null;
+
+  constructor(
+    private kind: GraticuleKind,
+    private baseStep: number, // degrees, with the whole globe in view
+    color: ColorOption,
+    private scaleFactor: number // Meters per scene unit
+  ) {
+    super(
+      kind === 'meridians' ? 'longitude' : 'latitude',
+      kind === 'meridians' ? 'Longitude' : 'Latitude',
+      'Reference',
+      'earthFixed'
+    );
+    const material = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.5 });
+    this.lines = new THREE.LineSegments(new THREE.BufferGeometry(), material); // Filled by update()
+    this.root.add(this.lines);
+  }
+
+  attach(scene: Scene3D): void {
+    super.attach(scene);
+    this.scene = scene;
+  }
+
+  setStep(step: GraticuleStep): void {
+    this.step = step;
+  }
+
+  // Interval currently drawn, degrees; null until the first frame
+  getCurrentStep(): number | null {
+    return this.builtStep;
+  }
+
+  update(_time: Date): void {
+    if (!this.scene || !this.isVisible()) return;
+    const step = this.step === 'auto'
+      ? autoGraticuleStep(this.baseStep, this.scene.getCamera(), this.scene.getCameraAltitude())
+      : this.step;
+    if (step !== this.builtStep) {
+      this.build(step);
+    }
+  }
+
+  private build(step: number): void {
+    let polylines: LatLon[][];
+    if (this.kind === 'meridians') {
+      polylines = multiplesOf(step, -180, 180).map(longitude => meridian(longitude));
+    } else {
+      // The equator and the poles are left to their own layers
+      polylines = multiplesOf(step, -90, 90)
+        .filter(latitude => latitude !== 0 && latitude !== -90)
+        .map(latitude => parallel(latitude));
+    }
+    this.lines.geometry.dispose();
+    this.lines.geometry = createPolylineGeometry(polylines, this.scaleFactor);
+    this.builtStep = step;
+  }
+}
@@ -0,0 +1,25 @@
+import type { Scene3D } from '../Scene3D';
+
+// A switchable part of the scene (reference lines, atmosphere, data overlays...). Layers
+// are registered with Scene3D.layers, which attaches them, updates them every frame and
+// keeps their panel order; the Layer sidebar is generated from that registry.
+export interface Layer {
+  readonly id: string; // Unique within the registry; also used in shared links
+  readonly name: string; // Label in the Layer panel
+  readonly group: string; // Panel heading the layer is listed under
+  readonly removable?: boolean; // Offer a remove button (loaded data rather than built-ins)
+  attach(scene: Scene3D): void; // Called once, when registered
+  update(time: Date): void; // Every frame, with the simulation time
+  isVisible(): boolean;
+  setVisible(visible: boolean): void;
+  getOpacity(): number;
+  setOpacity(opacity: number): void; // 0..1, relative to the layer's own styling
+  setOrder(order: number): void; // Higher orders draw later, i.e. on top of lower ones
+  dispose(): void;
+}
+
+// Scene3D frames a layer can live in:
+//   'system'     tilted equatorial frame, not rotating with the Earth (pole, atmosphere)
+//   'body'       earthMesh: rotates with the Earth, unit sphere scaled to the ellipsoid
+//   'earthFixed' rotates with the Earth, WGS84 ECEF / scale factor (geodeticToEcef() data)
+export type LayerFrame = 'system' | 'body' | 'earthFixed';
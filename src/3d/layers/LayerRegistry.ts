@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import type { Scene3D } from '../Scene3D';
+import { Layer } from './Layer';
+
+export interface LayerRegistryEventMap {
+  list: {}; // Layers registered, removed or reordered
+  change: { layer: Layer }; // A layer was shown, hidden or faded
+}
+
+// The layers of a scene in panel order, topmost first. Registering attaches a layer;
+// the registry then owns it, updating it every frame and disposing of it on removal.
+export class LayerRegistry extends THREE.EventDispatcher<LayerRegistryEventMap> {
+  private layers: Layer[] = [];
+
+  constructor(private scene: Scene3D) {
+    super();
+  }
+
+  // New layers go at the bottom of their group, so groups stay together in the panel. A
+  // layer with the same id is replaced in place (e.g. a GeoJSON file loaded again).
+  register(layer: Layer): Layer {
+    let index = this.layers.findIndex(other => other.id === layer.id);
+    if (index !== -1) {
+      this.layers[index].dispose();
+      this.layers.splice(index, 1);
+    } else {
+      const lastInGroup = this.layers.map(other => other.group).lastIndexOf(layer.group);
+      index = lastInGroup !== -1 ? lastInGroup + 1 : this.layers.length;
+    }
+    layer.attach(this.scene);
+    this.layers.splice(index, 0, layer);
+    this.applyOrder();
+    this.dispatchEvent({ type: 'list' });
+    return layer;
+  }
+
+  unregister(id: string): boolean {
+    const index = this.layers.findIndex(layer => layer.id === id);
+    if (index === -1) return false;
+    const [layer] = this.layers.splice(index, 1);
+    layer.dispose();
+    this.applyOrder();
+    this.dispatchEvent({ type: 'list' });
+    return true;
+  }
+
+  get(id: string): Layer | undefined {
+    return this.layers.find(layer => layer.id === id);
+  }
+
+  list(): readonly Layer[] {
+    return this.layers;
+  }
+
+  // Move a layer to a position in the panel order
+  move(id: string, index: number): void {
+    const from = this.layers.findIndex(layer => layer.id === id);
+    const to = THREE.MathUtils.clamp(index, 0, this.layers.length - 1);
+    if (from === -1 || from === to) return;
+    const [layer] = this.layers.splice(from, 1);
+    this.layers.splice(to, 0, layer);
+    this.applyOrder();
+    this.dispatchEvent({ type: 'list' });
+  }
+
+  setVisible(id: string, visible: boolean): void {
+    const layer = this.get(id);
+    if (!layer || layer.isVisible() === visible) return;
+    layer.setVisible(visible);
+    this.dispatchEvent({ type: 'change', layer });
+  }
+
+  setOpacity(id: string, opacity: number): void {
+    const layer = this.get(id);
+    if (!layer) return;
+    layer.setOpacity(opacity);
+    this.dispatchEvent({ type: 'change', layer });
+  }
+
+  update(time: Date): void {
+    this.layers.forEach(layer => layer.update(time));
+  }
+
+  dispose(): void {
+    this.layers.forEach(layer => layer.dispose());
+    this.layers = [];
+  }
+
+  // The top of the panel draws last; order 0 is left to objects outside the registry
+  private applyOrder(): void {
+    this.layers.forEach((layer, index) => layer.setOrder(this.layers.length - index));
+  }
+}
@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { ColorOption } from '../sceneOptions';
+import { geodeticToEcef } from '../geo/geodetic';
+import { geodesicArea, geodesicInverse, geodesicLength, geodesicLine } from '../geo/geodesic';
+import { ObjectLayer } from './ObjectLayer';
+import { createPolylineGeometry, GRATICULE_ALTITUDE, LatLon } from './graticule';
+
+export type MeasureKind = 'distance' | 'area';
+
+export interface Measurement {
+  id: string;
+  kind: MeasureKind;
+  points: LatLon[]; // Clicked vertices; an area's ring closes back to the first
+  distance: number; // meters: the length of a distance, the perimeter of an area
+  bearing: number | null; // Initial bearing from the first to the second point, degrees (distance only)
+  area: number | null; // square meters (area only)
+}
+
+interface DrawnMeasurement {
+  measurement: Measurement;
+  object: THREE.Group;
+}
+
+// Points needed before a measurement can be finished
+const MIN_POINTS: Record<MeasureKind, number> = { distance: 2, area: 3 };
+
+// Geodesic distance and area measurements clicked on the globe, drawn as paths along the
+// ellipsoid with their vertices marked. The one being clicked is the draft; a distance
+// completes on its second point, an area when finish() is called.
+export class MeasurementLayer extends ObjectLayer {
+  private measurements: DrawnMeasurement[] = [];
+  private draft: { kind: MeasureKind; points: LatLon[]; object: THREE.Group | null } | null = null;
+  private nextId: number = 1;
+  private order: number = 0;
+  private lineMaterial: THREE.LineBasicMaterial;
+  private pointMaterial: THREE.PointsMaterial;
+
+  constructor(
+    color: ColorOption,
+    private scaleFactor: number // Meters per scene unit
+  ) {
+    super('measurements', 'Measurements', 'Reference', 'earthFixed');
+    this.lineMaterial = new THREE.LineBasicMaterial({ color });
+    this.pointMaterial = new THREE.PointsMaterial({ color, size: 6, sizeAttenuation: false });
+  }
+
+  // Add a vertex to the draft, starting one of `kind` if needed (or if the kind changed).
+  // Returns the measurement if this point completed it. Throws, leaving the draft as it
+  // was, if the point is nearly antipodal to the previous one.
+  addPoint(kind: MeasureKind, point: LatLon): Measurement | null {
+    if (this.draft?.kind !== kind) {
+      this.cancel();
+      this.draft = { kind, points: [], object: null };
+    }
+    const previous = this.draft.points[this.draft.points.length - 1];
+    if (previous) {
+      geodesicInverse(previous[0], previous[1], point[0], point[1]);
+    }
+    this.draft.points.push(point);
+    if (kind === 'distance' && this.draft.points.length === MIN_POINTS.distance) {
+      return this.finish();
+    }
+    this.redrawDraft();
+    return null;
+  }
+
+  // Complete the draft if it has enough points; otherwise it's discarded. Throws, keeping
+  // the draft, if an area's closing edge has no geodesic.
+  finish(): Measurement | null {
+    const draft = this.draft;
+    if (!draft || draft.points.length < MIN_POINTS[draft.kind]) {
+      this.cancel();
+      return null;
+    }
+
+    const { kind, points } = draft;
+    const measurement: Measurement = {
+      id: `measurement-${this.nextId++}`,
+      kind,
+      points,
+      distance: geodesicLength(points, kind === 'area'),
+      bearing: kind === 'distance' ? geodesicInverse(points[0][0], points[0][1], points[1][0], points[1][1]).initialBearing : null,
+      area: kind === 'area' ? geodesicArea(points) : null,
+    };
+    this.cancel();
+    this.measurements.push({ measurement, object: this.draw(points, kind === 'area') });
+    return measurement;
+  }
+
+  cancel(): void {
+    if (this.draft?.object) {
+      this.removeObject(this.draft.object);
+    }
+    this.draft = null;
+  }
+
+  getDraftPoints(): LatLon[] {
+    return this.draft?.points ?? [];
+  }
+
+  list(): Measurement[] {
+    return this.measurements.map(entry => entry.measurement);
+  }
+
+  remove(id: string): boolean {
+    const index = this.measurements.findIndex(entry => entry.measurement.id === id);
+    if (index === -1) return false;
+    this.removeObject(this.measurements[index].object);
+    this.measurements.splice(index, 1);
+    return true;
+  }
+
+  clear(): void {
+    this.cancel();
+    this.measurements.forEach(entry => this.removeObject(entry.object));
+    this.measurements = [];
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.lineMaterial.dispose(); // In case no measurement was left to dispose them with
+    this.pointMaterial.dispose();
+  }
+
+  setOrder(order: number): void {
+    this.order = order; // For objects added later
+    super.setOrder(order);
+  }
+
+  private redrawDraft(): void {
+    if (!this.draft) return;
+    if (this.draft.object) {
+      this.removeObject(this.draft.object);
+    }
+    this.draft.object = this.draw(this.draft.points, false);
+  }
+
+  // Path along the geodesics between the points, plus a dot at each point. Throws for
+  // nearly antipodal neighbours (see geodesicInverse()).
+  private draw(points: LatLon[], closed: boolean): THREE.Group {
+    const path: LatLon[] = [];
+    const edges = closed ? points.length : points.length - 1;
+    for (let i = 0; i < edges; i++) {
+      path.push(...geodesicLine(points[i], points[(i + 1) % points.length]).slice(i === 0 ? 0 : 1));
+    }
+
+    const object = new THREE.Group();
+    if (path.length > 1) {
+      object.add(new THREE.LineSegments(createPolylineGeometry([path], this.scaleFactor), this.lineMaterial));
+    }
+    const positions = points.flatMap(([latitude, longitude]) =>
+      geodeticToEcef(latitude, longitude, GRATICULE_ALTITUDE).divideScalar(this.scaleFactor).toArray()
+    );
+    const dots = new THREE.BufferGeometry();
+    dots.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    object.add(new THREE.Points(dots, this.pointMaterial));
+
+    object.traverse(child => {
+      child.renderOrder = this.order;
+    });
+    this.root.add(object);
+    this.applyOpacity(this.getOpacity());
+    return object;
+  }
+
+  // The materials are shared, so only the geometry goes
+  private removeObject(object: THREE.Group): void {
+    object.traverse(child => {
+      if (child instanceof THREE.LineSegments || child instanceof THREE.Points) {
+        child.geometry.dispose();
+      }
+    });
+    object.removeFromParent();
+  }
+}
@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { NamedLineName, NamedLineStyle } from '../sceneOptions';
+import { ObjectLayer } from './ObjectLayer';
+import { createPolylineGeometry, LatLon, meridian, parallel } from './graticule';
+
+interface NamedLineDefinition {
+  id: string;
+  name: string;
+  line: (axialTilt: number) => LatLon[]; // degrees
+}
+
+// Tropics and polar circles follow the body's axial tilt, so they move with a preset
+export const NAMED_LINES: Record<NamedLineName, NamedLineDefinition> = {
+  tropicOfCancer: { id: 'tropic-of-cancer', name: 'Tropic of Cancer', line: tilt => parallel(tilt) },
+  tropicOfCapricorn: { id: 'tropic-of-capricorn', name: 'Tropic of Capricorn', line: tilt => parallel(-tilt) },
+  arcticCircle: { id: 'arctic-circle', name: 'Arctic Circle', line: tilt => parallel(90 - tilt) },
+  antarcticCircle: { id: 'antarctic-circle', name: 'Antarctic Circle', line: tilt => parallel(tilt - 90) },
+  primeMeridian: { id: 'prime-meridian', name: 'Prime Meridian', line: () => meridian(0) },
+  // Drawn along 180°; the legal line bends around island groups, which isn't modelled
+  dateLine: { id: 'date-line', name: 'International Date Line', line: () => meridian(180) },
+};
+
+const DASH_LENGTH = 80000; // meters
+const GAP_LENGTH = 50000; // meters
+
+// One of the named parallels or meridians, on the exact ellipsoid with its own style
+export class NamedLineLayer extends ObjectLayer {
+  constructor(
+    line: NamedLineName,
+    style: NamedLineStyle,
+    axialTilt: number, // degrees
+    scaleFactor: number // Meters per scene unit
+  ) {
+    const definition = NAMED_LINES[line];
+    super(definition.id, definition.name, 'Named lines', 'earthFixed');
+
+    const geometry = createPolylineGeometry([definition.line(Math.abs(axialTilt))], scaleFactor);
+    const material = style.dashed
+      ? new THREE.LineDashedMaterial({
+          color: style.color,
+          dashSize: DASH_LENGTH / scaleFactor,
+          gapSize: GAP_LENGTH / scaleFactor,
+        })
+      : new THREE.LineBasicMaterial({ color: style.color });
+    material.transparent = style.opacity < 1;
+    material.opacity = style.opacity;
+
+    const lines = new THREE.LineSegments(geometry, material);
+    if (style.dashed) {
+      lines.computeLineDistances();
+    }
+    this.root.add(lines);
+    this.setVisible(style.visible);
+  }
+}
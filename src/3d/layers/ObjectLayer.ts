@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import type { Scene3D } from '../Scene3D';
+import { Layer, LayerFrame } from './Layer';
+
+type Drawable = THREE.Mesh | THREE.Line | THREE.Points;
+
+// Base for layers drawn as a tree of objects under one root group: subclasses fill
+// `root` and the base places it in its frame and handles visibility, opacity and order
+// for every material underneath.
+export abstract class ObjectLayer implements Layer {
+  protected readonly root: THREE.Group = new THREE.Group();
+  private opacity: number = 1;
+  private baseMaterials: Map<THREE.Material, { opacity: number; transparent: boolean }> = new Map();
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    readonly group: string,
+    private frame: LayerFrame
+  ) {
+    this.root.name = id;
+  }
+
+  attach(scene: Scene3D): void {
+    scene.getLayerFrame(this.frame).add(this.root);
+  }
+
+  update(_time: Date): void {}
+
+  isVisible(): boolean {
+    return this.root.visible;
+  }
+
+  setVisible(visible: boolean): void {
+    this.root.visible = visible;
+  }
+
+  getOpacity(): number {
+    return this.opacity;
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = THREE.MathUtils.clamp(opacity, 0, 1);
+    this.applyOpacity(this.opacity);
+  }
+
+  setOrder(order: number): void {
+    this.root.traverse(object => {
+      object.renderOrder = order;
+    });
+  }
+
+  dispose(): void {
+    this.forEachDrawable(object => {
+      object.geometry.dispose();
+      materialsOf(object).forEach(material => material.dispose());
+    });
+    this.baseMaterials.clear();
+    this.root.removeFromParent();
+  }
+
+  // Scale each material's own opacity; fully opaque materials turn transparent while faded
+  protected applyOpacity(opacity: number): void {
+    this.forEachDrawable(object => {
+      materialsOf(object).forEach(material => {
+        let base = this.baseMaterials.get(material);
+        if (!base) {
+          base = { opacity: material.opacity, transparent: material.transparent };
+          this.baseMaterials.set(material, base);
+        }
+        material.opacity = base.opacity * opacity;
+        const transparent = base.transparent || opacity < 1;
+        if (material.transparent !== transparent) {
+          material.transparent = transparent;
+          material.needsUpdate = true;
+        }
+      });
+    });
+  }
+
+  protected forEachDrawable(callback: (object: Drawable) => void): void {
+    this.root.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Points) {
+        callback(object);
+      }
+    });
+  }
+}
+
+function materialsOf(object: Drawable): THREE.Material[] {
+  return Array.isArray(object.material) ? object.material : [object.material];
+}
@@ -0,0 +1,20 @@
+import * as THREE from 'three';
+import { ColorOption } from '../sceneOptions';
+import { ObjectLayer } from './ObjectLayer';
+
+// North-south rotation axis, poking out past both poles
+export class PoleLayer extends ObjectLayer {
+  constructor(
+    polarRadius: number, // scene units
+    color: ColorOption
+  ) {
+    super('pole', 'Pole', 'Reference', 'system');
+
+    const poleRadius = 0.2; // A small radius for the pole
+    const poleHeight = polarRadius * 2 * 1.30; // Slightly taller than the Earth's polar diameter
+    const geometry = new THREE.CylinderGeometry(poleRadius, poleRadius, poleHeight, 8);
+    const material = new THREE.MeshBasicMaterial({ color });
+    // The cylinder is oriented along the Y-axis by default, which matches the Earth's polar axis
+    this.root.add(new THREE.Mesh(geometry, material));
+  }
+}
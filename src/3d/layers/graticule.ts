@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { geodeticToEcef, WGS84 } from '../geo/geodetic';
+
+// A fixed interval in degrees, or 'auto' to densify from the configured one as the camera closes in
+export type GraticuleStep = number | 'auto';
+
+// [latitude, longitude] in degrees
+export type LatLon = [number, number];
+
+// Lines and labels sit slightly off the surface to stay above the Earth mesh
+export const GRATICULE_ALTITUDE = 10000; // meters
+
+const AUTO_STEPS = [30, 15, 10, 5, 2, 1]; // Intervals auto mode steps down through, degrees
+const MIN_LINES_IN_VIEW = 6; // Go finer once fewer lines than this would cross the view
+const SAMPLE_STEP = 1; // degrees between vertices along a line
+
+// Interval for the current view: `base` while the whole globe is in view, then finer
+// ones as less of the surface fits in the camera's field of view
+export function autoGraticuleStep(base: number, camera: THREE.PerspectiveCamera, altitude: number): number {
+  const height = Math.max(altitude, 1);
+  const horizon = 2 * Math.acos(WGS84.a / (WGS84.a + height)); // Arc between the horizons, radians
+  const footprint = (2 * height * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / WGS84.a; // Looking straight down
+  const span = THREE.MathUtils.radToDeg(Math.min(horizon, footprint));
+
+  let step = base;
+  for (const candidate of AUTO_STEPS) {
+    if (candidate < step && span / step < MIN_LINES_IN_VIEW) {
+      step = candidate;
+    }
+  }
+  return step;
+}
+
+// Multiples of `step` in [from, to), counted from zero so 0° is always among them
+export function multiplesOf(step: number, from: number, to: number): number[] {
+  const values: number[] = [];
+  for (let i = Math.ceil(from / step - 1e-9); i * step < to - 1e-9; i++) {
+    values.push(i * step);
+  }
+  return values;
+}
+
+export function meridian(longitude: number, fromLatitude: number = -90, toLatitude: number = 90): LatLon[] {
+  const count = Math.max(1, Math.ceil((toLatitude - fromLatitude) / SAMPLE_STEP));
+  return Array.from({ length: count + 1 }, (_, i): LatLon => [fromLatitude + ((toLatitude - fromLatitude) * i) / count, longitude]);
+}
+
+export function parallel(latitude: number): LatLon[] {
+  const count = Math.ceil(360 / SAMPLE_STEP);
+  return Array.from({ length: count + 1 }, (_, i): LatLon => [latitude, -180 + (360 * i) / count]);
+}
+
+// Polylines on the exact WGS84 ellipsoid, merged into one LineSegments geometry for the
+// earth-fixed frame
+export function createPolylineGeometry(polylines: LatLon[][], scaleFactor: number): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const vertex = new THREE.Vector3();
+  const push = ([latitude, longitude]: LatLon) => {
+    geodeticToEcef(latitude, longitude, GRATICULE_ALTITUDE, vertex).divideScalar(scaleFactor);
+    positions.push(vertex.x, vertex.y, vertex.z);
+  };
+  polylines.forEach(line => {
+    for (let i = 1; i < line.length; i++) {
+      push(line[i - 1]);
+      push(line[i]);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
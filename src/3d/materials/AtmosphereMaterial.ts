@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+
+export interface AtmosphereMaterialOptions {
+  dayColor?: THREE.ColorRepresentation; // Rim colour with the Sun high overhead
+  sunsetColor?: THREE.ColorRepresentation; // Rim colour along the terminator
+  intensity?: number;
+  power?: number; // Higher values pull the glow tighter to the limb
+}
+
+const vertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    vWorldNormal = normalize(transpose(inverse(mat3(modelMatrix))) * normal);
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+    #include <logdepthbuf_vertex>
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+
+  uniform vec3 sunDirection; // World space, unit vector from the Earth towards the Sun
+  uniform vec3 dayColor;
+  uniform vec3 sunsetColor;
+  uniform float intensity;
+  uniform float power;
+
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    #include <logdepthbuf_fragment>
+
+    vec3 normal = normalize(vWorldNormal);
+    vec3 viewDirection = normalize(cameraPosition - vWorldPosition);
+
+    // Glow grows towards the limb, where the line of sight crosses the most air
+    float rim = pow(1.0 - abs(dot(normal, viewDirection)), power);
+
+    float sunFacing = dot(normal, sunDirection);
+    float lit = smoothstep(-0.25, 0.25, sunFacing);
+    float sunset = 1.0 - smoothstep(0.0, 0.35, abs(sunFacing));
+    // Forward scattering: the limb brightens when looking towards the Sun
+    float forward = pow(max(dot(-viewDirection, sunDirection), 0.0), 4.0);
+
+    vec3 color = mix(dayColor, sunsetColor, sunset);
+    gl_FragColor = vec4(color * rim * intensity * (lit + forward * 0.5), 1.0);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+// Additive rim-glow shell whose colour follows the Sun: blue by day, orange at the terminator
+export class AtmosphereMaterial extends THREE.ShaderMaterial {
+  constructor(options: AtmosphereMaterialOptions = {}) {
+    super({
+      vertexShader,
+      fragmentShader,
+      uniforms: {
+        sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+        dayColor: { value: new THREE.Color(options.dayColor ?? 0x4d9bff) },
+        sunsetColor: { value: new THREE.Color(options.sunsetColor ?? 0xff7a33) },
+        intensity: { value: options.intensity ?? 1.4 },
+        power: { value: options.power ?? 3 },
+      },
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    });
+  }
+
+  setSunDirection(direction: THREE.Vector3): void {
+    this.uniforms.sunDirection.value.copy(direction).normalize();
+  }
+}
@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+import { eclipseShadowChunk } from './eclipseShadow';
+
+export interface EarthMaterialOptions {
+  dayMap: THREE.Texture;
+  nightMap?: THREE.Texture | null; // City lights, shown on the dark side
+  specularMap?: THREE.Texture | null; // Water mask: white where oceans reflect the Sun
+  normalMap?: THREE.Texture | null; // Tangent-space normals; takes precedence over bumpMap
+  bumpMap?: THREE.Texture | null; // Height map
+  twilightWidth?: number; // Half-width of the day/night blend, in degrees of solar elevation
+  twilightColor?: THREE.ColorRepresentation;
+  nightIntensity?: number;
+  ambientIntensity?: number;
+  specularStrength?: number;
+  shininess?: number;
+  bumpScale?: number;
+  normalScale?: number;
+}
+
+const vertexShader = /* glsl */ `
+  #include <common>
+  #include <logdepthbuf_pars_vertex>
+
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    vUv = uv;
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    // Inverse-transpose keeps normals perpendicular under the ellipsoid's non-uniform scale
+    vWorldNormal = normalize(transpose(inverse(mat3(modelMatrix))) * normal);
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+    #include <logdepthbuf_vertex>
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  #include <logdepthbuf_pars_fragment>
+
+  uniform sampler2D dayMap;
+  uniform sampler2D nightMap;
+  uniform sampler2D specularMap;
+  uniform sampler2D normalMap;
+  uniform sampler2D bumpMap;
+
+  uniform vec3 sunDirection; // World space, unit vector from the Earth towards the Sun
+  uniform float twilightWidth; // Sine of the band half-width
+  uniform vec3 twilightColor;
+  uniform float nightIntensity;
+  uniform float ambientIntensity;
+  uniform float specularStrength;
+  uniform float shininess;
+  uniform float bumpScale;
+  uniform vec2 normalScale;
+  uniform vec3 occluderPosition; // World space centre of a body that can eclipse the Sun (the Moon)
+  uniform float occluderRadius; // Zero disables eclipse shadows
+
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  ${eclipseShadowChunk}
+
+  #ifdef USE_NORMAL_MAP
+  // Cotangent frame from screen-space derivatives; SphereGeometry has no tangents
+  mat3 getTangentFrame(vec3 position, vec3 normal, vec2 uv) {
+    vec3 q0 = dFdx(position);
+    vec3 q1 = dFdy(position);
+    vec2 st0 = dFdx(uv);
+    vec2 st1 = dFdy(uv);
+    vec3 q1perp = cross(q1, normal);
+    vec3 q0perp = cross(normal, q0);
+    vec3 T = q1perp * st0.x + q0perp * st1.x;
+    vec3 B = q1perp * st0.y + q0perp * st1.y;
+    float det = max(dot(T, T), dot(B, B));
+    float scale = (det == 0.0) ? 0.0 : inversesqrt(det);
+    return mat3(T * scale, B * scale, normal);
+  }
+  #endif
+
+  #if defined(USE_BUMP_MAP) && !defined(USE_NORMAL_MAP)
+  // Bump mapping without tangents (Mikkelsen, "Bump Mapping Unparametrized Surfaces on the GPU")
+  vec3 perturbNormalFromBump(vec3 position, vec3 normal) {
+    vec2 dSTdx = dFdx(vUv);
+    vec2 dSTdy = dFdy(vUv);
+    float height = bumpScale * texture2D(bumpMap, vUv).x;
+    vec2 dHdxy = vec2(
+      bumpScale * texture2D(bumpMap, vUv + dSTdx).x - height,
+      bumpScale * texture2D(bumpMap, vUv + dSTdy).x - height
+    );
+    vec3 sigmaX = dFdx(position);
+    vec3 sigmaY = dFdy(position);
+    vec3 r1 = cross(sigmaY, normal);
+    vec3 r2 = cross(normal, sigmaX);
+    float det = dot(sigmaX, r1);
+    vec3 gradient = sign(det) * (dHdxy.x * r1 + dHdxy.y * r2);
+    return normalize(abs(det) * normal - gradient);
+  }
+  #endif
+
+  void main() {
+    #include <logdepthbuf_fragment>
+
+    vec3 geometryNormal = normalize(vWorldNormal);
+    vec3 normal = geometryNormal;
+
+    #ifdef USE_NORMAL_MAP
+      vec3 mapNormal = texture2D(normalMap, vUv).xyz * 2.0 - 1.0;
+      mapNormal.xy *= normalScale;
+      normal = normalize(getTangentFrame(vWorldPosition, geometryNormal, vUv) * mapNormal);
+    #elif defined(USE_BUMP_MAP)
+      normal = perturbNormalFromBump(vWorldPosition, geometryNormal);
+    #endif
+
+    // The terminator follows the smooth surface, not the bumps
+    float sunElevation = dot(geometryNormal, sunDirection);
+    float dayFactor = smoothstep(-twilightWidth, twilightWidth, sunElevation);
+    float twilightBand = 1.0 - abs(dayFactor * 2.0 - 1.0);
+
+    // Direct sunlight only; the dark side and ambient light are unaffected by an eclipse
+    float sunlight = eclipseLight(vWorldPosition, sunDirection, occluderPosition, occluderRadius);
+
+    vec3 dayColor = texture2D(dayMap, vUv).rgb;
+    float diffuse = max(dot(normal, sunDirection), 0.0) * sunlight;
+    vec3 color = dayColor * (ambientIntensity + diffuse) * dayFactor;
+
+    #ifdef USE_NIGHT_MAP
+      color += texture2D(nightMap, vUv).rgb * nightIntensity * (1.0 - dayFactor);
+    #endif
+    color += dayColor * ambientIntensity * (1.0 - dayFactor);
+
+    #ifdef USE_SPECULAR_MAP
+      vec3 viewDirection = normalize(cameraPosition - vWorldPosition);
+      vec3 halfway = normalize(sunDirection + viewDirection);
+      float waterMask = texture2D(specularMap, vUv).r;
+      float specular = pow(max(dot(normal, halfway), 0.0), shininess) * specularStrength * waterMask * sunlight;
+      color += vec3(specular) * dayFactor;
+    #endif
+
+    // Warm tint where the Sun is near the horizon
+    color *= mix(vec3(1.0), twilightColor, twilightBand * 0.6);
+
+    gl_FragColor = vec4(color, 1.0);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+// Earth surface shading driven by the Sun direction: day map on the lit side, city
+// lights on the dark side, a soft twilight band between them and ocean glints.
+export class EarthMaterial extends THREE.ShaderMaterial {
+  private detailDefines: string[]; // Relief and glint switches the maps allow
+  private surfaceDetail: boolean = true;
+
+  constructor(options: EarthMaterialOptions) {
+    const defines: Record<string, string> = {};
+    if (options.nightMap) defines.USE_NIGHT_MAP = '';
+    if (options.specularMap) defines.USE_SPECULAR_MAP = '';
+    if (options.normalMap) defines.USE_NORMAL_MAP = '';
+    if (options.bumpMap) defines.USE_BUMP_MAP = '';
+
+    const normalScale = options.normalScale ?? 1;
+    super({
+      vertexShader,
+      fragmentShader,
+      defines,
+      uniforms: {
+        dayMap: { value: options.dayMap },
+        nightMap: { value: options.nightMap ?? null },
+        specularMap: { value: options.specularMap ?? null },
+        normalMap: { value: options.normalMap ?? null },
+        bumpMap: { value: options.bumpMap ?? null },
+        sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+        twilightWidth: { value: Math.sin(THREE.MathUtils.degToRad(options.twilightWidth ?? 6)) },
+        twilightColor: { value: new THREE.Color(options.twilightColor ?? 0xff8a3d) },
+        nightIntensity: { value: options.nightIntensity ?? 1.2 },
+        ambientIntensity: { value: options.ambientIntensity ?? 0.03 },
+        specularStrength: { value: options.specularStrength ?? 0.6 },
+        shininess: { value: options.shininess ?? 40 },
+        bumpScale: { value: options.bumpScale ?? 0.5 },
+        normalScale: { value: new THREE.Vector2(normalScale, normalScale) },
+        occluderPosition: { value: new THREE.Vector3() },
+        occluderRadius: { value: 0 },
+      },
+    });
+    this.detailDefines = ['USE_SPECULAR_MAP', 'USE_NORMAL_MAP', 'USE_BUMP_MAP'].filter(name => name in defines);
+  }
+
+  // Relief and ocean glints: the per-pixel work adaptive quality sheds first. Changing it
+  // recompiles the shader.
+  setSurfaceDetail(enabled: boolean): void {
+    if (enabled === this.surfaceDetail) return;
+    this.surfaceDetail = enabled;
+    this.detailDefines.forEach(name => {
+      if (enabled) {
+        this.defines[name] = '';
+      } else {
+        delete this.defines[name];
+      }
+    });
+    this.needsUpdate = true;
+  }
+
+  // World-space direction from the Earth's centre towards the Sun
+  setSunDirection(direction: THREE.Vector3): void {
+    this.uniforms.sunDirection.value.copy(direction).normalize();
+  }
+
+  // Body whose shadow falls on the Earth during a solar eclipse (world space); radius 0 disables
+  setOccluder(position: THREE.Vector3, radius: number): void {
+    this.uniforms.occluderPosition.value.copy(position);
+    this.uniforms.occluderRadius.value = radius;
+  }
+
+  getTwilightWidth(): number {
+    return THREE.MathUtils.radToDeg(Math.asin(this.uniforms.twilightWidth.value));
+  }
+
+  setTwilightWidth(degrees: number): void {
+    this.uniforms.twilightWidth.value = Math.sin(THREE.MathUtils.degToRad(THREE.MathUtils.clamp(degrees, 0.1, 30)));
+  }
+
+  // Textures this material owns, for disposal
+  getTextures(): THREE.Texture[] {
+    return ['dayMap', 'nightMap', 'specularMap', 'normalMap', 'bumpMap']
+      .map(name => this.uniforms[name].value as THREE.Texture | null)
+      .filter((texture): texture is THREE.Texture => texture !== null);
+  }
+}
@@ -0,0 +1,35 @@
+// GLSL shared by materials that can be shadowed by another body during an eclipse.
+//
+// The Sun is a disc of its true angular radius as seen from the shaded point, the
+// occluder a disc of its own angular radius; the light left is one minus the share of
+// the Sun's disc covered. That gives umbra, penumbra and annular phases without a
+// shadow map, which would need far more resolution than a 100 km lunar shadow allows.
+export const SUN_ANGULAR_RADIUS = 0.004654; // radians, mean
+
+export const eclipseShadowChunk = /* glsl */ `
+  #define SUN_ANGULAR_RADIUS ${SUN_ANGULAR_RADIUS}
+
+  // Fraction of sunlight reaching \`point\` (world space) past a spherical occluder.
+  // A radius of zero disables the test.
+  float eclipseLight(vec3 point, vec3 sunDirection, vec3 occluderCenter, float occluderRadius) {
+    if (occluderRadius <= 0.0) return 1.0;
+
+    vec3 toOccluder = occluderCenter - point;
+    float occluderDistance = length(toOccluder);
+    // Inside the occluder, or the occluder lies on the far side of the point from the Sun
+    if (occluderDistance <= occluderRadius || dot(toOccluder, sunDirection) <= 0.0) return 1.0;
+
+    float occluderAngle = asin(occluderRadius / occluderDistance);
+    // asin of the cross product keeps precision at the tiny angles involved, where acos doesn't
+    float separation = asin(min(length(cross(toOccluder / occluderDistance, sunDirection)), 1.0));
+
+    float coverage = 1.0 - smoothstep(
+      abs(occluderAngle - SUN_ANGULAR_RADIUS),
+      occluderAngle + SUN_ANGULAR_RADIUS,
+      separation
+    );
+    // An occluder smaller than the Sun (annular eclipse) can only cover part of it
+    coverage *= min(1.0, (occluderAngle * occluderAngle) / (SUN_ANGULAR_RADIUS * SUN_ANGULAR_RADIUS));
+    return 1.0 - coverage;
+  }
+`;
@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import type { EarthShading, SolarScale } from './Scene3D';
+import { MarkerOptions } from './MarkerLayer';
+import { GraticuleStep } from './layers/graticule';
+import { MIN_GRATICULE_STEP } from './sceneOptions';
+import { check, describe, isNumber, isPlainObject, isVector } from './validation';
+import { MAX_SIMULATION_RATE } from './SimulationClock';
+
+// A saved scene as written by Scene3D.toProject() and restored by Scene3D.loadProject():
+// what a presenter sets up (view, time, layers, placemarks, loaded overlays), but not the
+// scene options, which belong to the page. Bump PROJECT_VERSION on incompatible changes
+// and upgrade older files in parseProject().
+export const PROJECT_VERSION = 1;
+
+export interface SceneProject {
+  version: typeof PROJECT_VERSION;
+  name: string;
+  savedAt: string; // ISO 8601
+  camera: { position: THREE.Vector3Tuple; target: THREE.Vector3Tuple };
+  time: { date: string; rate: number; reversed: boolean; paused: boolean };
+  layers: ProjectLayer[]; // Panel order, topmost first
+  markers: MarkerOptions[];
+  geoJson: ProjectGeoJson[]; // Data embedded so the file stands alone; drawn with the default style
+  display: { earthShading: EarthShading; graticuleStep: GraticuleStep; solarScale?: SolarScale }; // No solarScale: presentation
+}
+
+export interface ProjectLayer {
+  id: string;
+  visible: boolean;
+  opacity: number; // 0..1
+}
+
+export interface ProjectGeoJson {
+  id: string;
+  data: unknown;
+}
+
+// Check a parsed project file, reporting all problems at once, e.g.
+// "Project tour.json is invalid: time.rate must be a positive number, got 0"
+export function parseProject(json: unknown, source: string = 'Project'): SceneProject {
+  if (!isPlainObject(json)) {
+    throw new Error(`${source} is invalid: expected a JSON object, got ${describe(json)}`);
+  }
+  if (typeof json.version === 'number' && json.version > PROJECT_VERSION) {
+    throw new Error(`${source} was saved by a newer version (project version ${json.version}, this app reads up to ${PROJECT_VERSION})`);
+  }
+
+  const problems: string[] = [];
+  const section = (key: string): Record<string, unknown> => {
+    const value = json[key];
+    return check(problems, isPlainObject(value), key, 'an object', value) ? (value as Record<string, unknown>) : {};
+  };
+
+  check(problems, json.version === PROJECT_VERSION, 'version', String(PROJECT_VERSION), json.version);
+  check(problems, typeof json.name === 'string', 'name', 'a string', json.name);
+
+  const camera = section('camera');
+  check(problems, isVector(camera.position), 'camera.position', 'three numbers', camera.position);
+  check(problems, isVector(camera.target), 'camera.target', 'three numbers', camera.target);
+
+  const time = section('time');
+  check(problems, typeof time.date === 'string' && !Number.isNaN(Date.parse(time.date)), 'time.date', 'an ISO 8601 date', time.date);
+  check(problems, isNumber(time.rate) && time.rate > 0 && time.rate <= MAX_SIMULATION_RATE,
+    'time.rate', `a number above 0 and at most ${MAX_SIMULATION_RATE}`, time.rate);
+  check(problems, typeof time.reversed === 'boolean', 'time.reversed', 'true or false', time.reversed);
+  check(problems, typeof time.paused === 'boolean', 'time.paused', 'true or false', time.paused);
+
+  const list = (key: string): unknown[] => {
+    const value = json[key];
+    return check(problems, Array.isArray(value), key, 'an array', value) ? (value as unknown[]) : [];
+  };
+  list('layers').forEach((layer, index) => {
+    const path = `layers[${index}]`;
+    if (!check(problems, isPlainObject(layer), path, 'an object', layer)) return;
+    const { id, visible, opacity } = layer as Record<string, unknown>;
+    check(problems, typeof id === 'string', `${path}.id`, 'a string', id);
+    check(problems, typeof visible === 'boolean', `${path}.visible`, 'true or false', visible);
+    check(problems, isNumber(opacity) && opacity >= 0 && opacity <= 1, `${path}.opacity`, 'a number from 0 to 1', opacity);
+  });
+  list('markers').forEach((marker, index) => {
+    const path = `markers[${index}]`;
+    if (!check(problems, isPlainObject(marker), path, 'an object', marker)) return;
+    const { id, lat, lon, label, color, icon, altitude } = marker as Record<string, unknown>;
+    check(problems, typeof id === 'string', `${path}.id`, 'a string', id);
+    check(problems, isNumber(lat) && Math.abs(lat) <= 90, `${path}.lat`, 'a latitude', lat);
+    check(problems, isNumber(lon) && Math.abs(lon) <= 180, `${path}.lon`, 'a longitude', lon);
+    check(problems, label === undefined || typeof label === 'string', `${path}.label`, 'a string', label);
+    check(problems, color === undefined || isMarkerColor(color), `${path}.color`,
+      'a colour such as "#ff9500", "orange", "rgb(255, 149, 0)" or 0xff9500', color);
+    check(problems, icon === undefined || typeof icon === 'string', `${path}.icon`, 'a string', icon);
+    check(problems, altitude === undefined || isNumber(altitude), `${path}.altitude`, 'a number of meters', altitude);
+  });
+  list('geoJson').forEach((overlay, index) => {
+    const path = `geoJson[${index}]`;
+    if (!check(problems, isPlainObject(overlay), path, 'an object', overlay)) return;
+    const { id, data } = overlay as Record<string, unknown>;
+    check(problems, typeof id === 'string', `${path}.id`, 'a string', id);
+    check(problems, isPlainObject(data), `${path}.data`, 'a GeoJSON object', data);
+  });
+
+  const display = section('display');
+  check(problems, display.earthShading === 'daynight' || display.earthShading === 'standard',
+    'display.earthShading', '"daynight" or "standard"', display.earthShading);
+  const step = display.graticuleStep;
+  check(problems, step === 'auto' || (isNumber(step) && step >= MIN_GRATICULE_STEP && step <= 90),
+    'display.graticuleStep', `"auto" or a number from ${MIN_GRATICULE_STEP} to 90`, step);
+  check(problems, display.solarScale === undefined || display.solarScale === 'presentation' || display.solarScale === 'true',
+    'display.solarScale', '"presentation" or "true"', display.solarScale);
+
+  if (problems.length > 0) {
+    throw new Error(`${source} is invalid: ${problems.join('; ')}`);
+  }
+  return json as unknown as SceneProject;
+}
+
+// The CSS colour forms THREE.Color understands, or 0xRRGGBB
+function isMarkerColor(value: unknown): boolean {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= 0xffffff;
+  }
+  return typeof value === 'string' && (
+    /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)
+    || /^(rgb|hsl)a?\(/i.test(value)
+    || Object.prototype.hasOwnProperty.call(THREE.Color.NAMES, value.toLowerCase())
+  );
+}
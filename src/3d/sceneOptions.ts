@@ -0,0 +1,330 @@
+import * as THREE from 'three';
+import { WGS84 } from './geo/geodetic';
+import { describe, isPlainObject } from './validation';
+
+// Everything about a Scene3D that a deployment might want to change without touching code.
+// Pass a partial object to the constructor (missing values come from the defaults), or
+// load one from a JSON file with loadSceneOptions(). Colours are CSS strings or 0xRRGGBB.
+export interface SceneOptions {
+  body: BodyOptions;
+  scaleFactor: number; // Meters per scene unit
+  textures: TextureOptions;
+  assetManifest: string | null; // Asset pipeline manifest overriding `textures`; null to use them as given
+  camera: CameraOptions;
+  graticule: GraticuleOptions;
+  sun: SunOptions;
+  ambientLight: { color: ColorOption; intensity: number };
+  moonRadius: number; // meters
+  inactivityResumeDelay: number; // ms after the last interaction before time and auto-rotation resume
+}
+
+export type ColorOption = string | number;
+
+export interface BodyOptions {
+  name: string;
+  equatorialRadius: number; // meters
+  polarRadius: number; // meters
+  axialTilt: number; // degrees
+  atmosphereHeight: number; // meters of glow above the surface, 0 for none
+}
+
+// Image URLs; null skips the request and shows the placeholder colour (black sky for the skybox)
+export interface TextureOptions {
+  day: string | null;
+  night: string | null;
+  specular: string | null; // Water mask for the ocean glint
+  bump: string | null;
+  clouds: string | null;
+  moon: string | null;
+  sun: string | null;
+  skybox: string[] | null; // px, nx, py, ny, pz, nz
+}
+
+export interface CameraOptions {
+  fov: number; // degrees, vertical
+  near: number; // scene units
+  far: number; // scene units
+  distance: number; // Initial distance from the centre, scene units
+}
+
+// Steps apply with the whole globe in view; the grid densifies from them as the camera zooms in
+export interface GraticuleOptions {
+  longitudeStep: number; // degrees between meridians
+  latitudeStep: number; // degrees between parallels
+  longitudeColor: ColorOption;
+  latitudeColor: ColorOption;
+  equatorColor: ColorOption;
+  axisColor: ColorOption;
+  labelColor: ColorOption; // Degree labels along the equator and prime meridian
+  namedLines: Record<NamedLineName, NamedLineStyle>;
+}
+
+export type NamedLineName =
+  | 'tropicOfCancer'
+  | 'tropicOfCapricorn'
+  | 'arcticCircle'
+  | 'antarcticCircle'
+  | 'primeMeridian'
+  | 'dateLine';
+
+export interface NamedLineStyle {
+  visible: boolean; // Shown initially; each line is a layer of its own
+  color: ColorOption;
+  opacity: number; // 0..1
+  dashed: boolean;
+}
+
+export interface SunOptions {
+  distance: number; // Presentation distance from the planet, scene units
+  radius: number; // scene units
+  intensity: number; // PointLight intensity (decay 1)
+  color: ColorOption;
+}
+
+// Any section may be given in part; arrays (the skybox faces) are replaced whole
+type DeepPartial<T> = T extends readonly unknown[] ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+export type SceneOptionsInput = DeepPartial<SceneOptions>;
+
+export const MIN_GRATICULE_STEP = 0.5; // degrees
+
+export const DEFAULT_SCENE_OPTIONS: SceneOptions = {
+  body: {
+    name: 'Earth',
+    equatorialRadius: WGS84.a,
+    polarRadius: WGS84.b,
+    axialTilt: 23.5,
+    atmosphereHeight: 150000, // ~150 km, exaggerated for the glow
+  },
+  scaleFactor: 100000,
+  textures: {
+    day: '/8081_earthmap10k.jpg',
+    night: '/8081_earthlights10k.jpg',
+    specular: '/8081_earthspec10k.jpg',
+    bump: '/8081_earthbump10k.jpg',
+    clouds: '/8081_earthclouds10k.jpg',
+    moon: '/8k_moon.jpg',
+    sun: '/8k_sun.jpg',
+    skybox: [
+      '/cube-faces/px.png',
+      '/cube-faces/nx.png',
+      '/cube-faces/py.png',
+      '/cube-faces/ny.png',
+      '/cube-faces/pz.png',
+      '/cube-faces/nz.png',
+    ],
+  },
+  assetManifest: '/assets-manifest.json',
+  camera: {
+    fov: 75,
+    near: 0.1,
+    far: 100000,
+    distance: 160,
+  },
+  graticule: {
+    longitudeStep: 15,
+    latitudeStep: 10,
+    longitudeColor: '#87cefa', // Light blue
+    latitudeColor: '#98fb98', // Light green
+    equatorColor: '#ffff00',
+    axisColor: '#ff0000',
+    labelColor: '#ffffff',
+    namedLines: {
+      tropicOfCancer: { visible: true, color: '#ffa500', opacity: 0.8, dashed: true },
+      tropicOfCapricorn: { visible: true, color: '#ffa500', opacity: 0.8, dashed: true },
+      arcticCircle: { visible: true, color: '#e0ffff', opacity: 0.8, dashed: true },
+      antarcticCircle: { visible: true, color: '#e0ffff', opacity: 0.8, dashed: true },
+      primeMeridian: { visible: false, color: '#ff6347', opacity: 0.9, dashed: false },
+      dateLine: { visible: false, color: '#da70d6', opacity: 0.9, dashed: true },
+    },
+  },
+  sun: {
+    distance: 70000,
+    radius: 50 * 109,
+    intensity: 500000,
+    color: '#ffffff',
+  },
+  ambientLight: { color: '#ffffff', intensity: 0.1 },
+  moonRadius: 1737400,
+  inactivityResumeDelay: 10000,
+};
+
+// Ready-made configurations, chosen on the home page with ?preset=<name>
+export const SCENE_PRESETS = {
+  // Projector-friendly: coarser, brighter grid and a longer pause after each interaction
+  classroom: {
+    camera: { fov: 50 },
+    graticule: { longitudeStep: 30, latitudeStep: 30, longitudeColor: '#00bfff', latitudeColor: '#7cfc00' },
+    ambientLight: { intensity: 0.25 },
+    inactivityResumeDelay: 30000,
+  },
+  // Unattended display: picks the globe back up quickly after a visitor lets go
+  kiosk: {
+    camera: { fov: 60, distance: 200 },
+    inactivityResumeDelay: 4000,
+  },
+  // Mars: IAU radii and obliquity, Solar System Scope texture, no clouds, lights or oceans
+  mars: {
+    body: {
+      name: 'Mars',
+      equatorialRadius: 3396190,
+      polarRadius: 3376200,
+      axialTilt: 25.19,
+      atmosphereHeight: 40000,
+    },
+    textures: {
+      day: '/8k_mars.jpg',
+      night: null,
+      specular: null,
+      bump: null,
+      clouds: null,
+    },
+    assetManifest: null, // The generated textures are Earth's
+    graticule: { equatorColor: '#ffa500' },
+  },
+} satisfies Record<string, SceneOptionsInput>;
+
+export type ScenePresetName = keyof typeof SCENE_PRESETS;
+
+export function isScenePreset(name: string): name is ScenePresetName {
+  return Object.prototype.hasOwnProperty.call(SCENE_PRESETS, name);
+}
+
+// Fill in defaults and check every value, reporting all problems at once, e.g.
+// "Scene options in /kiosk.json are invalid: camera.fov must be a number from 1 to 179, got 300"
+export function resolveSceneOptions(input: unknown = {}, source: string = 'Scene options'): SceneOptions {
+  const problems: string[] = [];
+  const options = mergeOptions(DEFAULT_SCENE_OPTIONS, input, '', problems) as SceneOptions;
+  validateOptions(options, problems);
+  if (problems.length > 0) {
+    throw new Error(`${source} are invalid: ${problems.join('; ')}`);
+  }
+  return options;
+}
+
+// Fetch and resolve options from a JSON file (e.g. one in public/)
+export async function loadSceneOptions(url: string): Promise<SceneOptions> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load scene options from ${url}: ${response.status} ${response.statusText}`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (error) {
+    throw new Error(`Scene options in ${url} are not valid JSON: ${(error as Error).message}`);
+  }
+  return resolveSceneOptions(json, `Scene options in ${url}`);
+}
+
+// Overlay input on the defaults, flagging unknown keys (usually typos) and misplaced sections
+function mergeOptions(defaults: unknown, input: unknown, path: string, problems: string[]): unknown {
+  if (input === undefined) {
+    return structuredClone(defaults);
+  }
+  if (!isPlainObject(defaults)) {
+    return input; // A leaf; checked by validateOptions()
+  }
+  if (!isPlainObject(input)) {
+    problems.push(`${path || 'the options'} must be an object, got ${describe(input)}`);
+    return defaults;
+  }
+
+  const merged: Record<string, unknown> = {};
+  for (const key of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(defaults, key)) {
+      problems.push(`${path ? `${path}.` : ''}${key} is not a known option`);
+    }
+  }
+  for (const [key, value] of Object.entries(defaults)) {
+    merged[key] = mergeOptions(value, input[key], path ? `${path}.${key}` : key, problems);
+  }
+  return merged;
+}
+
+function validateOptions(options: SceneOptions, problems: string[]): void {
+  const number = (path: string, value: unknown, min: number, max: number = Infinity, exclusiveMin: boolean = false) => {
+    const valid = typeof value === 'number' && Number.isFinite(value) && (exclusiveMin ? value > min : value >= min) && value <= max;
+    if (!valid) {
+      const bounds = max === Infinity ? (exclusiveMin ? `greater than ${min}` : `at least ${min}`) : `from ${min} to ${max}`;
+      problems.push(`${path} must be a number ${bounds}, got ${describe(value)}`);
+    }
+  };
+  const url = (path: string, value: unknown, nullable: boolean) => {
+    if (!(typeof value === 'string' && value.length > 0) && !(nullable && value === null)) {
+      problems.push(`${path} must be a URL${nullable ? ' or null' : ''}, got ${describe(value)}`);
+    }
+  };
+  const boolean = (path: string, value: unknown) => {
+    if (typeof value !== 'boolean') {
+      problems.push(`${path} must be true or false, got ${describe(value)}`);
+    }
+  };
+  const color = (path: string, value: unknown) => {
+    const valid =
+      (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff) ||
+      (typeof value === 'string' && (/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) || Object.prototype.hasOwnProperty.call(THREE.Color.NAMES, value.toLowerCase())));
+    if (!valid) {
+      problems.push(`${path} must be a colour such as "#87cefa", "orange" or 0x87cefa, got ${describe(value)}`);
+    }
+  };
+
+  const { body, textures, camera, graticule, sun, ambientLight } = options;
+  if (typeof body.name !== 'string' || body.name.length === 0) {
+    problems.push(`body.name must be a non-empty string, got ${describe(body.name)}`);
+  }
+  number('body.equatorialRadius', body.equatorialRadius, 0, Infinity, true);
+  number('body.polarRadius', body.polarRadius, 0, Infinity, true);
+  if (body.polarRadius > body.equatorialRadius) {
+    problems.push(`body.polarRadius (${body.polarRadius}) must not exceed body.equatorialRadius (${body.equatorialRadius})`);
+  }
+  number('body.axialTilt', body.axialTilt, -180, 180);
+  number('body.atmosphereHeight', body.atmosphereHeight, 0);
+  number('scaleFactor', options.scaleFactor, 0, Infinity, true);
+
+  for (const key of ['day', 'night', 'specular', 'bump', 'clouds', 'moon', 'sun'] as const) {
+    url(`textures.${key}`, textures[key], true);
+  }
+  if (textures.skybox !== null) {
+    if (!Array.isArray(textures.skybox) || textures.skybox.length !== 6) {
+      problems.push(`textures.skybox must be six face URLs (px, nx, py, ny, pz, nz) or null, got ${describe(textures.skybox)}`);
+    } else {
+      textures.skybox.forEach((face, index) => url(`textures.skybox[${index}]`, face, false));
+    }
+  }
+  url('assetManifest', options.assetManifest, true);
+
+  number('camera.fov', camera.fov, 1, 179);
+  number('camera.near', camera.near, 0, Infinity, true);
+  number('camera.far', camera.far, 0, Infinity, true);
+  if (camera.far <= camera.near) {
+    problems.push(`camera.far (${camera.far}) must be greater than camera.near (${camera.near})`);
+  }
+  number('camera.distance', camera.distance, 0, Infinity, true);
+
+  // The whole-globe grid is rebuilt at these steps, so very fine ones would be costly
+  number('graticule.longitudeStep', graticule.longitudeStep, MIN_GRATICULE_STEP, 180);
+  number('graticule.latitudeStep', graticule.latitudeStep, MIN_GRATICULE_STEP, 90);
+  color('graticule.longitudeColor', graticule.longitudeColor);
+  color('graticule.latitudeColor', graticule.latitudeColor);
+  color('graticule.equatorColor', graticule.equatorColor);
+  color('graticule.axisColor', graticule.axisColor);
+  color('graticule.labelColor', graticule.labelColor);
+  for (const [name, style] of Object.entries(graticule.namedLines)) {
+    const path = `graticule.namedLines.${name}`;
+    boolean(`${path}.visible`, style.visible);
+    color(`${path}.color`, style.color);
+    number(`${path}.opacity`, style.opacity, 0, 1);
+    boolean(`${path}.dashed`, style.dashed);
+  }
+
+  number('sun.distance', sun.distance, 0, Infinity, true);
+  number('sun.radius', sun.radius, 0, Infinity, true);
+  number('sun.intensity', sun.intensity, 0);
+  color('sun.color', sun.color);
+  number('ambientLight.intensity', ambientLight.intensity, 0);
+  color('ambientLight.color', ambientLight.color);
+
+  number('moonRadius', options.moonRadius, 0, Infinity, true);
+  number('inactivityResumeDelay', options.inactivityResumeDelay, 0);
+}
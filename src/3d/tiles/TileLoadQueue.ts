@@ -0,0 +1,55 @@
+interface QueuedLoad {
+  priority: number;
+  round: number; // Last update round the load was asked for
+  start: () => Promise<unknown>;
+}
+
+// Tile requests ordered by priority with a cap on loads in flight. Requests are renewed
+// every update round; one that isn't renewed is no longer wanted (the camera moved on)
+// and is dropped before it starts. Loads already in flight always run to completion.
+export class TileLoadQueue {
+  private queued: Map<string, QueuedLoad> = new Map();
+  private active: Set<string> = new Set();
+  private round: number = 0;
+
+  constructor(private maxConcurrent: number = 6) {}
+
+  // Ask for a load this round; a higher priority starts sooner
+  request(id: string, priority: number, start: () => Promise<unknown>): void {
+    if (this.active.has(id)) return;
+    const existing = this.queued.get(id);
+    if (existing) {
+      existing.priority = Math.max(existing.priority, priority);
+      existing.round = this.round;
+    } else {
+      this.queued.set(id, { priority, round: this.round, start });
+    }
+  }
+
+  // End the round: forget stale requests and start the most urgent ones
+  flush(): void {
+    this.queued.forEach((load, id) => {
+      if (load.round !== this.round) this.queued.delete(id);
+    });
+
+    const ordered = Array.from(this.queued.entries()).sort((a, b) => b[1].priority - a[1].priority);
+    for (const [id, load] of ordered) {
+      if (this.active.size >= this.maxConcurrent) break;
+      this.queued.delete(id);
+      this.active.add(id);
+      const done = () => {
+        this.active.delete(id);
+      };
+      load.start().then(done, done); // Callers handle their own failures
+    }
+    this.round++;
+  }
+
+  getPendingCount(): number {
+    return this.queued.size + this.active.size;
+  }
+
+  clear(): void {
+    this.queued.clear();
+  }
+}
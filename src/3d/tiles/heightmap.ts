@@ -0,0 +1,64 @@
+// Decoding of elevation tiles into heights in meters.
+//
+// 'terrarium' and 'mapbox' are the RGB encodings of the common open terrain tile sets;
+// 'grayscale' maps the red channel linearly between a minimum and maximum height, which
+// suits tiles cut from a plain bump map.
+export type HeightEncoding = 'terrarium' | 'mapbox' | 'grayscale';
+
+export interface Heightmap {
+  width: number;
+  height: number;
+  heights: Float32Array; // Row-major, first row at the north edge
+}
+
+export function decodeHeightmap(
+  image: CanvasImageSource & { width: number; height: number },
+  encoding: HeightEncoding,
+  range: [number, number] = [0, 8848] // meters, grayscale only
+): Heightmap {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get a 2D canvas context to decode elevation tiles');
+  }
+  context.drawImage(image, 0, 0);
+  const { data } = context.getImageData(0, 0, image.width, image.height);
+
+  const heights = new Float32Array(image.width * image.height);
+  for (let i = 0; i < heights.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    switch (encoding) {
+      case 'terrarium':
+        heights[i] = r * 256 + g + b / 256 - 32768;
+        break;
+      case 'mapbox':
+        heights[i] = -10000 + (r * 65536 + g * 256 + b) * 0.1;
+        break;
+      case 'grayscale':
+        heights[i] = range[0] + (r / 255) * (range[1] - range[0]);
+        break;
+    }
+  }
+  return { width: image.width, height: image.height, heights };
+}
+
+// Bilinear sample at (u, v) in [0, 1], v = 0 at the north edge
+export function sampleHeight(map: Heightmap, u: number, v: number): number {
+  const x = Math.min(Math.max(u, 0), 1) * (map.width - 1);
+  const y = Math.min(Math.max(v, 0), 1) * (map.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, map.width - 1);
+  const y1 = Math.min(y0 + 1, map.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const at = (column: number, row: number) => map.heights[row * map.width + column];
+  const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+  const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
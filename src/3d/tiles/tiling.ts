@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+
+// Tiling schemes for XYZ/TMS tile pyramids.
+//
+// 'geographic' is plate carrée (EPSG:4326) with two root tiles side by side, so every
+// level is 2^(z+1) × 2^z tiles of equal angular size; it covers the poles and is what
+// cutting up an equirectangular map gives. 'mercator' is Web Mercator (EPSG:3857) as
+// used by most online maps: one root tile, square levels, ending at ±85.0511°.
+export type TileProjection = 'geographic' | 'mercator';
+
+// 'xyz' numbers rows from the north, 'tms' from the south
+export type TileScheme = 'xyz' | 'tms';
+
+export interface TileKey {
+  z: number;
+  x: number;
+  y: number; // Always counted from the north internally
+}
+
+export interface TileBounds {
+  west: number; // degrees
+  south: number;
+  east: number;
+  north: number;
+}
+
+export const MERCATOR_MAX_LATITUDE = 85.0511287798;
+
+export function tileCountX(projection: TileProjection, z: number): number {
+  return projection === 'geographic' ? 2 ** (z + 1) : 2 ** z;
+}
+
+export function tileCountY(z: number): number {
+  return 2 ** z;
+}
+
+export function rootTiles(projection: TileProjection): TileKey[] {
+  return projection === 'geographic'
+    ? [{ z: 0, x: 0, y: 0 }, { z: 0, x: 1, y: 0 }]
+    : [{ z: 0, x: 0, y: 0 }];
+}
+
+export function childTiles(tile: TileKey): TileKey[] {
+  const z = tile.z + 1;
+  const x = tile.x * 2;
+  const y = tile.y * 2;
+  return [
+    { z, x, y },
+    { z, x: x + 1, y },
+    { z, x, y: y + 1 },
+    { z, x: x + 1, y: y + 1 },
+  ];
+}
+
+export function tileId(tile: TileKey): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+// Latitude (degrees) of a Mercator row fraction: 0 at the top edge, 1 at the bottom
+export function mercatorLatitude(rowFraction: number): number {
+  const n = Math.PI * (1 - 2 * rowFraction);
+  return THREE.MathUtils.radToDeg(Math.atan(Math.sinh(n)));
+}
+
+// Latitude (degrees) at a fraction `v` of the way down a tile, in the tile's own projection,
+// so that texture rows map linearly onto the patch
+export function tileLatitude(projection: TileProjection, tile: TileKey, v: number): number {
+  const rows = tileCountY(tile.z);
+  if (projection === 'mercator') {
+    return mercatorLatitude((tile.y + v) / rows);
+  }
+  return 90 - ((tile.y + v) / rows) * 180;
+}
+
+export function tileLongitude(projection: TileProjection, tile: TileKey, u: number): number {
+  return -180 + ((tile.x + u) / tileCountX(projection, tile.z)) * 360;
+}
+
+export function tileBounds(projection: TileProjection, tile: TileKey): TileBounds {
+  return {
+    west: tileLongitude(projection, tile, 0),
+    east: tileLongitude(projection, tile, 1),
+    north: tileLatitude(projection, tile, 0),
+    south: tileLatitude(projection, tile, 1),
+  };
+}
+
+// Fill a URL template's {z}, {x} and {y} (or {-y} for a flipped row) placeholders
+export function formatTileUrl(template: string, scheme: TileScheme, tile: TileKey): string {
+  const flippedY = tileCountY(tile.z) - 1 - tile.y;
+  const y = scheme === 'tms' ? flippedY : tile.y;
+  return template
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{-y}', String(flippedY))
+    .replace('{y}', String(y));
+}
@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { easeInOutCubic } from './CameraFlight';
+import { check, describe, isNumber, isPlainObject, isVector } from './validation';
+
+// A scripted camera tour as saved to JSON. Playback flies to each keyframe in turn over
+// its `duration`, then holds there for `hold` seconds with its caption on screen.
+export const TOUR_VERSION = 1;
+
+export type TourEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const TOUR_EASINGS: Record<TourEasing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: easeInOutCubic,
+};
+
+export interface TourKeyframe {
+  position: THREE.Vector3Tuple; // Camera, world space
+  target: THREE.Vector3Tuple;
+  date: string; // ISO 8601 simulation time, reached together with the pose
+  layers: Record<string, boolean>; // Layer id -> visible, applied as the move starts
+  duration: number; // seconds to fly here from the previous keyframe (or the current view)
+  hold: number; // seconds to stay before moving on
+  easing: TourEasing;
+  caption: string; // Shown from the start of the move to the end of the hold; may be empty
+}
+
+export type TourState = 'playing' | 'paused' | 'stopped';
+
+export interface Tour {
+  version: typeof TOUR_VERSION;
+  name: string;
+  keyframes: TourKeyframe[];
+}
+
+export const DEFAULT_KEYFRAME_DURATION = 4; // seconds
+export const DEFAULT_KEYFRAME_HOLD = 2; // seconds
+
+// Check a parsed tour file, reporting all problems at once, e.g.
+// "Tour lecture.json is invalid: keyframes[2].duration must be a number from 0 to 3600, got -1"
+export function parseTour(json: unknown, source: string = 'Tour'): Tour {
+  if (!isPlainObject(json)) {
+    throw new Error(`${source} is invalid: expected a JSON object, got ${describe(json)}`);
+  }
+  if (typeof json.version === 'number' && json.version > TOUR_VERSION) {
+    throw new Error(`${source} was saved by a newer version (tour version ${json.version}, this app reads up to ${TOUR_VERSION})`);
+  }
+
+  const problems: string[] = [];
+  const isSeconds = (value: unknown) => isNumber(value) && value >= 0 && value <= 3600;
+
+  check(problems, json.version === TOUR_VERSION, 'version', String(TOUR_VERSION), json.version);
+  check(problems, typeof json.name === 'string', 'name', 'a string', json.name);
+  const keyframes = Array.isArray(json.keyframes) ? json.keyframes : [];
+  check(problems, Array.isArray(json.keyframes), 'keyframes', 'an array', json.keyframes);
+
+  keyframes.forEach((keyframe, index) => {
+    const path = `keyframes[${index}]`;
+    if (!check(problems, isPlainObject(keyframe), path, 'an object', keyframe)) return;
+    const { position, target, date, layers, duration, hold, easing, caption } = keyframe as Record<string, unknown>;
+    check(problems, isVector(position), `${path}.position`, 'three numbers', position);
+    check(problems, isVector(target), `${path}.target`, 'three numbers', target);
+    check(problems, typeof date === 'string' && !Number.isNaN(Date.parse(date)), `${path}.date`, 'an ISO 8601 date', date);
+    check(problems, isPlainObject(layers) && Object.values(layers).every(visible => typeof visible === 'boolean'),
+      `${path}.layers`, 'an object of layer ids to true or false', layers);
+    check(problems, isSeconds(duration), `${path}.duration`, 'a number from 0 to 3600', duration);
+    check(problems, isSeconds(hold), `${path}.hold`, 'a number from 0 to 3600', hold);
+    check(problems, typeof easing === 'string' && Object.prototype.hasOwnProperty.call(TOUR_EASINGS, easing), `${path}.easing`,
+      `one of ${Object.keys(TOUR_EASINGS).join(', ')}`, easing);
+    check(problems, typeof caption === 'string', `${path}.caption`, 'a string', caption);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`${source} is invalid: ${problems.join('; ')}`);
+  }
+  return json as unknown as Tour;
+}
@@ -0,0 +1,28 @@
+// Helpers shared by the validators of JSON input (scene options, projects, tours)
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A value as quoted in an error message, cut short if long
+export function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Three finite numbers, e.g. a position
+export function isVector(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every(isNumber);
+}
+
+// Add "<path> must be <expected>, got <value>" to `problems` unless `valid`; returns
+// `valid`, so checks that depend on it can be skipped
+export function check(problems: string[], valid: boolean, path: string, expected: string, value: unknown): boolean {
+  if (!valid) problems.push(`${path} must be ${expected}, got ${describe(value)}`);
+  return valid;
+}
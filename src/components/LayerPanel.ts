@@ -0,0 +1,172 @@
+import { Layer } from '../3d/layers/Layer';
+import { LayerRegistry } from '../3d/layers/LayerRegistry';
+
+// Layer sidebar generated from a scene's LayerRegistry: a heading per group and, per
+// layer, a visibility checkbox, an opacity slider and buttons to move it up or down
+// within its group (plus remove for loaded data). It follows the registry, so layers
+// registered later, such as GeoJSON files, show up by themselves.
+export class LayerPanel {
+  private element: HTMLElement;
+
+  constructor(private registry: LayerRegistry) {
+    this.element = document.createElement('div');
+    this.element.className = 'layer-panel';
+
+    // Delegated, since the list is rebuilt whenever the registry changes
+    this.element.addEventListener('change', this.handleChange);
+    this.element.addEventListener('input', this.handleInput);
+    this.element.addEventListener('click', this.handleClick);
+    this.registry.addEventListener('list', this.render);
+    this.registry.addEventListener('change', this.handleLayerChange);
+    this.render();
+  }
+
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  destroy(): void {
+    this.element.removeEventListener('change', this.handleChange);
+    this.element.removeEventListener('input', this.handleInput);
+    this.element.removeEventListener('click', this.handleClick);
+    this.registry.removeEventListener('list', this.render);
+    this.registry.removeEventListener('change', this.handleLayerChange);
+    this.element.remove();
+  }
+
+  private render = (): void => {
+    // Keep keyboard focus on the same control across the rebuild (e.g. after "move up")
+    const active = document.activeElement;
+    const focusedId = active instanceof HTMLElement && this.element.contains(active)
+      ? active.closest<HTMLElement>('[data-id]')?.dataset.id
+      : undefined;
+    const focusedClass = active instanceof HTMLElement ? active.classList[0] : undefined;
+
+    const layers = this.registry.list();
+    const groups = [...new Set(layers.map(layer => layer.group))];
+    this.element.innerHTML = '';
+
+    for (const group of groups) {
+      const heading = document.createElement('h3');
+      heading.textContent = group;
+      const list = document.createElement('ul');
+      list.className = 'layer-list';
+      list.setAttribute('aria-label', `${group} layers`);
+      const members = layers.filter(layer => layer.group === group);
+      members.forEach((layer, index) => {
+        list.appendChild(this.createItem(layer, index === 0, index === members.length - 1));
+      });
+      this.element.append(heading, list);
+    }
+
+    if (focusedId !== undefined && focusedClass) {
+      const item = this.element.querySelector(`[data-id="${CSS.escape(focusedId)}"]`);
+      const control = item?.querySelector<HTMLElement>(`.${focusedClass}`);
+      // A move button at the end of the group is disabled now; fall back to the checkbox
+      (control && !(control as HTMLButtonElement).disabled ? control : item?.querySelector<HTMLElement>('.layer-visible'))?.focus();
+    }
+  };
+
+  private createItem(layer: Layer, first: boolean, last: boolean): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'layer-item';
+    item.dataset.id = layer.id;
+    item.innerHTML = `
+      <div class="layer-row">
+        <label>
+          <input type="checkbox" class="layer-visible">
+          <span class="layer-name"></span>
+        </label>
+        <div class="layer-actions">
+          <button type="button" class="layer-up-btn">&uarr;</button>
+          <button type="button" class="layer-down-btn">&darr;</button>
+        </div>
+      </div>
+      <input type="range" class="layer-opacity" min="0" max="100" step="1">
+    `;
+    // Names may come from file names, so they only ever go in as text
+    item.querySelector('.layer-name')!.textContent = layer.name;
+    const upButton = item.querySelector('.layer-up-btn') as HTMLButtonElement;
+    const downButton = item.querySelector('.layer-down-btn') as HTMLButtonElement;
+    upButton.setAttribute('aria-label', `Move ${layer.name} up`);
+    upButton.disabled = first;
+    downButton.setAttribute('aria-label', `Move ${layer.name} down`);
+    downButton.disabled = last;
+    item.querySelector('.layer-opacity')!.setAttribute('aria-label', `${layer.name} opacity`);
+
+    if (layer.removable) {
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.className = 'layer-remove-btn';
+      removeButton.setAttribute('aria-label', `Remove ${layer.name}`);
+      removeButton.innerHTML = '&times;';
+      item.querySelector('.layer-actions')!.appendChild(removeButton);
+    }
+
+    this.sync(item, layer);
+    return item;
+  }
+
+  private sync(item: HTMLElement, layer: Layer): void {
+    const checkbox = item.querySelector('.layer-visible') as HTMLInputElement;
+    const slider = item.querySelector('.layer-opacity') as HTMLInputElement;
+    checkbox.checked = layer.isVisible();
+    slider.value = String(Math.round(layer.getOpacity() * 100));
+    slider.setAttribute('aria-valuetext', `${slider.value}%`);
+    slider.disabled = !layer.isVisible();
+  }
+
+  private itemFor(target: EventTarget | null): { item: HTMLElement; id: string } | null {
+    const item = target instanceof Element ? target.closest<HTMLElement>('.layer-item') : null;
+    return item?.dataset.id !== undefined ? { item, id: item.dataset.id } : null;
+  }
+
+  private handleChange = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    const found = this.itemFor(target);
+    if (found && target.classList.contains('layer-visible')) {
+      this.registry.setVisible(found.id, target.checked);
+    }
+  };
+
+  private handleInput = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    const found = this.itemFor(target);
+    if (found && target.classList.contains('layer-opacity')) {
+      this.registry.setOpacity(found.id, Number(target.value) / 100);
+    }
+  };
+
+  private handleClick = (event: MouseEvent): void => {
+    const button = (event.target as Element).closest('button');
+    const found = this.itemFor(button);
+    if (!button || !found) return;
+
+    if (button.classList.contains('layer-remove-btn')) {
+      // Focus would go with the removed row; hand it to a neighbour in the rebuilt list
+      const neighbour = (found.item.nextElementSibling ?? found.item.previousElementSibling) as HTMLElement | null;
+      this.registry.unregister(found.id);
+      const row = neighbour?.dataset.id !== undefined
+        ? this.element.querySelector(`[data-id="${CSS.escape(neighbour.dataset.id)}"]`)
+        : null;
+      (row ?? this.element).querySelector<HTMLElement>('.layer-visible')?.focus();
+      return;
+    }
+
+    // Swap with the neighbour in the same group; the panel never splits a group
+    const layers = this.registry.list();
+    const index = layers.findIndex(layer => layer.id === found.id);
+    const step = button.classList.contains('layer-up-btn') ? -1 : button.classList.contains('layer-down-btn') ? 1 : 0;
+    const neighbour = layers[index + step];
+    if (step !== 0 && neighbour && neighbour.group === layers[index].group) {
+      this.registry.move(found.id, index + step);
+    }
+  };
+
+  private handleLayerChange = (event: { layer: Layer }): void => {
+    const item = this.element.querySelector<HTMLElement>(`[data-id="${CSS.escape(event.layer.id)}"]`);
+    if (item) {
+      this.sync(item, event.layer);
+    }
+  };
+}
@@ -0,0 +1,136 @@
+import { AssetProgress, AssetStatus } from '../3d/AssetLoader';
+
+// Drives the page-wide .loading overlay from index.html while a scene loads its assets:
+// an overall bar and a line per asset, then either fades away or, if something failed,
+// lists the failures with Retry and Continue buttons (placeholders stay in the meantime).
+// aria-busy marks the overlay as held so the app shell doesn't hide it underneath us.
+export class LoadingOverlay {
+  private panel: HTMLElement;
+  private bar: HTMLElement;
+  private status: HTMLElement;
+  private list: HTMLUListElement;
+  private errorBox: HTMLElement;
+  private retryButton: HTMLButtonElement;
+  private continueButton: HTMLButtonElement;
+  private pending: AssetProgress | null = null; // Latest progress awaiting a frame
+  private frameId: number | null = null;
+
+  constructor(private element: HTMLElement, private onRetry: () => void) {
+    this.panel = document.createElement('div');
+    this.panel.className = 'loading-panel';
+    this.panel.innerHTML = `
+      <div class="loading-progress" role="progressbar" aria-label="Loading assets"
+        aria-valuemin="0" aria-valuemax="100" aria-valuenow="0">
+        <div class="loading-progress-bar"></div>
+      </div>
+      <p class="loading-status" aria-live="polite">Loading…</p>
+      <ul class="loading-assets"></ul>
+      <div class="loading-error" role="alert" hidden>
+        <p>Some assets could not be loaded; plain colours are shown in their place.</p>
+        <div class="loading-actions">
+          <button type="button" class="loading-retry-btn">Retry</button>
+          <button type="button" class="loading-continue-btn">Continue</button>
+        </div>
+      </div>
+    `;
+    this.bar = this.panel.querySelector('.loading-progress-bar') as HTMLElement;
+    this.status = this.panel.querySelector('.loading-status') as HTMLElement;
+    this.list = this.panel.querySelector('.loading-assets') as HTMLUListElement;
+    this.errorBox = this.panel.querySelector('.loading-error') as HTMLElement;
+    this.retryButton = this.panel.querySelector('.loading-retry-btn') as HTMLButtonElement;
+    this.continueButton = this.panel.querySelector('.loading-continue-btn') as HTMLButtonElement;
+
+    this.retryButton.addEventListener('click', this.handleRetry);
+    this.continueButton.addEventListener('click', this.handleContinue);
+    this.element.appendChild(this.panel);
+  }
+
+  show(): void {
+    this.errorBox.hidden = true;
+    this.element.setAttribute('aria-busy', 'true');
+    this.element.classList.remove('hidden');
+  }
+
+  // Progress arrives per network chunk; redraw at most once a frame
+  update(progress: AssetProgress): void {
+    this.pending = progress;
+    if (this.frameId === null) {
+      this.frameId = requestAnimationFrame(() => {
+        this.frameId = null;
+        if (this.pending) this.render(this.pending);
+      });
+    }
+  }
+
+  // Everything settled: hide, or offer a retry when something failed
+  finish(failed: AssetStatus[]): void {
+    if (failed.length === 0) {
+      this.hide();
+      return;
+    }
+    if (this.pending) this.render(this.pending);
+    this.status.textContent = `${failed.length} of ${this.list.children.length} assets failed to load`;
+    this.errorBox.hidden = false;
+    this.retryButton.focus();
+  }
+
+  hide(): void {
+    this.element.removeAttribute('aria-busy');
+    this.element.classList.add('hidden');
+  }
+
+  destroy(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.retryButton.removeEventListener('click', this.handleRetry);
+    this.continueButton.removeEventListener('click', this.handleContinue);
+    this.panel.remove();
+    this.hide();
+  }
+
+  private render(progress: AssetProgress): void {
+    const percent = Math.round(progress.fraction * 100);
+    this.bar.style.width = `${percent}%`;
+    this.bar.parentElement?.setAttribute('aria-valuenow', String(percent));
+    if (this.errorBox.hidden) {
+      this.status.textContent = `Loaded ${progress.settled} of ${progress.assets.length} assets… ${percent}%`;
+    }
+
+    this.list.innerHTML = '';
+    for (const asset of progress.assets) {
+      const item = document.createElement('li');
+      item.className = `loading-asset ${asset.state}`;
+      const name = document.createElement('span');
+      name.textContent = asset.label;
+      const state = document.createElement('span');
+      state.textContent = describeState(asset);
+      item.append(name, state);
+      this.list.appendChild(item);
+    }
+  }
+
+  private handleRetry = (): void => {
+    this.show();
+    this.onRetry();
+  };
+
+  private handleContinue = (): void => {
+    this.hide();
+  };
+}
+
+function describeState(asset: AssetStatus): string {
+  switch (asset.state) {
+    case 'loaded':
+      return 'done';
+    case 'failed':
+      return 'failed';
+    case 'loading':
+      if (asset.total > 0) {
+        return `${Math.round((asset.loaded / asset.total) * 100)}%`;
+      }
+      return asset.loaded > 0 ? `${(asset.loaded / 1048576).toFixed(1)} MB` : '…';
+  }
+}
@@ -0,0 +1,160 @@
+import { Gazetteer, GazetteerEntry, GazetteerMatch } from '../search/Gazetteer';
+
+let instanceCount = 0; // Keeps element ids unique if several boxes are mounted
+
+// Search box with a keyboard-navigable result list (ARIA combobox pattern)
+export class PlaceSearch {
+  private element: HTMLElement;
+  private input: HTMLInputElement;
+  private list: HTMLUListElement;
+  private errorMessage: HTMLParagraphElement;
+  private gazetteer: Gazetteer | null = null;
+  private matches: GazetteerMatch[] = [];
+  private activeIndex: number = -1;
+  private readonly idPrefix: string;
+
+  constructor(private onSelect: (entry: GazetteerEntry) => void) {
+    this.idPrefix = `place-search-${++instanceCount}`;
+
+    this.element = document.createElement('div');
+    this.element.className = 'place-search';
+    this.element.innerHTML = `
+      <input type="search" class="place-search-input" placeholder="Search places…"
+        role="combobox" aria-autocomplete="list" aria-expanded="false"
+        aria-controls="${this.idPrefix}-results" aria-label="Search places"
+        aria-describedby="${this.idPrefix}-error" disabled>
+      <ul class="place-search-results" id="${this.idPrefix}-results" role="listbox" hidden></ul>
+      <p class="place-search-error" id="${this.idPrefix}-error" role="alert" hidden></p>
+    `;
+    this.input = this.element.querySelector('input') as HTMLInputElement;
+    this.list = this.element.querySelector('ul') as HTMLUListElement;
+    this.errorMessage = this.element.querySelector('p') as HTMLParagraphElement;
+
+    this.input.addEventListener('input', this.handleInput);
+    this.input.addEventListener('keydown', this.handleKeyDown);
+    this.input.addEventListener('blur', this.handleBlur);
+    // mousedown rather than click so the choice lands before the input blurs
+    this.list.addEventListener('mousedown', this.handleListMouseDown);
+  }
+
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  // The box stays disabled until a gazetteer is available
+  setGazetteer(gazetteer: Gazetteer): void {
+    this.gazetteer = gazetteer;
+    this.input.disabled = false;
+    this.errorMessage.hidden = true;
+  }
+
+  // No gazetteer is coming: keep the box disabled and say why, rather than leave it
+  // looking as if it is still loading
+  setError(message: string): void {
+    this.gazetteer = null;
+    this.input.disabled = true;
+    this.input.placeholder = 'Search unavailable';
+    this.closeResults();
+    this.errorMessage.textContent = message;
+    this.errorMessage.hidden = false;
+  }
+
+  destroy(): void {
+    this.input.removeEventListener('input', this.handleInput);
+    this.input.removeEventListener('keydown', this.handleKeyDown);
+    this.input.removeEventListener('blur', this.handleBlur);
+    this.list.removeEventListener('mousedown', this.handleListMouseDown);
+    this.element.remove();
+  }
+
+  private handleInput = (): void => {
+    this.matches = this.gazetteer?.search(this.input.value) ?? [];
+    this.activeIndex = this.matches.length > 0 ? 0 : -1;
+    this.renderResults();
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.moveActive(1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.moveActive(-1);
+        break;
+      case 'Enter':
+        if (this.activeIndex >= 0) {
+          event.preventDefault();
+          this.choose(this.activeIndex);
+        }
+        break;
+      case 'Escape':
+        this.closeResults();
+        break;
+    }
+  };
+
+  private handleBlur = (): void => {
+    this.closeResults();
+  };
+
+  private handleListMouseDown = (event: MouseEvent): void => {
+    const option = (event.target as HTMLElement).closest('li');
+    if (option?.dataset.index) {
+      event.preventDefault();
+      this.choose(Number(option.dataset.index));
+    }
+  };
+
+  private moveActive(step: number): void {
+    if (this.matches.length === 0) return;
+    this.activeIndex = (this.activeIndex + step + this.matches.length) % this.matches.length;
+    this.renderResults();
+  }
+
+  private choose(index: number): void {
+    const match = this.matches[index];
+    if (!match) return;
+    this.input.value = match.entry.name;
+    this.closeResults();
+    this.onSelect(match.entry);
+  }
+
+  private closeResults(): void {
+    this.matches = [];
+    this.activeIndex = -1;
+    this.renderResults();
+  }
+
+  private renderResults(): void {
+    this.list.innerHTML = '';
+    this.matches.forEach((match, index) => {
+      const option = document.createElement('li');
+      option.id = `${this.idPrefix}-option-${index}`;
+      option.setAttribute('role', 'option');
+      option.dataset.index = String(index);
+      option.setAttribute('aria-selected', String(index === this.activeIndex));
+      option.classList.toggle('active', index === this.activeIndex);
+
+      const name = document.createElement('span');
+      name.textContent = match.entry.name;
+      const detail = document.createElement('span');
+      detail.className = 'place-search-detail';
+      detail.textContent = match.entry.type === 'city' ? match.entry.country ?? 'City' : 'Country';
+      option.append(name, detail);
+
+      this.list.appendChild(option);
+    });
+
+    const open = this.matches.length > 0;
+    this.list.hidden = !open;
+    this.input.setAttribute('aria-expanded', String(open));
+    if (this.activeIndex >= 0) {
+      this.input.setAttribute('aria-activedescendant', `${this.idPrefix}-option-${this.activeIndex}`);
+      this.list.children[this.activeIndex]?.scrollIntoView({ block: 'nearest' });
+    } else {
+      this.input.removeAttribute('aria-activedescendant');
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import type { Scene3D } from '../3d/Scene3D';
+import { parseTour, Tour, TOUR_EASINGS, TOUR_VERSION, TourEasing, TourState } from '../3d/tour';
+import { downloadBlob, fileSlug } from './download';
+
+const EASING_LABELS: Record<TourEasing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  easeInOut: 'Ease in/out',
+};
+
+// Authoring panel for camera tours: record the current view as a keyframe, edit each
+// keyframe's caption, flight duration, hold and easing, play/pause/stop, and save or
+// open the tour as JSON. Playback itself runs in the scene (Scene3D.playTour()).
+export class TourEditor {
+  private element: HTMLElement;
+  private list: HTMLOListElement;
+  private nameInput: HTMLInputElement;
+  private playButton: HTMLButtonElement;
+  private stopButton: HTMLButtonElement;
+  private fileInput: HTMLInputElement;
+  private errorElement: HTMLElement;
+  private tour: Tour = { version: TOUR_VERSION, name: 'Untitled tour', keyframes: [] };
+
+  constructor(private scene: Scene3D) {
+    this.element = document.createElement('div');
+    this.element.className = 'tour-editor';
+    this.element.innerHTML = `
+      <div class="control-group">
+        <input type="text" class="tour-name-input" aria-label="Tour name">
+      </div>
+      <div class="control-group timeline-buttons">
+        <button type="button" class="tour-add-btn">Add keyframe</button>
+        <button type="button" class="tour-play-btn">Play</button>
+        <button type="button" class="tour-stop-btn" disabled>Stop</button>
+      </div>
+      <ol class="tour-keyframes"></ol>
+      <div class="control-group timeline-buttons">
+        <button type="button" class="tour-save-btn">Save tour</button>
+        <button type="button" class="tour-open-btn">Open tour…</button>
+        <input type="file" class="tour-file-input" accept=".json,application/json" hidden>
+      </div>
+      <p class="tour-error" hidden></p>
+    `;
+    this.list = this.element.querySelector('.tour-keyframes') as HTMLOListElement;
+    this.nameInput = this.element.querySelector('.tour-name-input') as HTMLInputElement;
+    this.playButton = this.element.querySelector('.tour-play-btn') as HTMLButtonElement;
+    this.stopButton = this.element.querySelector('.tour-stop-btn') as HTMLButtonElement;
+    this.fileInput = this.element.querySelector('.tour-file-input') as HTMLInputElement;
+    this.errorElement = this.element.querySelector('.tour-error') as HTMLElement;
+
+    this.element.addEventListener('click', this.handleClick);
+    this.element.addEventListener('change', this.handleChange);
+    this.scene.addEventListener('tour', this.handleTourState);
+    this.render();
+  }
+
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  destroy(): void {
+    this.element.removeEventListener('click', this.handleClick);
+    this.element.removeEventListener('change', this.handleChange);
+    this.scene.removeEventListener('tour', this.handleTourState);
+    this.element.remove();
+  }
+
+  private render(): void {
+    this.nameInput.value = this.tour.name;
+    this.list.innerHTML = '';
+    this.tour.keyframes.forEach((keyframe, index) => {
+      const item = document.createElement('li');
+      item.className = 'tour-keyframe';
+      item.dataset.index = String(index);
+      item.innerHTML = `
+        <input type="text" class="tour-caption-input" placeholder="Caption">
+        <div class="tour-keyframe-timing">
+          <label>Fly <input type="number" class="tour-duration-input" min="0" max="3600" step="0.5"> s</label>
+          <label>Hold <input type="number" class="tour-hold-input" min="0" max="3600" step="0.5"> s</label>
+          <select class="tour-easing-select">
+            ${Object.keys(TOUR_EASINGS).map(easing => `<option value="${easing}">${EASING_LABELS[easing as TourEasing]}</option>`).join('')}
+          </select>
+        </div>
+        <div class="layer-actions">
+          <button type="button" class="tour-play-from-btn">Play from here</button>
+          <button type="button" class="tour-update-btn">Use current view</button>
+          <button type="button" class="tour-remove-btn">&times;</button>
+        </div>
+      `;
+      // Captions come from files, so they only ever go in as values
+      const captionInput = item.querySelector('.tour-caption-input') as HTMLInputElement;
+      captionInput.value = keyframe.caption;
+      captionInput.setAttribute('aria-label', `Keyframe ${index + 1} caption`);
+      (item.querySelector('.tour-duration-input') as HTMLInputElement).value = String(keyframe.duration);
+      (item.querySelector('.tour-hold-input') as HTMLInputElement).value = String(keyframe.hold);
+      (item.querySelector('.tour-easing-select') as HTMLSelectElement).value = keyframe.easing;
+      item.querySelector('.tour-remove-btn')!.setAttribute('aria-label', `Remove keyframe ${index + 1}`);
+      this.list.appendChild(item);
+    });
+    this.syncPlayback(this.scene.getTourState());
+  }
+
+  private syncPlayback(state: TourState, index: number = -1): void {
+    this.playButton.textContent = state === 'playing' ? 'Pause' : state === 'paused' ? 'Resume' : 'Play';
+    this.playButton.disabled = state === 'stopped' && this.tour.keyframes.length === 0;
+    this.stopButton.disabled = state === 'stopped';
+    this.list.querySelectorAll('.tour-keyframe').forEach((item, i) => {
+      item.classList.toggle('active', state !== 'stopped' && i === index);
+    });
+  }
+
+  private handleTourState = (event: { state: TourState; index: number }): void => {
+    this.syncPlayback(event.state, event.index);
+  };
+
+  private handleClick = (event: MouseEvent): void => {
+    const button = (event.target as Element).closest('button');
+    if (!button) return;
+    const index = Number(button.closest<HTMLElement>('.tour-keyframe')?.dataset.index ?? -1);
+
+    if (button.classList.contains('tour-add-btn')) {
+      this.tour.keyframes.push(this.scene.captureKeyframe());
+      this.render();
+    } else if (button.classList.contains('tour-play-btn')) {
+      const state = this.scene.getTourState();
+      if (state === 'playing') {
+        this.scene.pauseTour();
+      } else if (state === 'paused') {
+        this.scene.resumeTour();
+      } else {
+        this.play(0);
+      }
+    } else if (button.classList.contains('tour-stop-btn')) {
+      this.scene.stopTour();
+    } else if (button.classList.contains('tour-save-btn')) {
+      const blob = new Blob([JSON.stringify(this.tour, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `${fileSlug(this.tour.name)}.tour.json`);
+    } else if (button.classList.contains('tour-open-btn')) {
+      this.fileInput.click();
+    } else if (index >= 0 && button.classList.contains('tour-play-from-btn')) {
+      this.play(index);
+    } else if (index >= 0 && button.classList.contains('tour-update-btn')) {
+      const { caption, duration, hold, easing } = this.tour.keyframes[index];
+      this.tour.keyframes[index] = { ...this.scene.captureKeyframe(caption), duration, hold, easing };
+    } else if (index >= 0 && button.classList.contains('tour-remove-btn')) {
+      this.scene.stopTour(); // The playing tour is this one
+      this.tour.keyframes.splice(index, 1);
+      this.render();
+    }
+  };
+
+  private handleChange = (event: Event): void => {
+    const target = event.target as HTMLInputElement | HTMLSelectElement;
+    if (target === this.nameInput) {
+      this.tour.name = this.nameInput.value.trim() || 'Untitled tour';
+      return;
+    }
+    if (target === this.fileInput) {
+      this.open();
+      return;
+    }
+
+    const index = Number(target.closest<HTMLElement>('.tour-keyframe')?.dataset.index ?? -1);
+    const keyframe = this.tour.keyframes[index];
+    if (!keyframe) return;
+    const seconds = () => Math.min(Math.max(Number(target.value) || 0, 0), 3600);
+    if (target.classList.contains('tour-caption-input')) {
+      keyframe.caption = target.value;
+    } else if (target.classList.contains('tour-duration-input')) {
+      keyframe.duration = seconds();
+      target.value = String(keyframe.duration);
+    } else if (target.classList.contains('tour-hold-input')) {
+      keyframe.hold = seconds();
+      target.value = String(keyframe.hold);
+    } else if (target.classList.contains('tour-easing-select')) {
+      keyframe.easing = target.value as TourEasing;
+    }
+  };
+
+  private play(fromIndex: number): void {
+    try {
+      this.scene.playTour(this.tour, fromIndex);
+      this.showError(null);
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private open(): void {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = ''; // Allow opening the same file again
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const tour = parseTour(JSON.parse(text), `Tour ${file.name}`); // A bad file leaves the current tour playing
+        this.scene.stopTour();
+        this.tour = tour;
+        this.render();
+        this.showError(null);
+      })
+      .catch(error => this.showError(error));
+  }
+
+  private showError(error: unknown): void {
+    this.errorElement.textContent = error instanceof Error ? error.message : '';
+    this.errorElement.hidden = !error;
+  }
+}
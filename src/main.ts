@@ -2,18 +2,35 @@ import './style.scss';
 import { Router } from './router/router';
 import { HomePage } from './pages/HomePage';
 import { NotFoundPage } from './pages/NotFoundPage';
+import { loadSceneOptions } from './3d/sceneOptions';
+
+// The globe, set up from a scene options file when the URL names one (?options=/kiosk.json).
+// A file that fails to load or validate fails the navigation, which shows the error.
+async function createHomePage(): Promise<HomePage> {
+  const optionsUrl = new URLSearchParams(window.location.search).get('options');
+  return new HomePage(optionsUrl ? await loadSceneOptions(optionsUrl) : null);
+}
 
 document.addEventListener('DOMContentLoaded', () => {
-  // Initialize the app
-  const app = document.querySelector<HTMLDivElement>('#app')!;
-  
-  // Initialize the router
-  const router = new Router(app);
+  // Initialize the router on the outlet, leaving the header in place
+  const outlet = document.querySelector<HTMLElement>('#router-outlet')!;
+  const router = new Router(outlet);
   
   // Register routes
-  router.addRoute('/', HomePage);
+  router.addRoute('/', createHomePage);
+  router.addRoute('/place/:id', createHomePage); // Globe focused on a marker or gazetteer place
+  router.addRoute('/layers/:name', createHomePage); // Globe with a single informational layer shown
+  router.addRoute('/about', () => import('./pages/AboutPage').then(m => new m.AboutPage())); // Loaded on demand
   router.addRoute('*', NotFoundPage); // Wildcard route for 404
   
-  // Start the router
-  router.start();
-});
\ No newline at end of file
+  // Start the router and hide the loading indicator once the first page is up, unless the
+  // page has taken it over to show its own progress (aria-busy)
+  router.start()
+    .catch(error => router.showError(error))
+    .then(() => {
+      const loading = document.querySelector('.loading');
+      if (loading?.getAttribute('aria-busy') !== 'true') {
+        loading?.classList.add('hidden');
+      }
+    });
+});
@@ -0,0 +1,39 @@
+import { Page } from '../types/page';
+
+export class AboutPage implements Page {
+  private element: HTMLElement | null = null;
+  
+  create(): HTMLElement {
+    this.element = document.createElement('div');
+    this.element.className = 'about-page';
+    
+    this.element.innerHTML = `
+      <div class="container">
+        <h1>About</h1>
+        <p>
+          An interactive replica of the Earth built with Three.js and TypeScript. The globe is a
+          WGS84 ellipsoid lit by a Sun placed from a solar ephemeris, so the day and night sides
+          match the simulated date and time.
+        </p>
+        <h2>Assets</h2>
+        <ul>
+          <li><a href="https://planetpixelemporium.com/earth8081.html" data-external="true">Planet Pixel Emporium</a> Earth maps</li>
+          <li><a href="https://commons.wikimedia.org/wiki/File:Milky_Way_360_equirectangular_rendering_with_foreground_stars_removed.png" data-external="true">Milky Way panorama</a> (Wikimedia Commons)</li>
+        </ul>
+        <a href="/" class="back-button">
+          <button>Back to the globe</button>
+        </a>
+      </div>
+    `;
+    
+    return this.element;
+  }
+  
+  destroy(): void {
+    this.element = null;
+  }
+  
+  getTitle(): string {
+    return '3D Experience | About';
+  }
+}
@@ -1,51 +1,185 @@
-import { Page } from '../types/page';
-import { Scene3D } from '../3d/Scene3D';
+import * as THREE from 'three';
+import { Page, RouteContext } from '../types/page';
+import { MeasureMode, Scene3D, SolarScale, ViewPreset } from '../3d/Scene3D';
+import { SIMULATION_RATES } from '../3d/SimulationClock';
+import { GeodeticPosition } from '../3d/geo/geodetic';
+import {
+  DISTANCE_UNITS,
+  DistanceUnit,
+  formatAltitude,
+  formatArea,
+  formatBearing,
+  formatDistance,
+  formatLatitudeDMS,
+  formatLatitudeLabel,
+  formatLatLonDecimal,
+  formatLongitudeDMS,
+  formatLongitudeLabel,
+} from '../3d/geo/format';
+import { MarkerOptions } from '../3d/MarkerLayer';
+import { SatelliteLoadResult, SatelliteState } from '../3d/SatelliteLayer';
+import { AssetProgress, AssetStatus } from '../3d/AssetLoader';
+import { QualityLevel } from '../3d/AdaptiveQuality';
+import { isScenePreset, SCENE_PRESETS, SceneOptionsInput } from '../3d/sceneOptions';
+import { TourState } from '../3d/tour';
+import { PlaceSearch } from '../components/PlaceSearch';
+import { LoadingOverlay } from '../components/LoadingOverlay';
+import { LayerPanel } from '../components/LayerPanel';
+import { TourEditor } from '../components/TourEditor';
+import { downloadBlob, fileSlug } from '../components/download';
+import { Gazetteer, GazetteerEntry } from '../search/Gazetteer';
+import { decodeViewState, encodeViewState, ViewState } from '../state/viewState';
+
+const URL_UPDATE_DELAY = 500; // ms
+
+const GRATICULE_STEPS = [30, 15, 10, 5, 2, 1]; // Fixed intervals offered besides auto, degrees
+const CAPTURE_SCALES = [1, 2, 4, 8]; // Screenshot sizes offered, multiples of the view's CSS size
+const RECORDING_FRAME_RATES = [30, 60];
+
+// Number keys 1-6 on the globe fly to these
+const VIEW_PRESETS: ViewPreset[] = [
+  { name: 'Europe and Africa', lat: 20, lon: 15, altitude: 12000000 },
+  { name: 'The Americas', lat: 10, lon: -80, altitude: 14000000 },
+  { name: 'Asia', lat: 35, lon: 95, altitude: 12000000 },
+  { name: 'Oceania', lat: -25, lon: 145, altitude: 10000000 },
+  { name: 'North Pole', lat: 90, lon: 0, altitude: 10000000 },
+  { name: 'South Pole', lat: -90, lon: 0, altitude: 10000000 },
+];
+
+// Camera altitude (meters) for flying to a gazetteer entry; countries need more to be seen whole
+function placeAltitude(entry: GazetteerEntry): number {
+  return entry.type === 'country' ? 4000000 : 800000;
+}
 
 export class HomePage implements Page {
   private element: HTMLElement | null = null;
   private scene: Scene3D | null = null;
+  private lastTimelineUpdate: number = 0; // performance.now() of the last timeline UI refresh
+  private placeSearch: PlaceSearch | null = null;
+  private urlUpdateTimeoutId: number | null = null;
+  private markersReady: Promise<unknown> = Promise.resolve(); // Settles once places.json is loaded
+  private gazetteerReady: Promise<Gazetteer | null> = Promise.resolve(null);
+  private selectedSatelliteId: string | null = null; // Shown live in the right sidebar
+  private loadingOverlay: LoadingOverlay | null = null; // Texture progress on the page-wide .loading element
+  private layerPanel: LayerPanel | null = null; // Generated from the scene's layer registry
+  private tourEditor: TourEditor | null = null;
+
+  // Options loaded from a JSON file (?options=), which take the place of any ?preset
+  constructor(private sceneOptions: SceneOptionsInput | null = null) {}
   
-  create(): HTMLElement {
+  create(context?: RouteContext): HTMLElement {
     this.element = document.createElement('div');
     this.element.className = 'home-page-layout'; // Changed class for the main wrapper
 
     // Create the content
     this.element.innerHTML = `
       <div class="sidebar left-sidebar"> <!-- Removed 'collapsed' class -->
-        <button class="sidebar-toggle left-toggle-btn" aria-label="Toggle left sidebar">
-          <span class="toggle-icon">&gt;</span> <!-- Changed icon to indicate it can be collapsed -->
+        <button type="button" class="sidebar-toggle left-toggle-btn" aria-label="Left sidebar"
+          aria-expanded="true" aria-controls="left-sidebar-content">
+          <span class="toggle-icon" aria-hidden="true">&gt;</span> <!-- Changed icon to indicate it can be collapsed -->
         </button>
-        <div class="sidebar-content">
+        <div class="sidebar-content" id="left-sidebar-content">
+          <p class="scene-options-error" role="alert" hidden></p>
+          <div class="place-search-slot"></div>
+
           <h2>Layer</h2>
           <p>Toggle on/off the informational layers</p>
-          
+          <div class="layer-panel-slot"></div>
+
+          <h3>Display</h3>
+          <div class="control-group">
+            <label for="graticule-step-select">Grid interval</label>
+            <select id="graticule-step-select">
+              <option value="auto" selected>Auto (densify when zooming)</option>
+              ${GRATICULE_STEPS.map(step => `<option value="${step}">${step}°</option>`).join('')}
+            </select>
+          </div>
+
+          <div class="control-group">
+            <label for="show-moon-checkbox">
+              <input type="checkbox" id="show-moon-checkbox" checked>
+              Show Moon
+            </label>
+          </div>
+
+          <div class="control-group">
+            <label for="eclipse-shadows-checkbox">
+              <input type="checkbox" id="eclipse-shadows-checkbox" checked>
+              Eclipse Shadows
+            </label>
+          </div>
+
+          <div class="control-group">
+            <label for="solar-scale-select">Sun distance and size</label>
+            <select id="solar-scale-select">
+              <option value="presentation" selected>Presentation (compressed)</option>
+              <option value="true">True scale (1 AU)</option>
+            </select>
+            <p class="hint">At true scale, zoom far out to see the Earth beside the Sun.</p>
+          </div>
+
+          <div class="control-group">
+            <label for="tiled-globe-checkbox">
+              <input type="checkbox" id="tiled-globe-checkbox" disabled>
+              Tiled Imagery
+            </label>
+            <p class="hint tiled-globe-hint">Needs tile pyramids: run <code>npm run assets</code> on your imagery</p>
+          </div>
+
           <div class="control-group">
-            <label for="show-pole-checkbox">
-              <input type="checkbox" id="show-pole-checkbox" checked>
-              Show Pole
+            <label for="terrain-exaggeration-slider">Terrain exaggeration: <span id="terrain-exaggeration-value">1</span>×</label>
+            <input type="range" id="terrain-exaggeration-slider" min="0" max="20" step="1" value="1">
+          </div>
+
+          <div class="control-group">
+            <label for="show-satellites-checkbox">
+              <input type="checkbox" id="show-satellites-checkbox" checked>
+              Show Satellites
             </label>
           </div>
-          
+
+          <div class="control-group">
+            <label for="tle-file-input">TLE file</label>
+            <input type="file" id="tle-file-input" accept=".tle,.txt,text/plain">
+            <p class="hint satellite-status" role="status"></p>
+          </div>
+
           <div class="control-group">
-            <label for="show-equator-checkbox">
-              <input type="checkbox" id="show-equator-checkbox" checked>
-              Show Equator
+            <label for="show-orbits-checkbox">
+              <input type="checkbox" id="show-orbits-checkbox" checked>
+              Orbit Paths
             </label>
           </div>
 
           <div class="control-group">
-            <label for="show-longitude-lines-checkbox">
-              <input type="checkbox" id="show-longitude-lines-checkbox" checked>
-              Show Longitude
+            <label for="show-ground-tracks-checkbox">
+              <input type="checkbox" id="show-ground-tracks-checkbox">
+              Ground Tracks
             </label>
           </div>
 
           <div class="control-group">
-            <label for="show-latitude-lines-checkbox">
-              <input type="checkbox" id="show-latitude-lines-checkbox" checked>
-              Show Latitude
+            <label for="day-night-checkbox">
+              <input type="checkbox" id="day-night-checkbox" checked>
+              Day/Night Shading
             </label>
           </div>
+
+          <div class="control-group">
+            <label for="twilight-width-slider">Twilight band: <span id="twilight-width-value">6</span>°</label>
+            <input type="range" id="twilight-width-slider" min="1" max="18" step="1" value="6">
+          </div>
+
+          <h3>Add GeoJSON</h3>
+          <div class="control-group geojson-controls">
+            <input type="text" id="geojson-url-input" placeholder="/data/borders.geojson" aria-label="GeoJSON path">
+            <button type="button" id="geojson-url-load-btn">Load</button>
+          </div>
+          <div class="control-group">
+            <input type="file" id="geojson-file-input" accept=".json,.geojson,application/geo+json" multiple>
+            <p class="hint">or drop .geojson files on the globe</p>
+          </div>
+          <p class="geojson-error" hidden></p>
         </div>
       </div>
       <div class="main-content">
@@ -58,15 +192,24 @@ export class HomePage implements Page {
             <div id="scene-container"></div>
             <div class="canvas-overlay">
               <p>Click and drag to rotate | Scroll to zoom | Shift+drag to pan</p>
+              <p>Keyboard: click the globe or Tab to it, then arrows to orbit, +/&minus; to zoom, 1&ndash;${VIEW_PRESETS.length} for preset views</p>
+            </div>
+            <div class="tour-caption" aria-live="polite" hidden></div>
+            <p class="view-center-readout visually-hidden" role="status" aria-atomic="true"></p>
+            <div class="pick-readout" hidden>
+              <p class="pick-decimal"></p>
+              <p class="pick-dms"></p>
+              <p class="pick-altitude"></p>
             </div>
           </div>
         </div>
       </div>
       <div class="sidebar right-sidebar collapsed">
-        <button class="sidebar-toggle right-toggle-btn" aria-label="Toggle right sidebar">
-          <span class="toggle-icon">&gt;</span>
+        <button type="button" class="sidebar-toggle right-toggle-btn" aria-label="Right sidebar"
+          aria-expanded="false" aria-controls="right-sidebar-content">
+          <span class="toggle-icon" aria-hidden="true">&gt;</span>
         </button>
-        <div class="sidebar-content">
+        <div class="sidebar-content" id="right-sidebar-content">
           <h2>Right Sidebar</h2>
           <p>This is the right sidebar content.</p>
 
@@ -76,23 +219,196 @@ export class HomePage implements Page {
               Show FPS Stats
             </label>
           </div>
+          <div class="control-group">
+            <label for="render-on-demand-checkbox">
+              <input type="checkbox" id="render-on-demand-checkbox" checked>
+              Draw only on change
+            </label>
+            <label for="adaptive-quality-checkbox">
+              <input type="checkbox" id="adaptive-quality-checkbox" checked>
+              Adapt quality to frame rate
+            </label>
+            <p class="hint">Quality: <span id="quality-level">Full</span></p>
+          </div>
+
+          <h3>Timeline (UTC)</h3>
+          <div class="control-group timeline-buttons">
+            <button type="button" id="sim-reverse-btn" aria-pressed="false" title="Reverse">&#9664;&#9664;</button>
+            <button type="button" id="sim-play-btn" title="Play/Pause">Pause</button>
+            <select id="sim-rate-select" aria-label="Simulation speed">
+              ${SIMULATION_RATES.map(rate => `<option value="${rate}">${rate}x</option>`).join('')}
+            </select>
+          </div>
+          <div class="control-group">
+            <input type="range" id="sim-timeline-slider" aria-label="Scrub through the year" step="60000">
+          </div>
+          <div class="control-group">
+            <input type="datetime-local" id="sim-date-input" step="60">
+            <button type="button" id="sim-date-now-btn">Now</button>
+          </div>
+          <div class="control-group solar-readout" id="solar-readout"></div>
+          <div class="control-group timeline-buttons">
+            <button type="button" id="next-full-moon-btn">Next full moon</button>
+            <button type="button" id="next-eclipse-btn">Next eclipse</button>
+          </div>
+          <p class="lunar-event" id="lunar-event" hidden></p>
+
+          <h3>Selected Place</h3>
+          <div class="control-group selected-place" id="selected-place">
+            <p>Click a marker on the globe.</p>
+          </div>
+          <p class="hint markers-status" role="status" hidden></p>
+
+          <h3>Selected Satellite</h3>
+          <div class="control-group selected-place" id="selected-satellite">
+            <p>Click a satellite.</p>
+          </div>
+
+          <h3>Measure</h3>
+          <div class="control-group timeline-buttons">
+            <select id="measure-mode-select" aria-label="Measurement mode">
+              <option value="off">Off</option>
+              <option value="distance">Distance</option>
+              <option value="area">Area</option>
+            </select>
+            <select id="measure-unit-select" aria-label="Units">
+              ${(Object.keys(DISTANCE_UNITS) as DistanceUnit[]).map(unit => `<option value="${unit}">${DISTANCE_UNITS[unit].label}</option>`).join('')}
+            </select>
+          </div>
+          <p class="hint" id="measure-hint" hidden></p>
+          <div class="control-group timeline-buttons">
+            <button type="button" id="measure-finish-btn" disabled>Finish area</button>
+            <button type="button" id="measure-clear-btn" disabled>Clear all</button>
+          </div>
+          <ul class="measurement-list" id="measurement-list"></ul>
+          <p class="measure-error" hidden></p>
+
+          <h3>Project</h3>
+          <div class="control-group">
+            <input type="text" id="project-name-input" value="Untitled" aria-label="Project name">
+          </div>
+          <div class="control-group timeline-buttons">
+            <button type="button" id="project-save-btn">Save project</button>
+            <button type="button" id="project-open-btn">Open project…</button>
+            <input type="file" id="project-file-input" accept=".json,application/json" hidden>
+          </div>
+          <div class="control-group timeline-buttons">
+            <button type="button" id="export-gltf-btn" title="Scene geometry for Blender and other 3D tools">Export glTF</button>
+            <button type="button" id="export-glb-btn" title="Same as glTF, in one binary file">Export GLB</button>
+          </div>
+          <p class="project-error" hidden></p>
+
+          <h3>Capture</h3>
+          <div class="control-group timeline-buttons">
+            <select id="capture-scale-select" aria-label="Screenshot size">
+              ${CAPTURE_SCALES.map(scale => `<option value="${scale}">${scale}x view size</option>`).join('')}
+            </select>
+            <button type="button" id="capture-png-btn">Save PNG</button>
+          </div>
+          <div class="control-group">
+            <label for="capture-transparent-checkbox">
+              <input type="checkbox" id="capture-transparent-checkbox">
+              Transparent background
+            </label>
+          </div>
+          <div class="control-group timeline-buttons">
+            <select id="record-fps-select" aria-label="Recording frame rate">
+              ${RECORDING_FRAME_RATES.map(fps => `<option value="${fps}">${fps} fps</option>`).join('')}
+            </select>
+            <button type="button" id="record-btn" aria-pressed="false">Record</button>
+          </div>
+          <div class="control-group">
+            <label for="record-fixed-step-checkbox">
+              <input type="checkbox" id="record-fixed-step-checkbox" checked>
+              Fixed time step (smooth even when slow)
+            </label>
+          </div>
+          <p class="capture-error" hidden></p>
+
+          <h3>Tour</h3>
+          <div class="tour-editor-slot"></div>
         </div>
       </div>
     `;
 
-    // Initialize the 3D scene
-    this.initScene();
+    // Restore a shared view from the URL; sidebars are set before the controls below
+    // read them, layers and time once the scene exists
+    const query = context?.query ?? new URLSearchParams(window.location.search);
+    const viewState = decodeViewState(query);
+    this.applyLayoutState(viewState);
+
+    // Initialize the 3D scene, optionally from a preset (?preset=classroom|kiosk|mars) or an
+    // options file (?options=/kiosk.json, loaded by the route)
+    this.initScene(query.get('preset'));
+    // /layers/:name shows just that layer unless the link lists layers explicitly
+    const layerParam = context?.params.name;
+    if (layerParam && this.scene?.layers.get(layerParam) && !viewState.visibleLayers) {
+      viewState.visibleLayers = [layerParam];
+    }
     // Add event listeners for sidebar toggles
     this.initSidebarToggles();
     // Add event listeners for scene controls
     this.initSceneControls(); // Added call
 
+    this.applySceneState(viewState);
+    this.initUrlSync();
+
     return this.element;
   }
   
+  // /place/:id flies to the marker with that id, or else the best gazetteer match
+  mounted(context: RouteContext): void {
+    if (context.params.id) {
+      this.focusPlace(context.params.id);
+    }
+  }
+
   destroy(): void {
+    if (this.urlUpdateTimeoutId !== null) {
+      clearTimeout(this.urlUpdateTimeoutId);
+      this.urlUpdateTimeoutId = null;
+    }
+
+    if (this.placeSearch) {
+      this.placeSearch.destroy();
+      this.placeSearch = null;
+    }
+
+    if (this.loadingOverlay) {
+      this.loadingOverlay.destroy();
+      this.loadingOverlay = null;
+    }
+
+    if (this.layerPanel) {
+      this.layerPanel.destroy();
+      this.layerPanel = null;
+    }
+
+    if (this.tourEditor) {
+      this.tourEditor.destroy();
+      this.tourEditor = null;
+    }
+
     // Clean up the 3D scene when page is destroyed
     if (this.scene) {
+      const clock = this.scene.getSimulationClock();
+      clock.removeEventListener('tick', this.handleClockTick);
+      clock.removeEventListener('change', this.handleClockChange);
+      this.scene.removeEventListener('pick', this.handlePick);
+      this.scene.removeEventListener('markerselect', this.handleMarkerSelect);
+      this.scene.removeEventListener('satelliteselect', this.handleSatelliteSelect);
+      this.scene.removeEventListener('camerachange', this.announceViewCenter);
+      this.scene.removeEventListener('viewpreset', this.handleViewPreset);
+      this.scene.removeEventListener('qualitychange', this.handleQualityChange);
+      this.scene.removeEventListener('tiledglobe', this.handleTiledGlobe);
+      this.scene.removeEventListener('assetprogress', this.handleAssetProgress);
+      this.scene.removeEventListener('ready', this.handleSceneReady);
+      this.scene.removeEventListener('tour', this.handleTourState);
+      this.scene.removeEventListener('measurementchange', this.handleMeasurementChange);
+      this.scene.removeEventListener('camerachange', this.scheduleUrlUpdate);
+      clock.removeEventListener('change', this.scheduleUrlUpdate);
+      this.scene.layers.removeEventListener('list', this.scheduleUrlUpdate);
+      this.scene.layers.removeEventListener('change', this.scheduleUrlUpdate);
       this.scene.dispose();
       this.scene = null;
     }
@@ -103,8 +419,14 @@ export class HomePage implements Page {
   getTitle(): string {
     return '3D Experience | Home';
   }
+
+  // Leaving the page ends a recording in progress, which would lose it
+  beforeLeave(): boolean {
+    if (!this.scene?.isRecording()) return true;
+    return window.confirm('A recording is in progress and will be lost. Leave this page?');
+  }
   
-  private initScene(): void {
+  private initScene(presetName: string | null): void {
     if (this.element) {
       const container = this.element.querySelector('#scene-container') as HTMLElement;
       const canvasOverlay = this.element.querySelector('.canvas-overlay') as HTMLElement; // Get overlay element
@@ -120,73 +442,895 @@ export class HomePage implements Page {
           canvasOverlay.addEventListener('transitionend', onTransitionEnd);
         };
 
-        this.scene = new Scene3D(container, handleFirstInteraction); // Pass callback
+        let options: SceneOptionsInput = {};
+        if (this.sceneOptions) {
+          options = this.sceneOptions;
+        } else if (presetName && isScenePreset(presetName)) {
+          options = SCENE_PRESETS[presetName];
+        } else if (presetName) {
+          const errorElement = this.element.querySelector('.scene-options-error') as HTMLElement;
+          errorElement.textContent = `Unknown scene preset "${presetName}"; showing the default scene. `
+            + `Presets: ${Object.keys(SCENE_PRESETS).join(', ')}.`;
+          errorElement.hidden = false;
+        }
+
+        this.scene = new Scene3D(container, handleFirstInteraction, options); // Pass callback
+
+        // Texture progress, then either nothing or a retry prompt
+        const loadingElement = document.querySelector<HTMLElement>('.loading');
+        if (loadingElement) {
+          this.loadingOverlay = new LoadingOverlay(loadingElement, () => this.scene?.retryFailedAssets());
+          this.loadingOverlay.show();
+        }
+        this.scene.addEventListener('assetprogress', this.handleAssetProgress);
+        this.scene.addEventListener('ready', this.handleSceneReady);
+
+        this.scene.addEventListener('pick', this.handlePick);
+        this.scene.addEventListener('markerselect', this.handleMarkerSelect);
+        this.scene.addEventListener('satelliteselect', this.handleSatelliteSelect);
+        this.scene.addEventListener('camerachange', this.announceViewCenter);
+        this.scene.addEventListener('viewpreset', this.handleViewPreset);
+        this.scene.addEventListener('qualitychange', this.handleQualityChange);
+        this.scene.addEventListener('tiledglobe', this.handleTiledGlobe);
+        this.scene.setViewPresets(VIEW_PRESETS);
         this.scene.initialize();
+        this.markersReady = this.scene.loadMarkers('/data/places.json')
+          .catch(error => this.showMarkersError(error));
+        this.scene.loadSatellites('/data/satellites.tle')
+          .then(result => this.showSatelliteStatus(result))
+          .catch(error => this.showSatelliteStatus(error));
       }
     }
   }
 
-  private initSidebarToggles(): void {
+  private handleAssetProgress = (event: { progress: AssetProgress }): void => {
+    this.loadingOverlay?.update(event.progress);
+  };
+
+  private handleQualityChange = (event: { quality: QualityLevel }): void => {
+    const label = this.element?.querySelector('#quality-level');
+    if (label) label.textContent = event.quality.name;
+  };
+
+  private handleTiledGlobe = (event: { available: boolean; error: Error | null }): void => {
+    const checkbox = this.element?.querySelector('#tiled-globe-checkbox') as HTMLInputElement | null;
+    if (checkbox) checkbox.disabled = !event.available;
+    const hint = this.element?.querySelector('.tiled-globe-hint') as HTMLElement | null;
+    if (!hint) return;
+    hint.hidden = event.available;
+    if (event.error) {
+      hint.textContent = `${event.error.message}. Run npm run assets again to regenerate it.`;
+      hint.classList.add('tiled-globe-error');
+    }
+  };
+
+  private handleSceneReady = (event: { failed: AssetStatus[] }): void => {
+    this.loadingOverlay?.finish(event.failed);
+  };
+
+  private async focusPlace(id: string): Promise<void> {
+    await this.markersReady;
+    const marker = this.scene?.getMarkers().find(candidate => candidate.id === id);
+    if (marker) {
+      this.scene?.flyTo({ lat: marker.lat, lon: marker.lon, altitude: 800000 });
+      this.handleMarkerSelect({ marker });
+      return;
+    }
+
+    const gazetteer = await this.gazetteerReady;
+    const match = gazetteer?.search(id.replace(/[-_]+/g, ' '), 1)[0];
+    if (match) {
+      this.scene?.flyTo({ lat: match.entry.lat, lon: match.entry.lon, altitude: placeAltitude(match.entry) });
+    }
+  }
+
+  // Show the clicked globe coordinate in the readout panel
+  private handlePick = (event: { position: GeodeticPosition }): void => {
+    const readout = this.element?.querySelector('.pick-readout') as HTMLElement | null;
+    if (!readout) return;
+
+    const { latitude, longitude, altitude } = event.position;
+    readout.querySelector('.pick-decimal')!.textContent = formatLatLonDecimal(latitude, longitude);
+    readout.querySelector('.pick-dms')!.textContent = `${formatLatitudeDMS(latitude)} ${formatLongitudeDMS(longitude)}`;
+    readout.querySelector('.pick-altitude')!.textContent = `Altitude: ${formatAltitude(altitude)}`;
+    readout.hidden = false;
+  };
+
+  // Tell screen readers where the view ended up: the coordinates at its centre
+  private announceViewCenter = (): void => {
+    const readout = this.element?.querySelector('.view-center-readout');
+    if (!readout || !this.scene) return;
+
+    const center = this.scene.getViewCenter();
+    const altitude = formatAltitude(this.scene.getCameraAltitude());
+    readout.textContent = center
+      ? `View centre ${formatLatitudeLabel(center.latitude)} ${formatLongitudeLabel(center.longitude)}, camera altitude ${altitude}`
+      : `View centre off the globe, camera altitude ${altitude}`;
+  };
+
+  private handleViewPreset = (event: { preset: ViewPreset }): void => {
+    const readout = this.element?.querySelector('.view-center-readout');
+    if (readout) {
+      readout.textContent = `Flying to ${event.preset.name}`;
+    }
+  };
+
+  // Show the selected marker in the right sidebar, expanding it if needed
+  private handleMarkerSelect = (event: { marker: MarkerOptions }): void => {
+    const panel = this.element?.querySelector('#selected-place') as HTMLElement | null;
+    if (!panel) return;
+
+    const { marker } = event;
+    panel.innerHTML = `
+      <p class="selected-place-name"></p>
+      <p>${formatLatLonDecimal(marker.lat, marker.lon, 4)}</p>
+      <p>${formatLatitudeDMS(marker.lat)} ${formatLongitudeDMS(marker.lon)}</p>
+    `;
+    // Labels come from data files; set as text rather than markup
+    panel.querySelector('.selected-place-name')!.textContent = marker.label ?? marker.id;
+
+    this.expandRightSidebar();
+  };
+
+  private handleSatelliteSelect = (event: { satellite: SatelliteState }): void => {
+    this.selectedSatelliteId = event.satellite.id;
+    this.updateSatellitePanel(event.satellite);
+    this.expandRightSidebar();
+  };
+
+  // Why places.json gave no markers, under the panel that would have shown them
+  private showMarkersError(error: Error): void {
+    const status = this.element?.querySelector('.markers-status') as HTMLElement | null;
+    if (!status) return;
+    status.textContent = `Places could not be loaded: ${error.message}`;
+    status.hidden = false;
+  }
+
+  // How many satellites a TLE file gave, and which element sets it had to skip
+  private showSatelliteStatus(result: SatelliteLoadResult | Error): void {
+    const status = this.element?.querySelector('.satellite-status') as HTMLElement | null;
+    if (!status) return;
+    if (result instanceof Error) {
+      status.textContent = result.message;
+      status.title = '';
+      return;
+    }
+    const skipped = result.skipped.length > 0 ? `, ${result.skipped.length} skipped (unsupported orbits)` : '';
+    status.textContent = `${result.loaded} satellites loaded${skipped}`;
+    status.title = result.skipped.join('\n'); // The reasons, on hover
+  }
+
+  // Refresh the selected satellite's position, which changes with the simulation time
+  private updateSatellitePanel(satellite: SatelliteState | null): void {
+    const panel = this.element?.querySelector('#selected-satellite') as HTMLElement | null;
+    if (!panel) return;
+
+    if (!satellite) {
+      panel.innerHTML = `<p>No position: the orbit has decayed or its elements are out of range.</p>`;
+      return;
+    }
+    panel.innerHTML = `
+      <p class="selected-place-name"></p>
+      <p>NORAD ${satellite.id}</p>
+      <p>${formatLatLonDecimal(satellite.latitude, satellite.longitude, 3)}</p>
+      <p>Altitude: ${formatAltitude(satellite.altitude)}</p>
+      <p>Speed: ${satellite.speed.toFixed(2)} km/s</p>
+    `;
+    panel.querySelector('.selected-place-name')!.textContent = satellite.name;
+  }
+
+  private expandRightSidebar(): void {
+    const rightSidebar = this.element?.querySelector('.right-sidebar');
+    if (rightSidebar?.classList.contains('collapsed')) {
+      (this.element?.querySelector('.right-toggle-btn') as HTMLButtonElement | null)?.click();
+    }
+  }
+
+  // Collapse or expand a sidebar, keeping its toggle's glyph and aria-expanded in step.
+  // Focus inside a sidebar being collapsed goes to its toggle rather than being lost.
+  private setSidebarCollapsed(side: 'left' | 'right', collapsed: boolean): void {
+    const sidebar = this.element?.querySelector(`.${side}-sidebar`);
+    const button = this.element?.querySelector<HTMLButtonElement>(`.${side}-toggle-btn`);
+    if (!sidebar || !button) return;
+
+    const content = sidebar.querySelector('.sidebar-content');
+    if (collapsed && content?.contains(document.activeElement)) {
+      button.focus();
+    }
+    sidebar.classList.toggle('collapsed', collapsed);
+    button.setAttribute('aria-expanded', String(!collapsed));
+    const icon = button.querySelector('.toggle-icon');
+    if (icon) {
+      icon.textContent = side === 'left' ? (collapsed ? '<' : '>') : (collapsed ? '>' : '<');
+    }
+  }
+
+  // Sidebar state from a shared link
+  private applyLayoutState(state: ViewState): void {
     if (!this.element) return;
 
-    const leftToggleBtn = this.element.querySelector('.left-toggle-btn');
-    const rightToggleBtn = this.element.querySelector('.right-toggle-btn');
-    const leftSidebar = this.element.querySelector('.left-sidebar');
-    const rightSidebar = this.element.querySelector('.right-sidebar');
+    if (state.collapsedSidebars) {
+      (['left', 'right'] as const).forEach(side => {
+        this.setSidebarCollapsed(side, state.collapsedSidebars!.includes(side));
+      });
+    }
+  }
+
+  // Layer visibility, simulation time and camera from a shared link; needs the scene
+  private applySceneState(state: ViewState): void {
+    if (!this.scene) return;
 
-    leftToggleBtn?.addEventListener('click', () => {
-      leftSidebar?.classList.toggle('collapsed');
-      const icon = leftToggleBtn.querySelector('.toggle-icon');
-      if (icon) {
-        icon.textContent = leftSidebar?.classList.contains('collapsed') ? '<' : '>';
+    if (state.visibleLayers) {
+      this.scene.layers.list().forEach(layer => {
+        this.scene?.layers.setVisible(layer.id, state.visibleLayers!.includes(layer.id));
+      });
+    }
+
+    const clock = this.scene.getSimulationClock();
+    if (state.time) {
+      this.scene.setSimulationDate(state.time);
+    }
+    if (state.rate !== undefined) {
+      clock.setRate(state.rate);
+    }
+    if (state.reversed !== undefined) {
+      clock.setReversed(state.reversed);
+    }
+    if (state.paused !== undefined) {
+      if (state.paused) {
+        clock.pause();
+      } else if (!this.scene.prefersReducedMotion()) {
+        clock.play(); // With reduced motion time stays paused until the user plays it
       }
+    }
+    if (state.camera) {
+      this.scene.setCameraState(
+        new THREE.Vector3(...state.camera.position),
+        new THREE.Vector3(...state.camera.target)
+      );
+    }
+  }
+
+  private getViewState(): ViewState {
+    const state: ViewState = {};
+    if (!this.element || !this.scene) return state;
+
+    const { position, target } = this.scene.getCameraState();
+    state.camera = { position: position.toArray(), target: target.toArray() };
+
+    state.visibleLayers = this.scene.layers.list()
+      .filter(layer => layer.isVisible())
+      .map(layer => layer.id);
+
+    state.collapsedSidebars = ['left', 'right']
+      .filter(side => this.element?.querySelector(`.${side}-sidebar`)?.classList.contains('collapsed'));
+
+    const clock = this.scene.getSimulationClock();
+    state.time = clock.getDate();
+    state.rate = clock.getRate();
+    state.reversed = clock.isReversed();
+    state.paused = clock.isPaused();
+    return state;
+  }
+
+  // Keep the URL in step with the view so it can be copied and shared
+  private initUrlSync(): void {
+    if (!this.element || !this.scene) return;
+
+    this.scene.addEventListener('camerachange', this.scheduleUrlUpdate);
+    this.scene.getSimulationClock().addEventListener('change', this.scheduleUrlUpdate);
+
+    this.scene.layers.addEventListener('list', this.scheduleUrlUpdate);
+    this.scene.layers.addEventListener('change', this.scheduleUrlUpdate);
+    this.element.querySelectorAll('.sidebar-toggle').forEach(button => {
+      button.addEventListener('click', this.scheduleUrlUpdate);
     });
+  }
 
-    rightToggleBtn?.addEventListener('click', () => {
-      rightSidebar?.classList.toggle('collapsed');
-      const icon = rightToggleBtn.querySelector('.toggle-icon');
-      if (icon) {
-        icon.textContent = rightSidebar?.classList.contains('collapsed') ? '>' : '<';
-      }
+  // Write the URL once the view has settled: each change restarts the wait, so a drag or
+  // a flight ends in one replaceState() call
+  private scheduleUrlUpdate = (): void => {
+    if (this.urlUpdateTimeoutId !== null) {
+      clearTimeout(this.urlUpdateTimeoutId);
+    }
+    this.urlUpdateTimeoutId = window.setTimeout(() => {
+      this.urlUpdateTimeoutId = null;
+      if (!this.scene) return;
+
+      const query = encodeViewState(this.getViewState(), new URLSearchParams(window.location.search));
+      const url = `${window.location.pathname}?${query.toString()}${window.location.hash}`;
+      window.history.replaceState(window.history.state, '', url);
+    }, URL_UPDATE_DELAY);
+  };
+
+  private initSidebarToggles(): void {
+    if (!this.element) return;
+
+    (['left', 'right'] as const).forEach(side => {
+      const sidebar = this.element?.querySelector(`.${side}-sidebar`);
+      this.element?.querySelector(`.${side}-toggle-btn`)?.addEventListener('click', () => {
+        this.setSidebarCollapsed(side, !sidebar?.classList.contains('collapsed'));
+      });
     });
   }
 
   private initSceneControls(): void { // Added method
     if (!this.element || !this.scene) return;
 
-    const poleCheckbox = this.element.querySelector('#show-pole-checkbox') as HTMLInputElement;
-    const equatorCheckbox = this.element.querySelector('#show-equator-checkbox') as HTMLInputElement;
-    const longitudeLinesCheckbox = this.element.querySelector('#show-longitude-lines-checkbox') as HTMLInputElement; // Added longitude lines checkbox
-    const latitudeLinesCheckbox = this.element.querySelector('#show-latitude-lines-checkbox') as HTMLInputElement; // Added latitude lines checkbox
     const statsCheckbox = this.element.querySelector('#show-stats-checkbox') as HTMLInputElement; // Added stats checkbox
+    const moonCheckbox = this.element.querySelector('#show-moon-checkbox') as HTMLInputElement;
+    const tiledGlobeCheckbox = this.element.querySelector('#tiled-globe-checkbox') as HTMLInputElement;
+    const exaggerationSlider = this.element.querySelector('#terrain-exaggeration-slider') as HTMLInputElement;
+    const exaggerationValue = this.element.querySelector('#terrain-exaggeration-value') as HTMLElement;
+    const satellitesCheckbox = this.element.querySelector('#show-satellites-checkbox') as HTMLInputElement;
+    const tleFileInput = this.element.querySelector('#tle-file-input') as HTMLInputElement;
+    const orbitsCheckbox = this.element.querySelector('#show-orbits-checkbox') as HTMLInputElement;
+    const groundTracksCheckbox = this.element.querySelector('#show-ground-tracks-checkbox') as HTMLInputElement;
+    const eclipseShadowsCheckbox = this.element.querySelector('#eclipse-shadows-checkbox') as HTMLInputElement;
+    const dayNightCheckbox = this.element.querySelector('#day-night-checkbox') as HTMLInputElement;
+    const twilightSlider = this.element.querySelector('#twilight-width-slider') as HTMLInputElement;
+    const twilightValue = this.element.querySelector('#twilight-width-value') as HTMLElement;
+    const graticuleStepSelect = this.element.querySelector('#graticule-step-select') as HTMLSelectElement;
+    const solarScaleSelect = this.element.querySelector('#solar-scale-select') as HTMLSelectElement;
+    const renderOnDemandCheckbox = this.element.querySelector('#render-on-demand-checkbox') as HTMLInputElement;
+    const adaptiveQualityCheckbox = this.element.querySelector('#adaptive-quality-checkbox') as HTMLInputElement;
+
+    statsCheckbox?.addEventListener('change', () => { // Added event listener for stats
+      this.scene?.toggleStatsVisibility(statsCheckbox.checked);
+    });
 
-    poleCheckbox?.addEventListener('change', () => {
-      this.scene?.togglePoleVisibility(poleCheckbox.checked);
+    renderOnDemandCheckbox?.addEventListener('change', () => {
+      this.scene?.setRenderMode(renderOnDemandCheckbox.checked ? 'onDemand' : 'continuous');
     });
 
-    equatorCheckbox?.addEventListener('change', () => {
-      this.scene?.toggleEquatorVisibility(equatorCheckbox.checked);
+    adaptiveQualityCheckbox?.addEventListener('change', () => {
+      this.scene?.setAdaptiveQuality(adaptiveQualityCheckbox.checked);
     });
 
-    longitudeLinesCheckbox?.addEventListener('change', () => { // Added event listener for longitude lines
-      this.scene?.toggleLongitudeLinesVisibility(longitudeLinesCheckbox.checked);
+    moonCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleMoonVisibility(moonCheckbox.checked);
     });
 
-    latitudeLinesCheckbox?.addEventListener('change', () => { // Added event listener for latitude lines
-      this.scene?.toggleLatitudeLinesVisibility(latitudeLinesCheckbox.checked);
+    eclipseShadowsCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleEclipseShadows(eclipseShadowsCheckbox.checked);
     });
 
-    statsCheckbox?.addEventListener('change', () => { // Added event listener for stats
-      this.scene?.toggleStatsVisibility(statsCheckbox.checked);
+    solarScaleSelect?.addEventListener('change', () => {
+      this.scene?.setSolarScale(solarScaleSelect.value as SolarScale);
+    });
+
+    tiledGlobeCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleTiledGlobe(tiledGlobeCheckbox.checked);
+      exaggerationSlider.disabled = !tiledGlobeCheckbox.checked;
+    });
+
+    exaggerationSlider?.addEventListener('change', () => {
+      // On release rather than while dragging: every loaded tile is rebuilt
+      exaggerationValue.textContent = exaggerationSlider.value;
+      this.scene?.setTerrainExaggeration(Number(exaggerationSlider.value));
+    });
+
+    satellitesCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleSatellitesVisibility(satellitesCheckbox.checked);
+    });
+
+    tleFileInput?.addEventListener('change', () => {
+      const file = tleFileInput.files?.[0];
+      tleFileInput.value = ''; // Allow picking the same file again
+      file?.text()
+        .then(text => this.showSatelliteStatus(this.scene!.loadSatelliteElements(text)))
+        .catch(error => this.showSatelliteStatus(error));
+    });
+
+    orbitsCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleOrbitPathsVisibility(orbitsCheckbox.checked);
     });
 
+    groundTracksCheckbox?.addEventListener('change', () => {
+      this.scene?.toggleGroundTracksVisibility(groundTracksCheckbox.checked);
+    });
+
+    dayNightCheckbox?.addEventListener('change', () => {
+      this.scene?.setEarthShading(dayNightCheckbox.checked ? 'daynight' : 'standard');
+      twilightSlider.disabled = !dayNightCheckbox.checked;
+    });
+
+    twilightSlider?.addEventListener('input', () => {
+      twilightValue.textContent = twilightSlider.value;
+      this.scene?.setTwilightWidth(Number(twilightSlider.value));
+    });
+
+    graticuleStepSelect?.addEventListener('change', () => {
+      const value = graticuleStepSelect.value;
+      this.scene?.setGraticuleStep(value === 'auto' ? 'auto' : Number(value));
+    });
+
+    this.initLayerPanel();
+    this.initDateControls();
+    this.initGeoJsonControls();
+    this.initMeasureControls();
+    this.initProjectControls();
+    this.initCaptureControls();
+    this.initTourEditor();
+    this.initPlaceSearch();
+
     // Set initial visibility based on checkboxes
     if (this.scene) { // Ensure scene is available
-        this.scene.togglePoleVisibility(poleCheckbox.checked);
-        this.scene.toggleEquatorVisibility(equatorCheckbox.checked);
-        this.scene.toggleLongitudeLinesVisibility(longitudeLinesCheckbox.checked); // Set initial longitude lines visibility
-        this.scene.toggleLatitudeLinesVisibility(latitudeLinesCheckbox.checked); // Set initial latitude lines visibility
         this.scene.toggleStatsVisibility(statsCheckbox.checked); // Set initial stats visibility
+        this.scene.setRenderMode(renderOnDemandCheckbox.checked ? 'onDemand' : 'continuous');
+        this.scene.setAdaptiveQuality(adaptiveQualityCheckbox.checked);
+        this.scene.toggleMoonVisibility(moonCheckbox.checked);
+        this.scene.toggleEclipseShadows(eclipseShadowsCheckbox.checked);
+        this.scene.setTerrainExaggeration(Number(exaggerationSlider.value));
+        this.scene.toggleTiledGlobe(tiledGlobeCheckbox.checked);
+        exaggerationSlider.disabled = !tiledGlobeCheckbox.checked;
+        this.scene.toggleSatellitesVisibility(satellitesCheckbox.checked);
+        this.scene.toggleOrbitPathsVisibility(orbitsCheckbox.checked);
+        this.scene.toggleGroundTracksVisibility(groundTracksCheckbox.checked);
+        this.scene.setEarthShading(dayNightCheckbox.checked ? 'daynight' : 'standard');
+        this.scene.setTwilightWidth(Number(twilightSlider.value));
+    }
+  }
+
+  private initLayerPanel(): void {
+    const slot = this.element?.querySelector('.layer-panel-slot');
+    if (!slot || !this.scene) return;
+
+    this.layerPanel = new LayerPanel(this.scene.layers);
+    slot.appendChild(this.layerPanel.getElement());
+  }
+
+  private initTourEditor(): void {
+    const slot = this.element?.querySelector('.tour-editor-slot');
+    if (!slot || !this.scene) return;
+
+    this.tourEditor = new TourEditor(this.scene);
+    slot.appendChild(this.tourEditor.getElement());
+    this.scene.addEventListener('tour', this.handleTourState);
+  }
+
+  // Keyframe captions over the globe while a tour plays; kept up while it's paused
+  private handleTourState = (event: { state: TourState; caption: string }): void => {
+    const caption = this.element?.querySelector('.tour-caption') as HTMLElement | null;
+    if (!caption) return;
+    caption.textContent = event.caption;
+    caption.hidden = event.state === 'stopped' || !event.caption;
+  };
+
+  private initPlaceSearch(): void {
+    const slot = this.element?.querySelector('.place-search-slot');
+    if (!slot) return;
+
+    this.placeSearch = new PlaceSearch((entry: GazetteerEntry) => {
+      this.scene?.flyTo({ lat: entry.lat, lon: entry.lon, altitude: placeAltitude(entry) });
+    });
+    slot.appendChild(this.placeSearch.getElement());
+
+    this.gazetteerReady = Gazetteer.load('/data/gazetteer.json')
+      .then(gazetteer => {
+        this.placeSearch?.setGazetteer(gazetteer);
+        return gazetteer;
+      })
+      .catch(error => {
+        this.placeSearch?.setError(`Places could not be searched: ${error.message}`);
+        return null;
+      });
+  }
+
+  private initGeoJsonControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const urlInput = this.element.querySelector('#geojson-url-input') as HTMLInputElement;
+    const loadButton = this.element.querySelector('#geojson-url-load-btn') as HTMLButtonElement;
+    const fileInput = this.element.querySelector('#geojson-file-input') as HTMLInputElement;
+    const dropTarget = this.element.querySelector('.canvas-container') as HTMLElement;
+
+    loadButton?.addEventListener('click', () => {
+      const url = urlInput.value.trim();
+      if (!url) return;
+      this.scene?.loadGeoJson(url, url)
+        .then(() => this.showGeoJsonError(null))
+        .catch(error => this.showGeoJsonError(error));
+    });
+
+    fileInput?.addEventListener('change', () => {
+      this.loadGeoJsonFiles(fileInput.files);
+      fileInput.value = ''; // Allow picking the same file again
+    });
+
+    dropTarget?.addEventListener('dragover', (event) => {
+      event.preventDefault(); // Required to allow dropping
+    });
+    dropTarget?.addEventListener('drop', (event) => {
+      event.preventDefault();
+      this.loadGeoJsonFiles(event.dataTransfer?.files ?? null);
+    });
+  }
+
+  private loadGeoJsonFiles(files: FileList | null): void {
+    Array.from(files ?? []).forEach(file => {
+      file.text()
+        .then(text => {
+          this.scene?.addGeoJson(file.name, JSON.parse(text));
+          this.showGeoJsonError(null);
+        })
+        .catch(error => this.showGeoJsonError(error));
+    });
+  }
+
+  private showGeoJsonError(error: unknown): void {
+    const errorElement = this.element?.querySelector('.geojson-error') as HTMLElement | null;
+    if (!errorElement) return;
+    errorElement.textContent = error instanceof Error ? error.message : '';
+    errorElement.hidden = !error;
+  }
+
+  private initMeasureControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const modeSelect = this.element.querySelector('#measure-mode-select') as HTMLSelectElement;
+    const unitSelect = this.element.querySelector('#measure-unit-select') as HTMLSelectElement;
+    const finishButton = this.element.querySelector('#measure-finish-btn') as HTMLButtonElement;
+    const clearButton = this.element.querySelector('#measure-clear-btn') as HTMLButtonElement;
+    const list = this.element.querySelector('#measurement-list') as HTMLUListElement;
+
+    modeSelect?.addEventListener('change', () => {
+      this.scene?.setMeasureMode(modeSelect.value as MeasureMode);
+      this.element?.querySelector('.canvas-container')?.classList.toggle('measuring', modeSelect.value !== 'off');
+      this.updateMeasurements();
+    });
+    unitSelect?.addEventListener('change', () => this.updateMeasurements());
+    finishButton?.addEventListener('click', () => this.scene?.finishMeasurement());
+    clearButton?.addEventListener('click', () => this.scene?.clearMeasurements());
+    list?.addEventListener('click', (event) => {
+      const button = (event.target as Element).closest<HTMLElement>('.measurement-remove-btn');
+      if (button?.dataset.id) {
+        this.scene?.removeMeasurement(button.dataset.id);
+      }
+    });
+
+    this.scene.addEventListener('measurementchange', this.handleMeasurementChange);
+    this.updateMeasurements();
+  }
+
+  private handleMeasurementChange = (event: { error: Error | null }): void => {
+    const errorElement = this.element?.querySelector('.measure-error') as HTMLElement | null;
+    if (errorElement) {
+      errorElement.textContent = event.error?.message ?? '';
+      errorElement.hidden = !event.error;
+    }
+    this.updateMeasurements();
+  };
+
+  private updateMeasurements(): void {
+    if (!this.element || !this.scene) return;
+
+    const unit = (this.element.querySelector('#measure-unit-select') as HTMLSelectElement).value as DistanceUnit;
+    const hint = this.element.querySelector('#measure-hint') as HTMLElement;
+    const finishButton = this.element.querySelector('#measure-finish-btn') as HTMLButtonElement;
+    const clearButton = this.element.querySelector('#measure-clear-btn') as HTMLButtonElement;
+    const list = this.element.querySelector('#measurement-list') as HTMLUListElement;
+    const mode = this.scene.getMeasureMode();
+    const draftPoints = this.scene.getMeasurementDraft().length;
+    const measurements = this.scene.getMeasurements();
+
+    hint.hidden = mode === 'off';
+    hint.textContent = mode === 'distance'
+      ? 'Click two points on the globe.'
+      : `Click the corners of the area, then Finish area (${draftPoints} so far).`;
+    finishButton.disabled = mode !== 'area' || draftPoints < 3;
+    clearButton.disabled = measurements.length === 0 && draftPoints === 0;
+
+    list.innerHTML = '';
+    measurements.forEach((measurement, index) => {
+      const item = document.createElement('li');
+      const text = document.createElement('span');
+      text.textContent = measurement.kind === 'distance'
+        ? `${index + 1}. ${formatDistance(measurement.distance, unit)}${measurement.bearing === null ? '' : `, bearing ${formatBearing(measurement.bearing)}`}`
+        : `${index + 1}. ${formatArea(measurement.area ?? 0, unit)}, perimeter ${formatDistance(measurement.distance, unit)}`;
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.className = 'measurement-remove-btn';
+      removeButton.dataset.id = measurement.id;
+      removeButton.setAttribute('aria-label', `Remove measurement ${index + 1}`);
+      removeButton.innerHTML = '&times;';
+      item.append(text, removeButton);
+      list.appendChild(item);
+    });
+  }
+
+  private initProjectControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const nameInput = this.element.querySelector('#project-name-input') as HTMLInputElement;
+    const saveButton = this.element.querySelector('#project-save-btn') as HTMLButtonElement;
+    const openButton = this.element.querySelector('#project-open-btn') as HTMLButtonElement;
+    const fileInput = this.element.querySelector('#project-file-input') as HTMLInputElement;
+    const gltfButton = this.element.querySelector('#export-gltf-btn') as HTMLButtonElement;
+    const glbButton = this.element.querySelector('#export-glb-btn') as HTMLButtonElement;
+    const projectName = () => nameInput.value.trim() || 'Untitled';
+
+    saveButton?.addEventListener('click', () => {
+      if (!this.scene) return;
+      const project = this.scene.toProject(projectName());
+      const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `${fileSlug(project.name)}.project.json`);
+      this.showProjectError(null);
+    });
+
+    openButton?.addEventListener('click', () => fileInput.click());
+    fileInput?.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = ''; // Allow opening the same file again
+      if (!file) return;
+      file.text()
+        .then(text => {
+          const project = this.scene?.loadProject(JSON.parse(text), `Project ${file.name}`);
+          if (project) {
+            nameInput.value = project.name;
+            this.syncDisplayControls();
+            this.scheduleUrlUpdate();
+          }
+          this.showProjectError(null);
+        })
+        .catch(error => this.showProjectError(error));
+    });
+
+    const exportScene = (binary: boolean) => {
+      if (!this.scene) return;
+      gltfButton.disabled = glbButton.disabled = true;
+      this.scene.exportGltf(binary)
+        .then(blob => {
+          downloadBlob(blob, `${fileSlug(projectName())}.${binary ? 'glb' : 'gltf'}`);
+          this.showProjectError(null);
+        })
+        .catch(error => this.showProjectError(error))
+        .finally(() => {
+          gltfButton.disabled = glbButton.disabled = false;
+        });
+    };
+    gltfButton?.addEventListener('click', () => exportScene(false));
+    glbButton?.addEventListener('click', () => exportScene(true));
+  }
+
+  // Bring the display controls in line with the scene after it was changed from elsewhere
+  private syncDisplayControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const dayNightCheckbox = this.element.querySelector('#day-night-checkbox') as HTMLInputElement;
+    const twilightSlider = this.element.querySelector('#twilight-width-slider') as HTMLInputElement;
+    const graticuleStepSelect = this.element.querySelector('#graticule-step-select') as HTMLSelectElement;
+    const solarScaleSelect = this.element.querySelector('#solar-scale-select') as HTMLSelectElement;
+
+    dayNightCheckbox.checked = this.scene.getEarthShading() === 'daynight';
+    twilightSlider.disabled = !dayNightCheckbox.checked;
+    const step = String(this.scene.getGraticuleStep());
+    if (!Array.from(graticuleStepSelect.options).some(option => option.value === step)) {
+      graticuleStepSelect.add(new Option(`${step}°`, step)); // A step the list doesn't offer
+    }
+    graticuleStepSelect.value = step;
+    solarScaleSelect.value = this.scene.getSolarScale();
+  }
+
+  private initCaptureControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const scaleSelect = this.element.querySelector('#capture-scale-select') as HTMLSelectElement;
+    const transparentCheckbox = this.element.querySelector('#capture-transparent-checkbox') as HTMLInputElement;
+    const pngButton = this.element.querySelector('#capture-png-btn') as HTMLButtonElement;
+    const fpsSelect = this.element.querySelector('#record-fps-select') as HTMLSelectElement;
+    const fixedStepCheckbox = this.element.querySelector('#record-fixed-step-checkbox') as HTMLInputElement;
+    const recordButton = this.element.querySelector('#record-btn') as HTMLButtonElement;
+    const fileName = () => `capture-${new Date().toISOString().slice(0, 19).replace(/:/g, '')}`;
+
+    pngButton?.addEventListener('click', () => {
+      if (!this.scene) return;
+      pngButton.disabled = true;
+      this.scene.captureImage({ scale: Number(scaleSelect.value), transparent: transparentCheckbox.checked })
+        .then(blob => {
+          downloadBlob(blob, `${fileName()}.png`);
+          this.showCaptureError(null);
+        })
+        .catch(error => this.showCaptureError(error))
+        .finally(() => {
+          pngButton.disabled = false;
+        });
+    });
+
+    const setRecording = (recording: boolean) => {
+      recordButton.textContent = recording ? 'Stop' : 'Record';
+      recordButton.setAttribute('aria-pressed', String(recording));
+      recordButton.classList.toggle('active', recording);
+      fpsSelect.disabled = fixedStepCheckbox.disabled = recording;
+    };
+
+    recordButton?.addEventListener('click', () => {
+      if (!this.scene) return;
+      if (this.scene.isRecording()) {
+        setRecording(false);
+        this.scene.stopRecording()
+          .then(blob => downloadBlob(blob, `${fileName()}.webm`))
+          .catch(error => this.showCaptureError(error));
+        return;
+      }
+      try {
+        this.scene.startRecording({ fps: Number(fpsSelect.value), fixedStep: fixedStepCheckbox.checked });
+        setRecording(true);
+        this.showCaptureError(null);
+      } catch (error) {
+        this.showCaptureError(error);
+      }
+    });
+  }
+
+  private showCaptureError(error: unknown): void {
+    const errorElement = this.element?.querySelector('.capture-error') as HTMLElement | null;
+    if (!errorElement) return;
+    errorElement.textContent = error instanceof Error ? error.message : '';
+    errorElement.hidden = !error;
+  }
+
+  private showProjectError(error: unknown): void {
+    const errorElement = this.element?.querySelector('.project-error') as HTMLElement | null;
+    if (!errorElement) return;
+    errorElement.textContent = error instanceof Error ? error.message : '';
+    errorElement.hidden = !error;
+  }
+
+  private initDateControls(): void {
+    if (!this.element || !this.scene) return;
+
+    const clock = this.scene.getSimulationClock();
+    const dateInput = this.element.querySelector('#sim-date-input') as HTMLInputElement;
+    const nowButton = this.element.querySelector('#sim-date-now-btn') as HTMLButtonElement;
+    const playButton = this.element.querySelector('#sim-play-btn') as HTMLButtonElement;
+    const reverseButton = this.element.querySelector('#sim-reverse-btn') as HTMLButtonElement;
+    const rateSelect = this.element.querySelector('#sim-rate-select') as HTMLSelectElement;
+    const slider = this.element.querySelector('#sim-timeline-slider') as HTMLInputElement;
+    const nextFullMoonButton = this.element.querySelector('#next-full-moon-btn') as HTMLButtonElement;
+    const nextEclipseButton = this.element.querySelector('#next-eclipse-btn') as HTMLButtonElement;
+
+    dateInput?.addEventListener('change', () => {
+      if (!dateInput.value) return;
+      // datetime-local has no zone; treat the entered value as UTC
+      this.scene?.setSimulationDate(new Date(`${dateInput.value}:00Z`));
+    });
+
+    nowButton?.addEventListener('click', () => {
+      this.scene?.setSimulationDate(new Date());
+    });
+
+    playButton?.addEventListener('click', () => {
+      if (clock.isPaused()) {
+        clock.play();
+      } else {
+        clock.pause();
+      }
+    });
+
+    reverseButton?.addEventListener('click', () => {
+      clock.setReversed(!clock.isReversed());
+    });
+
+    rateSelect?.addEventListener('change', () => {
+      clock.setRate(Number(rateSelect.value));
+    });
+
+    // Scrubbing holds the clock like a camera drag does
+    slider?.addEventListener('pointerdown', () => clock.hold());
+    slider?.addEventListener('change', () => clock.release());
+    slider?.addEventListener('input', () => {
+      this.scene?.setSimulationDate(new Date(Number(slider.value)));
+    });
+
+    nextFullMoonButton?.addEventListener('click', () => {
+      const date = this.scene?.jumpToNextFullMoon();
+      if (date) {
+        this.showLunarEvent(`Full moon: ${this.formatUtc(date)}`);
+      }
+    });
+
+    nextEclipseButton?.addEventListener('click', () => {
+      const eclipse = this.scene?.jumpToNextEclipse();
+      if (!eclipse) return;
+      this.showLunarEvent(`${eclipse.type === 'lunar' ? 'Lunar' : 'Solar'} eclipse: ${this.formatUtc(eclipse.date)}`);
+
+      // The Moon's shadow is small; bring it into view. A lunar eclipse is visible from
+      // the whole night side, so the camera stays put.
+      const lunar = this.scene?.getLunarPosition();
+      if (eclipse.type === 'solar' && lunar) {
+        this.scene?.flyTo({ lat: lunar.sublunarLatitude, lon: lunar.sublunarLongitude, altitude: 12000000 });
+      }
+    });
+
+    clock.addEventListener('tick', this.handleClockTick);
+    clock.addEventListener('change', this.handleClockChange);
+
+    this.updateTimeline();
+  }
+
+  private handleClockTick = (): void => {
+    // Refresh the readouts a few times per second rather than every frame
+    const now = performance.now();
+    if (now - this.lastTimelineUpdate > 250) {
+      this.updateTimeline();
+    }
+  };
+
+  private handleClockChange = (): void => {
+    this.updateTimeline();
+  };
+
+  private updateTimeline(): void {
+    if (!this.element || !this.scene) return;
+    this.lastTimelineUpdate = performance.now();
+
+    const clock = this.scene.getSimulationClock();
+    const date = clock.getDate();
+    const dateInput = this.element.querySelector('#sim-date-input') as HTMLInputElement;
+    const playButton = this.element.querySelector('#sim-play-btn') as HTMLButtonElement;
+    const reverseButton = this.element.querySelector('#sim-reverse-btn') as HTMLButtonElement;
+    const rateSelect = this.element.querySelector('#sim-rate-select') as HTMLSelectElement;
+    const slider = this.element.querySelector('#sim-timeline-slider') as HTMLInputElement;
+
+    // Don't overwrite fields the user is currently editing
+    if (dateInput && document.activeElement !== dateInput) {
+      dateInput.value = date.toISOString().slice(0, 16);
+    }
+    if (playButton) {
+      playButton.textContent = clock.isPaused() ? 'Play' : 'Pause';
+    }
+    if (reverseButton) {
+      reverseButton.setAttribute('aria-pressed', String(clock.isReversed()));
+      reverseButton.classList.toggle('active', clock.isReversed());
+    }
+    if (rateSelect && document.activeElement !== rateSelect) {
+      const rate = String(clock.getRate());
+      if (!Array.from(rateSelect.options).some(option => option.value === rate)) {
+        rateSelect.add(new Option(`${rate}x`, rate)); // A rate the list doesn't offer, e.g. from a link
+      }
+      rateSelect.value = rate;
+    }
+    if (slider) {
+      // The slider spans the UTC year containing the simulation time
+      const year = date.getUTCFullYear();
+      slider.min = String(Date.UTC(year, 0, 1));
+      slider.max = String(Date.UTC(year + 1, 0, 1));
+      slider.value = String(date.getTime());
+    }
+
+    this.updateSolarReadout();
+    if (this.selectedSatelliteId) {
+      this.updateSatellitePanel(this.scene.getSatelliteState(this.selectedSatelliteId));
+    }
+  }
+
+  private showLunarEvent(text: string): void {
+    const element = this.element?.querySelector('#lunar-event') as HTMLElement | null;
+    if (element) {
+      element.textContent = text;
+      element.hidden = false;
+    }
+  }
+
+  private formatUtc(date: Date): string {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private updateSolarReadout(): void {
+    if (!this.element || !this.scene) return;
+
+    const readout = this.element.querySelector('#solar-readout') as HTMLElement;
+    const solar = this.scene.getSolarPosition();
+    const lunar = this.scene.getLunarPosition();
+
+    if (readout && solar) {
+      readout.innerHTML = `
+        <p>Sub-solar point: ${solar.subsolarLatitude.toFixed(2)}°, ${solar.subsolarLongitude.toFixed(2)}°</p>
+        <p>Declination: ${solar.declination.toFixed(2)}°</p>
+        <p>Equation of time: ${solar.equationOfTime.toFixed(1)} min</p>
+        ${lunar ? `<p>Moon distance: ${Math.round(lunar.distance).toLocaleString()} km</p>` : ''}
+      `;
     }
   }
-}
\ No newline at end of file
+}
@@ -1,16 +1,50 @@
-import { Page } from '../types/page';
+import { Page, PageClass, PageFactory, RouteContext } from '../types/page';
+
+interface Route {
+  pattern: string;
+  regex: RegExp | null; // null for the '*' fallback
+  paramNames: string[];
+  factory: PageFactory;
+}
+
+// A class is told apart from a factory function by having create() on its prototype
+function isPageClass(page: PageClass | PageFactory): page is PageClass {
+  return typeof (page as PageClass).prototype?.create === 'function';
+}
+
+// Turn '/place/:id' into a regex capturing each :param segment
+function compilePattern(pattern: string): { regex: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = pattern
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { regex: new RegExp(`^${source}/?$`), paramNames };
+}
 
 export class Router {
-  private routes: Map<string, Page>;
-  private container: HTMLElement;
+  private routes: Route[] = [];
+  private fallback: Route | null = null;
+  private container: HTMLElement; // Outlet the pages render into; the shell around it is left alone
   private currentPage: Page | null = null;
+  private currentContext: RouteContext = { path: '/', params: {}, query: new URLSearchParams() };
+  private navigationId: number = 0; // Lets a slow lazy page notice it has been superseded
+  private historyIndex: number = 0; // Position in the session history, kept in history.state
+  private undoingHistoryMove: boolean = false; // The next popstate is our own history.go()
   
   constructor(container: HTMLElement) {
-    this.routes = new Map();
     this.container = container;
     
     // Listen for popstate events (browser back/forward)
-    window.addEventListener('popstate', () => this.handleRouteChange());
+    window.addEventListener('popstate', (e: PopStateEvent) => {
+      this.handleRouteChange(e.state?.index ?? 0).catch(error => this.showError(error));
+    });
     
     // Intercept link clicks for SPA navigation
     document.addEventListener('click', (e: MouseEvent) => {
@@ -19,62 +53,155 @@ export class Router {
       
       if (anchor && anchor.href.startsWith(window.location.origin) && !anchor.dataset.external) {
         e.preventDefault();
-        this.navigate(anchor.pathname);
+        this.navigate(anchor.pathname + anchor.search + anchor.hash) // Keep query and hash
+          .catch(error => this.showError(error));
       }
     });
   }
   
-  // Add a route
-  public addRoute(path: string, pageClass: new () => Page): void {
-    this.routes.set(path, new pageClass());
+  // Add a route. `path` may contain `:param` segments, or be '*' for the 404 fallback.
+  // Pass a page class to get a fresh instance per navigation, or a (possibly async)
+  // factory to load the page lazily.
+  public addRoute(path: string, page: PageClass | PageFactory): void {
+    const factory: PageFactory = isPageClass(page) ? () => new page() : page;
+
+    if (path === '*') {
+      this.fallback = { pattern: path, regex: null, paramNames: [], factory };
+      return;
+    }
+    const { regex, paramNames } = compilePattern(path);
+    this.routes.push({ pattern: path, regex, paramNames, factory });
   }
   
   // Start the router
-  public start(): void {
-    this.handleRouteChange();
-    this.setupNavHighlighting();
+  public start(): Promise<void> {
+    this.historyIndex = window.history.state?.index ?? 0; // Survives a reload
+    window.history.replaceState({ ...window.history.state, index: this.historyIndex }, '');
+    return this.handleRouteChange();
+  }
+
+  // Replace the outlet with an error message, e.g. when a page failed to load
+  public showError(error: unknown): void {
+    this.currentPage?.destroy();
+    this.currentPage = null;
+
+    const element = document.createElement('div');
+    element.className = 'not-found';
+    element.innerHTML = `
+      <div class="container">
+        <h1>Something went wrong</h1>
+        <p class="error-message"></p>
+        <a href="/" class="back-button">
+          <button>Return Home</button>
+        </a>
+      </div>
+    `;
+    element.querySelector('.error-message')!.textContent = `This page failed to load: ${(error as Error)?.message ?? error}`;
+    this.container.innerHTML = '';
+    this.container.appendChild(element);
+    document.title = 'Error';
+  }
+
+  // Path, params and query parameters of the current route
+  public getContext(): RouteContext {
+    return this.currentContext;
+  }
+
+  public getQuery(): URLSearchParams {
+    return this.currentContext.query;
   }
   
-  // Navigate to a path
-  public navigate(path: string): void {
-    window.history.pushState({}, '', path);
-    this.handleRouteChange();
-    this.setupNavHighlighting();
+  // Navigate to a path (may include a query string and hash)
+  public async navigate(path: string): Promise<void> {
+    const url = new URL(path, window.location.origin);
+    const to = this.match(url.pathname, url.searchParams)?.context;
+    if (to && !(await this.canLeave(to))) {
+      return;
+    }
+
+    window.history.pushState({ index: this.historyIndex + 1 }, '', path);
+    this.historyIndex++;
+    await this.handleRouteChange();
+  }
+
+  // Find the route for a path; the first matching pattern wins, then the fallback
+  private match(path: string, query: URLSearchParams): { route: Route; context: RouteContext } | null {
+    for (const route of this.routes) {
+      const result = route.regex?.exec(path);
+      if (result) {
+        const params: Record<string, string> = {};
+        try {
+          route.paramNames.forEach((name, index) => {
+            params[name] = decodeURIComponent(result[index + 1]);
+          });
+        } catch {
+          break; // Malformed escape (URIError): treat it as not found
+        }
+        return { route, context: { path, params, query } };
+      }
+    }
+    return this.fallback ? { route: this.fallback, context: { path, params: {}, query } } : null;
+  }
+
+  private async canLeave(to: RouteContext): Promise<boolean> {
+    if (!this.currentPage?.beforeLeave) return true;
+    return await this.currentPage.beforeLeave(to);
   }
   
-  // Handle route changes
-  private handleRouteChange(): void {
+  // Handle route changes. `historyIndex` is given for back/forward (popstate), whose
+  // guards haven't run yet; navigate() runs them before pushing the new entry.
+  private async handleRouteChange(historyIndex?: number): Promise<void> {
     const path = window.location.pathname;
+    const matched = this.match(path, new URLSearchParams(window.location.search));
+    if (!matched) return;
+
+    if (historyIndex !== undefined) {
+      // Back/forward can't be cancelled up front; step back over it if the page refuses
+      // to leave, and ignore the popstate that step causes
+      if (this.undoingHistoryMove) {
+        this.undoingHistoryMove = false;
+        this.historyIndex = historyIndex;
+        return;
+      }
+      if (!(await this.canLeave(matched.context))) {
+        this.undoingHistoryMove = true;
+        window.history.go(this.historyIndex - historyIndex);
+        return;
+      }
+      this.historyIndex = historyIndex;
+    }
+
+    const navigationId = ++this.navigationId;
+    const page = await matched.route.factory();
+    if (navigationId !== this.navigationId) {
+      return; // A newer navigation started while this page was loading
+    }
+
+    // Cleanup current page if exists
+    if (this.currentPage) {
+      this.currentPage.destroy();
+      this.currentPage = null;
+    }
     
-    // Find the matching route or use wildcard
-    let page = this.routes.get(path);
+    // Clear the outlet (the header/nav outside it survives)
+    this.container.innerHTML = '';
     
-    if (!page) {
-      page = this.routes.get('*') || undefined;
-    }
+    // Create the new page
+    const pageElement = page.create(matched.context);
+    this.container.appendChild(pageElement);
     
-    if (page) {
-      // Cleanup current page if exists
-      if (this.currentPage) {
-        this.currentPage.destroy();
-      }
-      
-      // Clear the container
-      this.container.innerHTML = '';
-      
-      // Create the new page
-      const pageElement = page.create();
-      this.container.appendChild(pageElement);
-      
-      // Set the current page
-      this.currentPage = page;
-      
-      // Update page title
-      document.title = page.getTitle();
-      
-      // Scroll to top
-      window.scrollTo(0, 0);
-    }
+    // Set the current page
+    this.currentPage = page;
+    this.currentContext = matched.context;
+    page.mounted?.(matched.context);
+    
+    // Update page title
+    document.title = page.getTitle();
+    
+    // Scroll to top
+    window.scrollTo(0, 0);
+
+    this.setupNavHighlighting();
   }
   
   // Set active class on nav links
@@ -92,4 +219,4 @@ export class Router {
       }
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+export interface GazetteerEntry {
+  name: string;
+  type: 'city' | 'country';
+  country?: string;
+  aliases?: string[]; // Alternative names, e.g. "USA"
+  lat: number; // degrees
+  lon: number; // degrees
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerEntry;
+  score: number; // Higher is better
+}
+
+// Lowercase and strip diacritics so "sao" finds "São Paulo"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Levenshtein distance, used to forgive small typos
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Score how well `query` matches `name` (both normalised); 0 means no match
+function scoreName(query: string, name: string): number {
+  if (name === query) return 100;
+  if (name.startsWith(query)) return 80 - Math.min(name.length - query.length, 20) * 0.5;
+  if (name.split(/[\s,.-]+/).some(word => word.startsWith(query))) return 60;
+  if (name.includes(query)) return 40;
+
+  // Typo tolerance against the same-length prefix of the name
+  if (query.length >= 3) {
+    const distance = editDistance(query, name.slice(0, query.length));
+    const allowed = query.length >= 6 ? 2 : 1;
+    if (distance <= allowed) return 30 - distance * 5;
+  }
+
+  // All query characters appear in order
+  let position = 0;
+  for (const char of query) {
+    position = name.indexOf(char, position) + 1;
+    if (position === 0) return 0;
+  }
+  return 10;
+}
+
+// Offline place lookup over a bundled JSON list of cities and countries
+export class Gazetteer {
+  private entries: { entry: GazetteerEntry; names: string[] }[];
+
+  constructor(entries: GazetteerEntry[]) {
+    this.entries = entries.map(entry => ({
+      entry,
+      names: [entry.name, ...(entry.aliases ?? [])].map(normalize),
+    }));
+  }
+
+  static async load(url: string): Promise<Gazetteer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load gazetteer from ${url}: ${response.status} ${response.statusText}`);
+    }
+    return new Gazetteer(await response.json());
+  }
+
+  search(query: string, limit: number = 8): GazetteerMatch[] {
+    const normalizedQuery = normalize(query);
+    if (!normalizedQuery) return [];
+
+    return this.entries
+      .map(({ entry, names }) => ({ entry, score: Math.max(...names.map(name => scoreName(normalizedQuery, name))) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, limit);
+  }
+}
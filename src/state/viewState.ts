@@ -0,0 +1,89 @@
+import { MAX_SIMULATION_RATE } from '../3d/SimulationClock';
+
+// Shareable view state carried in the URL query string, e.g.
+// ?cam=0,0,160,0,0,0&layers=pole,equator&collapsed=right&t=2024-06-21T12:00:00Z&rate=3600&paused=1
+
+export type Vector3Tuple = [number, number, number];
+
+export interface ViewState {
+  camera?: { position: Vector3Tuple; target: Vector3Tuple };
+  visibleLayers?: string[]; // Ids of the layers that are switched on; others are off
+  collapsedSidebars?: string[]; // 'left' and/or 'right'
+  time?: Date;
+  rate?: number;
+  reversed?: boolean;
+  paused?: boolean;
+}
+
+const CAMERA_PRECISION = 2; // Decimal places kept for camera coordinates
+
+function parseList(value: string | null): string[] | undefined {
+  if (value === null) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseNumbers(value: string | null, count: number): number[] | undefined {
+  const numbers = parseList(value)?.map(Number);
+  return numbers && numbers.length === count && numbers.every(Number.isFinite) ? numbers : undefined;
+}
+
+// Anything malformed is dropped, so a mangled link falls back to the defaults
+export function decodeViewState(query: URLSearchParams): ViewState {
+  const state: ViewState = {};
+
+  const camera = parseNumbers(query.get('cam'), 6);
+  if (camera) {
+    state.camera = {
+      position: [camera[0], camera[1], camera[2]],
+      target: [camera[3], camera[4], camera[5]],
+    };
+  }
+
+  state.visibleLayers = parseList(query.get('layers'));
+  state.collapsedSidebars = parseList(query.get('collapsed'));
+
+  const time = query.get('t');
+  if (time !== null && !Number.isNaN(Date.parse(time))) {
+    state.time = new Date(time);
+  }
+
+  const rate = Number(query.get('rate'));
+  if (query.has('rate') && rate > 0 && rate <= MAX_SIMULATION_RATE) {
+    state.rate = rate;
+  }
+  if (query.has('rev')) {
+    state.reversed = query.get('rev') === '1';
+  }
+  if (query.has('paused')) {
+    state.paused = query.get('paused') === '1';
+  }
+
+  return state;
+}
+
+// Merge the state into `query`, leaving unrelated parameters untouched
+export function encodeViewState(state: ViewState, query: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  if (state.camera) {
+    const values = [...state.camera.position, ...state.camera.target];
+    query.set('cam', values.map(value => value.toFixed(CAMERA_PRECISION)).join(','));
+  }
+  if (state.visibleLayers) {
+    query.set('layers', state.visibleLayers.join(','));
+  }
+  if (state.collapsedSidebars) {
+    query.set('collapsed', state.collapsedSidebars.join(','));
+  }
+  if (state.time) {
+    query.set('t', state.time.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+  }
+  if (state.rate !== undefined) {
+    query.set('rate', String(state.rate));
+  }
+  if (state.reversed !== undefined) {
+    query.set('rev', state.reversed ? '1' : '0');
+  }
+  if (state.paused !== undefined) {
+    query.set('paused', state.paused ? '1' : '0');
+  }
+  return query;
+}
@@ -1,5 +1,20 @@
+export interface RouteContext {
+  path: string;
+  params: Record<string, string>; // Values of `:name` segments in the matched route pattern
+  query: URLSearchParams;
+}
+
 export interface Page {
-  create(): HTMLElement;
+  create(context?: RouteContext): HTMLElement;
   destroy(): void;
   getTitle(): string;
-}
\ No newline at end of file
+  // Called once the page element has been attached to the DOM
+  mounted?(context: RouteContext): void;
+  // Return false (or a promise of false) to cancel navigating away from the page
+  beforeLeave?(to: RouteContext): boolean | Promise<boolean>;
+}
+
+export type PageClass = new () => Page;
+
+// Lazy page factory, e.g. () => import('../pages/AboutPage').then(m => new m.AboutPage())
+export type PageFactory = () => Page | Promise<Page>;